@@ -22,6 +22,9 @@ export default defineConfig({
   // Directory where test files are located
   testDir: './tests',
 
+  // Fixes the test data seed and starts the payroll mock server when PAYROLL_API_MODE=mock
+  globalSetup: require.resolve('./src/config/global-setup'),
+
   // Run tests in files in parallel
   fullyParallel: true,
 
@@ -51,9 +54,6 @@ export default defineConfig({
 
   // Shared settings for all the projects below
   use: {
-    // Base URL for UI tests (from testConfig)
-    baseURL: testConfig.ui.baseUrl,
-
     // Collect trace when retrying the failed test
     trace: 'on-first-retry',
 
@@ -73,28 +73,38 @@ export default defineConfig({
     navigationTimeout: 30 * 1000,
   },
 
-  // Configure projects for major browsers
+  // API specs need no browser; UI specs run in each browser project. TEST_PROJECTS (api, ui)
+  // selects which run, and only their required settings are validated (see src/config/test-config.ts)
   projects: [
     {
-      name: 'chromium',
+      name: 'api',
+      testDir: './tests/api'
+    },
+    {
+      name: 'ui',
+      testDir: './tests/ui',
       use: {
         ...devices['Desktop Chrome'],
         // Channel can be 'chrome', 'chrome-beta', 'msedge', etc.
-        channel: 'chrome'
+        channel: 'chrome',
+        // Base URL for UI tests (from testConfig)
+        baseURL: testConfig.ui.baseUrl
       },
     },
 
     // Uncomment the following projects to test on other browsers
     // {
     //   name: 'firefox',
-    //   use: { ...devices['Desktop Firefox'] },
+    //   testDir: './tests/ui',
+    //   use: { ...devices['Desktop Firefox'], baseURL: testConfig.ui.baseUrl },
     // },
 
     // {
     //   name: 'webkit',
-    //   use: { ...devices['Desktop Safari'] },
+    //   testDir: './tests/ui',
+    //   use: { ...devices['Desktop Safari'], baseURL: testConfig.ui.baseUrl },
     // },
-  ],
+  ].filter(project => testConfig.projects.includes(project.name === 'api' ? 'api' : 'ui')),
 
   // Output folder for test artifacts
   outputDir: 'test-results/artifacts',
@@ -0,0 +1,193 @@
+/**
+ * API Authentication Strategies
+ *
+ * Strategies that BaseAPI uses to attach credentials to every request.
+ * Supported: no auth, HTTP basic, static bearer token and OAuth2 client credentials.
+ * Pick one per environment through `testConfig.api.auth` and `createAuthStrategy()`.
+ */
+
+import { APIRequestContext } from '@playwright/test';
+import type { AuthConfig } from '../config/test-config';
+import { logger } from '../utils/logger';
+
+/**
+ * Contract for an authentication strategy plugged into BaseAPI
+ */
+export interface AuthStrategy {
+  /** Strategy name used in log messages */
+  readonly name: string;
+
+  /**
+   * Build the headers that authenticate a request
+   * @param request - Playwright APIRequestContext (used to fetch tokens if needed)
+   */
+  getHeaders(request: APIRequestContext): Promise<Record<string, string>>;
+
+  /**
+   * Drop cached credentials after a 401 so the next getHeaders() call fetches fresh ones.
+   * Strategies without refreshable credentials leave this undefined and 401s are returned as-is.
+   */
+  invalidate?(): void;
+}
+
+/**
+ * Error thrown when credentials cannot be obtained
+ */
+export class AuthError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Sends no credentials
+ */
+export class NoAuth implements AuthStrategy {
+  readonly name = 'none';
+
+  async getHeaders(): Promise<Record<string, string>> {
+    return {};
+  }
+}
+
+/**
+ * HTTP basic authentication
+ */
+export class BasicAuth implements AuthStrategy {
+  readonly name = 'basic';
+  private readonly header: string;
+
+  constructor(username: string, password: string) {
+    this.header = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    return { Authorization: this.header };
+  }
+}
+
+/**
+ * Static bearer token (e.g. a long-lived service token)
+ */
+export class BearerTokenAuth implements AuthStrategy {
+  readonly name = 'bearer';
+
+  constructor(private readonly token: string) { }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    return { Authorization: `Bearer ${this.token}` };
+  }
+}
+
+/**
+ * Options for OAuth2ClientCredentialsAuth
+ */
+export interface OAuth2Options {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  /** Seconds before expiry at which a cached token is considered stale (default 30) */
+  expiryMarginSeconds?: number;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+/**
+ * OAuth2 client-credentials grant.
+ * Tokens are cached per token URL, client and scope for the lifetime of the worker,
+ * so every API client in a worker shares one token until it expires or a 401 invalidates it.
+ */
+export class OAuth2ClientCredentialsAuth implements AuthStrategy {
+  readonly name = 'oauth2';
+  private static readonly cache = new Map<string, Promise<CachedToken>>();
+  private readonly cacheKey: string;
+
+  constructor(private readonly options: OAuth2Options) {
+    this.cacheKey = `${options.tokenUrl}|${options.clientId}|${options.scope ?? ''}`;
+  }
+
+  async getHeaders(request: APIRequestContext): Promise<Record<string, string>> {
+    const token = await this.getToken(request);
+    return { Authorization: `Bearer ${token.accessToken}` };
+  }
+
+  invalidate(): void {
+    OAuth2ClientCredentialsAuth.cache.delete(this.cacheKey);
+  }
+
+  /**
+   * Clear every cached token (all clients and token URLs)
+   */
+  static clearCache(): void {
+    OAuth2ClientCredentialsAuth.cache.clear();
+  }
+
+  private async getToken(request: APIRequestContext): Promise<CachedToken> {
+    const cache = OAuth2ClientCredentialsAuth.cache;
+    const cached = cache.get(this.cacheKey);
+    if (cached) {
+      const token = await cached;
+      const marginMs = (this.options.expiryMarginSeconds ?? 30) * 1000;
+      if (token.expiresAt - marginMs > Date.now()) {
+        return token;
+      }
+      // Only drop the entry if nobody replaced it while we were waiting
+      if (cache.get(this.cacheKey) === cached) cache.delete(this.cacheKey);
+    }
+
+    // Store the pending fetch so concurrent callers share one token request
+    const pending = this.fetchToken(request);
+    cache.set(this.cacheKey, pending);
+    try {
+      return await pending;
+    } catch (e) {
+      cache.delete(this.cacheKey);
+      throw e;
+    }
+  }
+
+  private async fetchToken(request: APIRequestContext): Promise<CachedToken> {
+    logger.step(`Requesting OAuth2 token from: ${this.options.tokenUrl}`);
+    const form: Record<string, string> = {
+      grant_type: 'client_credentials',
+      client_id: this.options.clientId,
+      client_secret: this.options.clientSecret
+    };
+    if (this.options.scope) form.scope = this.options.scope;
+
+    const response = await request.post(this.options.tokenUrl, { form });
+    if (!response.ok()) {
+      throw new AuthError(`OAuth2 token request failed with status ${response.status()}: ${await response.text()}`, response.status());
+    }
+    const body = await response.json();
+    if (typeof body.access_token !== 'string') {
+      throw new AuthError('OAuth2 token response did not contain an access_token');
+    }
+    const expiresIn = typeof body.expires_in === 'number' ? body.expires_in : 3600;
+    logger.info(`OAuth2 token acquired (expires in ${expiresIn}s)`);
+    return { accessToken: body.access_token, expiresAt: Date.now() + expiresIn * 1000 };
+  }
+}
+
+/**
+ * Build the strategy described by an AuthConfig
+ * @param config - Auth configuration (usually `testConfig.api.auth`)
+ * @returns Matching AuthStrategy
+ */
+export function createAuthStrategy(config: AuthConfig): AuthStrategy {
+  switch (config.type) {
+    case 'basic':
+      return new BasicAuth(config.username, config.password);
+    case 'bearer':
+      return new BearerTokenAuth(config.token);
+    case 'oauth2':
+      return new OAuth2ClientCredentialsAuth(config);
+    default:
+      return new NoAuth();
+  }
+}
@@ -6,8 +6,64 @@
  * All API endpoint classes should extend this base class.
  */
 
+import { randomUUID } from 'crypto';
 import { APIRequestContext, APIResponse } from '@playwright/test';
 import { logger } from '../utils/logger';
+import { AuthStrategy, NoAuth } from './auth';
+import { DEFAULT_RETRY_CONFIG, isNetworkError, isRetryable, retryDelay } from './retry-policy';
+import type { RetryConfig } from '../config/test-config';
+import type { CleanupRegistry } from '../fixtures/cleanup-registry';
+import type { ContractRecorder } from '../contract/contract-report';
+import type { Cassette } from '../cassette/cassette';
+import type { LatencyRecorder } from '../perf/latency';
+import { ObjectSchema, parse, parseArray } from '../utils/schema-validator';
+
+/**
+ * Error body returned by the payroll API for 4xx/5xx responses
+ */
+export interface ErrorBody {
+  timestamp?: string;
+  status: number;
+  error?: string;
+  message: string;
+  path?: string;
+}
+
+export const ErrorBodySchema: ObjectSchema<ErrorBody> = {
+  name: 'ErrorBody',
+  fields: {
+    timestamp: { type: 'string', optional: true },
+    status: { type: 'integer' },
+    error: { type: 'string', optional: true },
+    message: { type: 'string' },
+    path: { type: 'string', optional: true }
+  }
+};
+
+/**
+ * Error thrown by typed API methods when the response status is not successful
+ */
+export class ApiError extends Error {
+  constructor(public readonly status: number, public readonly url: string, public readonly body: unknown) {
+    super(`Request to ${url} failed with status ${status}: ${JSON.stringify(body)}`);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Header carrying the ID that ties a request to its log entries and to the backend's logs
+ */
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+/**
+ * HTTP methods supported by BaseAPI
+ */
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/**
+ * Sort direction for list endpoints
+ */
+export type SortDirection = 'asc' | 'desc';
 
 /**
  * BaseAPI class containing common API operations
@@ -15,17 +71,67 @@ import { logger } from '../utils/logger';
 export class BaseAPI {
   protected request: APIRequestContext;
   protected baseUrl: string;
+  protected auth: AuthStrategy;
+  protected retryPolicy: RetryConfig;
+  protected cleanupRegistry?: CleanupRegistry;
+  protected contract?: ContractRecorder;
+  protected cassette?: Cassette;
+  protected latency?: LatencyRecorder;
   
   /**
    * Constructor for BaseAPI
    * @param request - Playwright APIRequestContext
    * @param baseUrl - Base URL for API endpoints
+   * @param auth - Authentication strategy (defaults to no credentials)
+   * @param retryPolicy - Retry policy for transient failures (defaults to DEFAULT_RETRY_CONFIG)
    */
-  constructor(request: APIRequestContext, baseUrl: string) {
+  constructor(request: APIRequestContext, baseUrl: string, auth: AuthStrategy = new NoAuth(), retryPolicy: RetryConfig = DEFAULT_RETRY_CONFIG) {
     this.request = request;
     this.baseUrl = baseUrl;
+    this.auth = auth;
+    this.retryPolicy = retryPolicy;
+  }
+  
+  /**
+   * Track entities created through this client so they are deleted after the test
+   * @param registry - Cleanup registry (usually the `cleanupRegistry` fixture)
+   * @returns This client, for chaining
+   */
+  useCleanupRegistry(registry: CleanupRegistry): this {
+    this.cleanupRegistry = registry;
+    return this;
+  }
+
+  /**
+   * Check every request and response of this client against an OpenAPI contract
+   * @param recorder - Recorder holding the contract (usually the `contractRecorder` fixture); undefined disables checking
+   * @returns This client, for chaining
+   */
+  useContract(recorder: ContractRecorder | undefined): this {
+    this.contract = recorder;
+    return this;
   }
   
+  /**
+   * Record every exchange of this client on a cassette, or answer requests from it without a backend
+   * @param cassette - Cassette in record or replay mode (usually the `cassette` fixture); undefined sends requests as usual
+   * @returns This client, for chaining
+   */
+  useCassette(cassette: Cassette | undefined): this {
+    this.cassette = cassette;
+    return this;
+  }
+
+  /**
+   * Time every HTTP attempt of this client, per endpoint template
+   * @param recorder - Latency recorder (usually the `latency` fixture); undefined disables timing
+   * @returns This client, for chaining
+   */
+  useLatencyRecorder(recorder: LatencyRecorder | undefined): this {
+    this.latency = recorder;
+    return this;
+  }
+
   /**
    * Make a GET request
    * @param endpoint - API endpoint path
@@ -33,13 +139,7 @@ export class BaseAPI {
    * @returns API Response
    */
   async get(endpoint: string, options: any = {}): Promise<APIResponse> {
-    const url = `${this.baseUrl}${endpoint}`;
-    logger.step(`GET Request to: ${url}`);
-    
-    const response = await this.request.get(url, options);
-    
-    logger.info(`Response Status: ${response.status()}`);
-    return response;
+    return await this.send('get', `${this.baseUrl}${endpoint}`, options);
   }
   
   /**
@@ -50,17 +150,10 @@ export class BaseAPI {
    * @returns API Response
    */
   async post(endpoint: string, data: any = {}, options: any = {}): Promise<APIResponse> {
-    const url = `${this.baseUrl}${endpoint}`;
-    logger.step(`POST Request to: ${url}`);
-    logger.debug(`Request Body: ${JSON.stringify(data)}`);
-    
-    const response = await this.request.post(url, {
+    return await this.send('post', `${this.baseUrl}${endpoint}`, {
       data: data,
       ...options
     });
-    
-    logger.info(`Response Status: ${response.status()}`);
-    return response;
   }
   
   /**
@@ -71,17 +164,10 @@ export class BaseAPI {
    * @returns API Response
    */
   async put(endpoint: string, data: any = {}, options: any = {}): Promise<APIResponse> {
-    const url = `${this.baseUrl}${endpoint}`;
-    logger.step(`PUT Request to: ${url}`);
-    logger.debug(`Request Body: ${JSON.stringify(data)}`);
-    
-    const response = await this.request.put(url, {
+    return await this.send('put', `${this.baseUrl}${endpoint}`, {
       data: data,
       ...options
     });
-    
-    logger.info(`Response Status: ${response.status()}`);
-    return response;
   }
   
   /**
@@ -92,17 +178,10 @@ export class BaseAPI {
    * @returns API Response
    */
   async patch(endpoint: string, data: any = {}, options: any = {}): Promise<APIResponse> {
-    const url = `${this.baseUrl}${endpoint}`;
-    logger.step(`PATCH Request to: ${url}`);
-    logger.debug(`Request Body: ${JSON.stringify(data)}`);
-    
-    const response = await this.request.patch(url, {
+    return await this.send('patch', `${this.baseUrl}${endpoint}`, {
       data: data,
       ...options
     });
-    
-    logger.info(`Response Status: ${response.status()}`);
-    return response;
   }
   
   /**
@@ -112,15 +191,168 @@ export class BaseAPI {
    * @returns API Response
    */
   async delete(endpoint: string, options: any = {}): Promise<APIResponse> {
-    const url = `${this.baseUrl}${endpoint}`;
-    logger.step(`DELETE Request to: ${url}`);
-    
-    const response = await this.request.delete(url, options);
-    
-    logger.info(`Response Status: ${response.status()}`);
-    return response;
+    return await this.send('delete', `${this.baseUrl}${endpoint}`, options);
   }
   
+  /**
+   * Build a query string, skipping undefined and empty values
+   * @param params - Query parameters
+   * @returns Query string including the leading `?`, or '' when there are no parameters
+   */
+  protected buildQuery(params: Record<string, string | number | undefined>): string {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== '') search.append(key, String(value));
+    }
+    const query = search.toString();
+    return query ? `?${query}` : '';
+  }
+
+  /**
+   * Build request options carrying the policy's idempotency key header
+   * @param idempotencyKey - Key identifying the logical operation; omitted when undefined
+   * @returns Request options (empty when no key is given)
+   */
+  protected idempotencyOptions(idempotencyKey?: string): any {
+    return idempotencyKey ? { headers: { [this.retryPolicy.idempotencyKeyHeader]: idempotencyKey } } : {};
+  }
+
+  /**
+   * Send a request, retrying transient failures according to the retry policy.
+   * Pass `retry` in `options` to override parts of the policy for a single call,
+   * e.g. `{ retry: { maxAttempts: 1 } }` to disable retries.
+   * Every call gets a correlation ID, sent as X-Correlation-Id (unless the caller sets one)
+   * and attached to everything logged while the call is in flight; retries reuse it.
+   * @param method - HTTP method
+   * @param url - Absolute request URL
+   * @param options - Playwright request options, plus an optional `retry` override
+   * @returns API Response
+   */
+  protected async send(method: HttpMethod, url: string, options: any = {}): Promise<APIResponse> {
+    const { retry, ...requestOptions } = options;
+    let correlationId = findHeader(requestOptions.headers, CORRELATION_ID_HEADER);
+    if (correlationId === undefined) {
+      correlationId = randomUUID();
+      requestOptions.headers = { ...requestOptions.headers, [CORRELATION_ID_HEADER]: correlationId };
+    }
+
+    return await logger.withContext({ correlationId }, async () => {
+      logger.step(`${method.toUpperCase()} Request to: ${url}`);
+      if (requestOptions.data !== undefined) {
+        logger.debug(`Request Body: ${JSON.stringify(requestOptions.data)}`);
+      }
+
+      const startedAt = performance.now();
+      const response = await this.sendWithRetry(method, url, requestOptions, { ...this.retryPolicy, ...retry });
+      const elapsedMs = Math.round(performance.now() - startedAt);
+      if (this.contract) {
+        await this.checkContract(method, url, requestOptions, response);
+      }
+
+      logger.info(`Response Status: ${response.status()} (${elapsedMs}ms)`);
+      return response;
+    });
+  }
+
+  /**
+   * Retry loop behind send(); returns the final response
+   */
+  private async sendWithRetry(method: HttpMethod, url: string, requestOptions: any, policy: RetryConfig): Promise<APIResponse> {
+    const retryable = isRetryable(method, requestOptions.headers, policy);
+    const label = `${method.toUpperCase()} ${url}`;
+
+    for (let attempt = 1; ; attempt++) {
+      const canRetry = retryable && attempt < policy.maxAttempts;
+      let response: APIResponse;
+      try {
+        response = await this.sendAuthenticated(method, url, requestOptions);
+      } catch (e) {
+        if (!canRetry || !policy.retryOnNetworkErrors || !isNetworkError(e)) throw e;
+        const delay = retryDelay(policy, attempt);
+        logger.warn(`${label} failed (${(e as Error).message.split('\n')[0]}); retrying in ${delay}ms (attempt ${attempt + 1}/${policy.maxAttempts})`);
+        await sleep(delay);
+        continue;
+      }
+
+      if (!canRetry || !policy.retryOnStatuses.includes(response.status())) {
+        return response;
+      }
+      const delay = retryDelay(policy, attempt, response.headers()['retry-after']);
+      logger.warn(`${label} returned ${response.status()}; retrying in ${delay}ms (attempt ${attempt + 1}/${policy.maxAttempts})`);
+      await response.dispose();
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Check the final exchange of a call against the contract.
+   * Only the final response is checked; retried attempts are transient by definition.
+   */
+  private async checkContract(method: HttpMethod, url: string, requestOptions: any, response: APIResponse): Promise<void> {
+    let responseBody: unknown;
+    if ((response.headers()['content-type'] ?? '').includes('json')) {
+      try {
+        responseBody = await response.json();
+      } catch {
+        responseBody = undefined;
+      }
+    }
+    this.contract!.check({
+      method,
+      url,
+      requestBody: bodyAsSent(requestOptions.data),
+      status: response.status(),
+      responseHeaders: response.headers(),
+      responseBody
+    });
+  }
+
+  /**
+   * Send a request with the auth strategy's headers attached.
+   * Headers passed in `options` take precedence (whatever their case), so a test can still send its own Authorization.
+   * On a 401 the strategy's cached credentials are invalidated and the request is sent once more.
+   */
+  private async sendAuthenticated(method: HttpMethod, url: string, options: any): Promise<APIResponse> {
+    const response = await this.dispatch(method, url, options);
+    if (response.status() === 401 && this.auth.invalidate && findHeader(options.headers, 'Authorization') === undefined) {
+      logger.warn(`Received 401 using '${this.auth.name}' auth; refreshing credentials and retrying`);
+      this.auth.invalidate();
+      await response.dispose();
+      return await this.dispatch(method, url, options);
+    }
+    return response;
+  }
+
+  /**
+   * Send one HTTP request. With a cassette, every attempt is recorded, or replayed without
+   * touching the network (and without fetching credentials). Sent requests are timed;
+   * replayed ones are not, their timing would mean nothing.
+   */
+  private async dispatch(method: HttpMethod, url: string, options: any): Promise<APIResponse> {
+    if (this.cassette?.mode === 'replay') {
+      return this.cassette.replay(method, url, options);
+    }
+    const authHeaders = await this.auth.getHeaders(this.request);
+    const startedAt = performance.now();
+    const response = await this.request[method](url, {
+      ...options,
+      headers: mergeHeaders(authHeaders, options.headers)
+    });
+    this.latency?.record(method, this.endpointPath(url), response.status(), performance.now() - startedAt);
+    if (this.cassette?.mode === 'record') {
+      await this.cassette.record(method, url, options, response);
+    }
+    return response;
+  }
+
+  /**
+   * Path of a request URL below the base URL, without query string
+   */
+  private endpointPath(url: string): string {
+    const path = url.startsWith(this.baseUrl) ? url.slice(this.baseUrl.length) : new URL(url).pathname;
+    return path.split('?')[0] || '/';
+  }
+
   /**
    * Parse JSON response body
    * @param response - API Response
@@ -131,5 +363,67 @@ export class BaseAPI {
     logger.debug(`Response Body: ${JSON.stringify(body)}`);
     return body;
   }
+
+  /**
+   * Parse a successful response body and validate it against a schema
+   * @param response - API Response
+   * @param schema - Schema the body must match
+   * @returns Validated body
+   * @throws ApiError for non-2xx responses, SchemaValidationError when the body does not match
+   */
+  protected async parseAs<T>(response: APIResponse, schema: ObjectSchema<T>): Promise<T> {
+    return parse(schema, await this.getSuccessBody(response));
+  }
+
+  /**
+   * Parse a successful response body as an array and validate each element against a schema
+   * @param response - API Response
+   * @param schema - Schema each element must match
+   * @returns Validated array
+   * @throws ApiError for non-2xx responses, SchemaValidationError when any element does not match
+   */
+  protected async parseArrayAs<T>(response: APIResponse, schema: ObjectSchema<T>): Promise<T[]> {
+    return parseArray(schema, await this.getSuccessBody(response));
+  }
+
+  /**
+   * Read the body of a response, throwing ApiError when the status is not 2xx
+   */
+  private async getSuccessBody(response: APIResponse): Promise<unknown> {
+    if (!response.ok()) {
+      let body: unknown;
+      try {
+        body = await response.json();
+      } catch {
+        body = await response.text();
+      }
+      throw new ApiError(response.status(), response.url(), body);
+    }
+    return await this.getResponseBody(response);
+  }
 }
 
+function findHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const key = Object.keys(headers ?? {}).find(k => k.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : headers![key];
+}
+
+/**
+ * A JSON request body as it goes over the wire: keys holding undefined are dropped and
+ * NaN or Infinity become null. Strings and buffers are sent as they are.
+ */
+function bodyAsSent(data: unknown): unknown {
+  if (typeof data !== 'object' || data === null || Buffer.isBuffer(data)) return data;
+  return JSON.parse(JSON.stringify(data));
+}
+
+/** Headers of `base` overridden by `overrides`, comparing names case-insensitively */
+function mergeHeaders(base: Record<string, string>, overrides: Record<string, string> | undefined): Record<string, string> {
+  const names = new Set(Object.keys(overrides ?? {}).map(name => name.toLowerCase()));
+  const kept = Object.entries(base).filter(([name]) => !names.has(name.toLowerCase()));
+  return { ...Object.fromEntries(kept), ...overrides };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -1,53 +1,168 @@
-import { BaseAPI } from './base-api';
-
-export interface Employee {
-    employeeId: string;
-    firstName: string;
-    lastName: string;
-    department: string;
-    designation: string;
-    email: string;
-    payGroupId: number;
-    status: string;
-    joiningDate: string;
-    createdAt: string;
-    updatedAt: string;
-}
+import { SortDirection } from './base-api';
+import { AuthStrategy } from './auth';
+import type { RetryConfig } from '../config/test-config';
+import { GeneratedEmployeeApi } from './generated/employee-api';
+import { CreateEmployeeRequest, Employee, EmployeeSchema, EmployeeStatus } from './generated/models';
+import type { LifecycleAction } from '../data/employee-lifecycle';
+
+// Models are generated from openapi/tw-payroll-system.json (npm run generate:api)
+export { EmployeeSchema, EmployeeStatusValues } from './generated/models';
+export type { CreateEmployeeRequest, Employee, EmployeeStatus, UpdateEmployeeRequest } from './generated/models';
 
-export interface CreateEmployeeRequest {
-    employeeId: string;
-    firstName: string;
-    lastName: string;
-    department: string;
-    designation: string;
-    email: string;
-    payGroupId: number;
-    joiningDate: string;
+/**
+ * Filters, sorting and paging for listing employees
+ */
+export interface EmployeeQuery {
+    /** Case-insensitive department match */
+    department?: string;
+    /** Sent as given, so tests can probe invalid values */
+    status?: string;
+    payGroupId?: number;
+    /** Earliest joining date (YYYY-MM-DD), inclusive */
+    joiningDateFrom?: string;
+    /** Latest joining date (YYYY-MM-DD), inclusive */
+    joiningDateTo?: string;
+    sortBy?: keyof Employee;
+    direction?: SortDirection;
+    /** Zero-based page number */
+    page?: number;
+    size?: number;
 }
 
-export class EmployeeApi extends BaseAPI {
-    constructor(request: any, baseUrl: string) {
-        super(request, baseUrl);
+export class EmployeeApi extends GeneratedEmployeeApi {
+    constructor(request: any, baseUrl: string, auth?: AuthStrategy, retryPolicy?: RetryConfig) {
+        super(request, baseUrl, auth, retryPolicy);
+    }
+
+    /**
+     * List employees. Without a query the backend decides how many come back; use
+     * iterateEmployees() to read all of them.
+     */
+    async getAllEmployees(query: EmployeeQuery = {}) {
+        const { sortBy, direction, ...filters } = query;
+        return await this.listEmployees({
+            ...filters,
+            status: filters.status as EmployeeStatus | undefined,
+            sort: sortBy ? `${sortBy},${direction ?? 'asc'}` : undefined
+        });
+    }
+
+    async getAllEmployeesTyped(query: EmployeeQuery = {}): Promise<Employee[]> {
+        return await this.parseArrayAs(await this.getAllEmployees(query), EmployeeSchema);
     }
 
-    async createEmployee(employeeData: CreateEmployeeRequest) {
-        return await this.post('/employee', employeeData);
+    /**
+     * Walk every employee matching the query, one page at a time. Stops after a short page or
+     * once X-Total-Count employees have been read. Sorts by employeeId unless told otherwise,
+     * so consecutive pages neither overlap nor skip employees.
+     * @param query - Filters and sorting; paging is done here
+     * @param pageSize - Employees per request
+     * @throws Error when the backend ignores paging: a page is larger than pageSize or starts
+     * with the same employee as the page before (it would otherwise be read forever)
+     */
+    async *iterateEmployees(query: Omit<EmployeeQuery, 'page' | 'size'> = {}, pageSize = 100): AsyncGenerator<Employee> {
+        const sorted: EmployeeQuery = { sortBy: 'employeeId', ...query };
+        let read = 0;
+        let previousFirstId: string | undefined;
+        for (let page = 0; ; page++) {
+            const response = await this.getAllEmployees({ ...sorted, page, size: pageSize });
+            const employees = await this.parseArrayAs(response, EmployeeSchema);
+            if (employees.length > pageSize) {
+                throw new Error(`Employee list ignores paging: page ${page} has ${employees.length} employees, more than the requested ${pageSize}`);
+            }
+            if (employees.length > 0 && employees[0].employeeId === previousFirstId) {
+                throw new Error(`Employee list ignores paging: page ${page} starts with ${previousFirstId} again, like page ${page - 1}`);
+            }
+            previousFirstId = employees[0]?.employeeId;
+            yield* employees;
+            read += employees.length;
+            const total = response.headers()['x-total-count'];
+            if (employees.length < pageSize || (total !== undefined && read >= Number(total))) return;
+        }
     }
 
-    async getEmployee(employeeId: string) {
-        return await this.get(`/employee/${employeeId}`);
+    /**
+     * Read every employee matching the query from all pages
+     */
+    async collectEmployees(query: Omit<EmployeeQuery, 'page' | 'size'> = {}): Promise<Employee[]> {
+        const employees: Employee[] = [];
+        for await (const employee of this.iterateEmployees(query)) {
+            employees.push(employee);
+        }
+        return employees;
     }
 
-    async getAllEmployees() {
-        return await this.get('/employee');
+    /**
+     * Create an employee. Supplying an idempotency key makes the POST safe to retry.
+     */
+    async createEmployee(employeeData: CreateEmployeeRequest, idempotencyKey?: string) {
+        const response = await super.createEmployee(employeeData, idempotencyKey);
+        if (response.ok() && this.cleanupRegistry) {
+            const employeeId = employeeData.employeeId;
+            this.cleanupRegistry.track({ kind: 'employee', id: employeeId, remove: () => this.deleteEmployee(employeeId) });
+        }
+        return response;
     }
 
     async updateEmployee(employeeId: string, employeeData: Partial<CreateEmployeeRequest>) {
-        return await this.put(`/employee/${employeeId}`, employeeData);
+        return await super.updateEmployee(employeeId, employeeData);
     }
 
     async deleteEmployee(employeeId: string) {
-        return await this.delete(`/employee/${employeeId}`);
+        const response = await super.deleteEmployee(employeeId);
+        if (response.ok()) {
+            this.cleanupRegistry?.untrack('employee', employeeId);
+        }
+        return response;
+    }
+
+    /**
+     * Put an ACTIVE employee on leave (-> ON_LEAVE)
+     */
+    async leave(employeeId: string) {
+        return await this.startEmployeeLeave(employeeId);
+    }
+
+    /**
+     * Return an employee from leave (ON_LEAVE -> ACTIVE)
+     */
+    async reactivate(employeeId: string) {
+        return await this.reactivateEmployee(employeeId);
     }
-}
 
+    /**
+     * Terminate an ACTIVE or ON_LEAVE employee (-> TERMINATED, which is final)
+     */
+    async terminate(employeeId: string) {
+        return await this.terminateEmployee(employeeId);
+    }
+
+    /**
+     * Set the status with a PUT; a change must follow the same transitions as the actions
+     */
+    async updateStatus(employeeId: string, status: EmployeeStatus) {
+        return await super.updateEmployee(employeeId, { status });
+    }
+
+    /**
+     * Apply a lifecycle action by name (see src/data/employee-lifecycle.ts); forbidden actions get 409
+     */
+    async transition(employeeId: string, action: LifecycleAction) {
+        switch (action) {
+            case 'leave':
+                return await this.leave(employeeId);
+            case 'reactivate':
+                return await this.reactivate(employeeId);
+            case 'terminate':
+                return await this.terminate(employeeId);
+        }
+    }
+
+    async transitionTyped(employeeId: string, action: LifecycleAction): Promise<Employee> {
+        return await this.parseAs(await this.transition(employeeId, action), EmployeeSchema);
+    }
+
+    async updateEmployeeTyped(employeeId: string, employeeData: Partial<CreateEmployeeRequest>): Promise<Employee> {
+        return await this.parseAs(await this.updateEmployee(employeeId, employeeData), EmployeeSchema);
+    }
+}
@@ -0,0 +1,135 @@
+// GENERATED FILE - DO NOT EDIT.
+// Generated by `npm run generate:api` from openapi/tw-payroll-system.json (tw-payroll-system API 1.0.0).
+// Regeneration overwrites this file; add behaviour in a subclass instead.
+
+import { BaseAPI } from '../base-api';
+import { CreateEmployeeRequest, Employee, EmployeeSchema, EmployeeStatus, UpdateEmployeeRequest } from './models';
+
+/**
+ * Query parameters of listEmployees
+ */
+export interface ListEmployeesQuery {
+    /** Only employees of this department (case-insensitive) */
+    department?: string;
+    /** Only employees with this status */
+    status?: EmployeeStatus;
+    /** Only employees of this pay group */
+    payGroupId?: number;
+    /** Only employees who joined on or after this date */
+    joiningDateFrom?: string;
+    /** Only employees who joined on or before this date */
+    joiningDateTo?: string;
+    /** Sort as field,direction */
+    sort?: string;
+    /** Zero-based page number */
+    page?: number;
+    /** Page size */
+    size?: number;
+}
+
+/**
+ * Employees and their pay group
+ */
+export class GeneratedEmployeeApi extends BaseAPI {
+    /**
+     * List employees, optionally filtered, sorted and paged
+     * GET /employee -> 200, 400, 401
+     */
+    async listEmployees(query: ListEmployeesQuery = {}) {
+        const params = this.buildQuery({
+            department: query.department,
+            status: query.status,
+            payGroupId: query.payGroupId,
+            joiningDateFrom: query.joiningDateFrom,
+            joiningDateTo: query.joiningDateTo,
+            sort: query.sort,
+            page: query.page,
+            size: query.size
+        });
+        return await this.get(`/employee${params}`);
+    }
+
+    async listEmployeesTyped(query: ListEmployeesQuery = {}): Promise<Employee[]> {
+        return await this.parseArrayAs(await this.listEmployees(query), EmployeeSchema);
+    }
+
+    /**
+     * Create an employee
+     * POST /employee -> 201, 400, 401, 409
+     */
+    async createEmployee(body: CreateEmployeeRequest, idempotencyKey?: string) {
+        return await this.post('/employee', body, this.idempotencyOptions(idempotencyKey));
+    }
+
+    async createEmployeeTyped(body: CreateEmployeeRequest, idempotencyKey?: string): Promise<Employee> {
+        return await this.parseAs(await this.createEmployee(body, idempotencyKey), EmployeeSchema);
+    }
+
+    /**
+     * Get an employee
+     * GET /employee/{employeeId} -> 200, 401, 404
+     */
+    async getEmployee(employeeId: string) {
+        return await this.get(`/employee/${employeeId}`);
+    }
+
+    async getEmployeeTyped(employeeId: string): Promise<Employee> {
+        return await this.parseAs(await this.getEmployee(employeeId), EmployeeSchema);
+    }
+
+    /**
+     * Update an employee (fields not supplied are unchanged)
+     * PUT /employee/{employeeId} -> 200, 400, 401, 404, 409
+     */
+    async updateEmployee(employeeId: string, body: UpdateEmployeeRequest) {
+        return await this.put(`/employee/${employeeId}`, body);
+    }
+
+    async updateEmployeeTyped(employeeId: string, body: UpdateEmployeeRequest): Promise<Employee> {
+        return await this.parseAs(await this.updateEmployee(employeeId, body), EmployeeSchema);
+    }
+
+    /**
+     * Delete an employee
+     * DELETE /employee/{employeeId} -> 204, 401, 404
+     */
+    async deleteEmployee(employeeId: string) {
+        return await this.delete(`/employee/${employeeId}`);
+    }
+
+    /**
+     * Put an ACTIVE employee on leave (409 in any other status)
+     * POST /employee/{employeeId}/leave -> 200, 401, 404, 409
+     */
+    async startEmployeeLeave(employeeId: string) {
+        return await this.post(`/employee/${employeeId}/leave`, undefined);
+    }
+
+    async startEmployeeLeaveTyped(employeeId: string): Promise<Employee> {
+        return await this.parseAs(await this.startEmployeeLeave(employeeId), EmployeeSchema);
+    }
+
+    /**
+     * Return an employee from leave to ACTIVE (409 in any other status)
+     * POST /employee/{employeeId}/reactivate -> 200, 401, 404, 409
+     */
+    async reactivateEmployee(employeeId: string) {
+        return await this.post(`/employee/${employeeId}/reactivate`, undefined);
+    }
+
+    async reactivateEmployeeTyped(employeeId: string): Promise<Employee> {
+        return await this.parseAs(await this.reactivateEmployee(employeeId), EmployeeSchema);
+    }
+
+    /**
+     * Terminate an ACTIVE or ON_LEAVE employee; TERMINATED is final (409 when already terminated)
+     * POST /employee/{employeeId}/terminate -> 200, 401, 404, 409
+     */
+    async terminateEmployee(employeeId: string) {
+        return await this.post(`/employee/${employeeId}/terminate`, undefined);
+    }
+
+    async terminateEmployeeTyped(employeeId: string): Promise<Employee> {
+        return await this.parseAs(await this.terminateEmployee(employeeId), EmployeeSchema);
+    }
+}
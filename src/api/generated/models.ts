@@ -0,0 +1,329 @@
+// GENERATED FILE - DO NOT EDIT.
+// Generated by `npm run generate:api` from openapi/tw-payroll-system.json (tw-payroll-system API 1.0.0).
+// Regeneration overwrites this file; add behaviour in a subclass instead.
+
+import { ObjectSchema } from '../../utils/schema-validator';
+
+export const PaymentCycleValues = ['WEEKLY', 'BIWEEKLY', 'MONTHLY'] as const;
+
+export type PaymentCycle = typeof PaymentCycleValues[number];
+
+/**
+ * Lifecycle status. ACTIVE -> ON_LEAVE (leave) or TERMINATED (terminate); ON_LEAVE -> ACTIVE (reactivate) or TERMINATED; TERMINATED is final. A PUT that changes the status must follow these transitions (409 otherwise).
+ */
+export const EmployeeStatusValues = ['ACTIVE', 'ON_LEAVE', 'TERMINATED'] as const;
+
+export type EmployeeStatus = typeof EmployeeStatusValues[number];
+
+/**
+ * Lifecycle of a payroll run: PENDING -> PROCESSING -> COMPLETED | FAILED
+ */
+export const PayrollRunStatusValues = ['PENDING', 'PROCESSING', 'COMPLETED', 'FAILED'] as const;
+
+export type PayrollRunStatus = typeof PayrollRunStatusValues[number];
+
+/**
+ * Error body returned for 4xx/5xx responses
+ */
+export interface ErrorBody {
+    timestamp?: string;
+    status: number;
+    error?: string;
+    message: string;
+    errors?: string[];
+    path?: string;
+}
+
+export const ErrorBodySchema: ObjectSchema<ErrorBody> = {
+    name: 'ErrorBody',
+    fields: {
+        timestamp: { type: 'string', optional: true },
+        status: { type: 'integer' },
+        error: { type: 'string', optional: true },
+        message: { type: 'string' },
+        errors: { type: 'array', optional: true },
+        path: { type: 'string', optional: true }
+    }
+};
+
+export interface Employee {
+    employeeId: string;
+    firstName: string;
+    lastName: string;
+    department: string;
+    designation: string;
+    email: string;
+    payGroupId: number;
+    status: EmployeeStatus;
+    joiningDate: string;
+    /** Annual salary used by payroll runs */
+    annualSalary?: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export const EmployeeSchema: ObjectSchema<Employee> = {
+    name: 'Employee',
+    fields: {
+        employeeId: { type: 'string' },
+        firstName: { type: 'string' },
+        lastName: { type: 'string' },
+        department: { type: 'string' },
+        designation: { type: 'string' },
+        email: { type: 'string' },
+        payGroupId: { type: 'integer' },
+        status: { type: 'string', enum: EmployeeStatusValues },
+        joiningDate: { type: 'string' },
+        annualSalary: { type: 'number', optional: true },
+        createdAt: { type: 'string' },
+        updatedAt: { type: 'string' }
+    }
+};
+
+export interface CreateEmployeeRequest {
+    employeeId: string;
+    firstName: string;
+    lastName: string;
+    department: string;
+    designation: string;
+    email: string;
+    payGroupId: number;
+    joiningDate: string;
+    /** Annual salary used by payroll runs */
+    annualSalary?: number;
+}
+
+export const CreateEmployeeRequestSchema: ObjectSchema<CreateEmployeeRequest> = {
+    name: 'CreateEmployeeRequest',
+    fields: {
+        employeeId: { type: 'string' },
+        firstName: { type: 'string' },
+        lastName: { type: 'string' },
+        department: { type: 'string' },
+        designation: { type: 'string' },
+        email: { type: 'string' },
+        payGroupId: { type: 'integer' },
+        joiningDate: { type: 'string' },
+        annualSalary: { type: 'number', optional: true }
+    }
+};
+
+export interface UpdateEmployeeRequest {
+    firstName?: string;
+    lastName?: string;
+    department?: string;
+    designation?: string;
+    email?: string;
+    payGroupId?: number;
+    joiningDate?: string;
+    status?: EmployeeStatus;
+    /** Annual salary used by payroll runs */
+    annualSalary?: number;
+}
+
+export const UpdateEmployeeRequestSchema: ObjectSchema<UpdateEmployeeRequest> = {
+    name: 'UpdateEmployeeRequest',
+    fields: {
+        firstName: { type: 'string', optional: true },
+        lastName: { type: 'string', optional: true },
+        department: { type: 'string', optional: true },
+        designation: { type: 'string', optional: true },
+        email: { type: 'string', optional: true },
+        payGroupId: { type: 'integer', optional: true },
+        joiningDate: { type: 'string', optional: true },
+        status: { type: 'string', optional: true, enum: EmployeeStatusValues },
+        annualSalary: { type: 'number', optional: true }
+    }
+};
+
+export interface PayGroup {
+    payGroupId: number;
+    groupName: string;
+    paymentCycle: PaymentCycle;
+    baseTaxRate: number;
+    benefitRate: number;
+    deductionRate: number;
+    createdAt: string;
+}
+
+export const PayGroupSchema: ObjectSchema<PayGroup> = {
+    name: 'PayGroup',
+    fields: {
+        payGroupId: { type: 'integer' },
+        groupName: { type: 'string' },
+        paymentCycle: { type: 'string', enum: PaymentCycleValues },
+        baseTaxRate: { type: 'number' },
+        benefitRate: { type: 'number' },
+        deductionRate: { type: 'number' },
+        createdAt: { type: 'string' }
+    }
+};
+
+export interface CreatePayGroup {
+    groupName: string;
+    paymentCycle: PaymentCycle;
+    /** Percentage */
+    baseTaxRate: number;
+    /** Percentage */
+    benefitRate: number;
+    /** Percentage */
+    deductionRate: number;
+}
+
+export const CreatePayGroupSchema: ObjectSchema<CreatePayGroup> = {
+    name: 'CreatePayGroup',
+    fields: {
+        groupName: { type: 'string' },
+        paymentCycle: { type: 'string', enum: PaymentCycleValues },
+        baseTaxRate: { type: 'number' },
+        benefitRate: { type: 'number' },
+        deductionRate: { type: 'number' }
+    }
+};
+
+export interface UpdatePayGroup {
+    groupName?: string;
+    paymentCycle?: PaymentCycle;
+    /** Percentage */
+    baseTaxRate?: number;
+    /** Percentage */
+    benefitRate?: number;
+    /** Percentage */
+    deductionRate?: number;
+}
+
+export const UpdatePayGroupSchema: ObjectSchema<UpdatePayGroup> = {
+    name: 'UpdatePayGroup',
+    fields: {
+        groupName: { type: 'string', optional: true },
+        paymentCycle: { type: 'string', optional: true, enum: PaymentCycleValues },
+        baseTaxRate: { type: 'number', optional: true },
+        benefitRate: { type: 'number', optional: true },
+        deductionRate: { type: 'number', optional: true }
+    }
+};
+
+export interface StartPayrollRunRequest {
+    payGroupId: number;
+    /** First day of the pay period (YYYY-MM-DD) */
+    periodStart: string;
+    /** Last day of the pay period (YYYY-MM-DD), inclusive */
+    periodEnd: string;
+}
+
+export const StartPayrollRunRequestSchema: ObjectSchema<StartPayrollRunRequest> = {
+    name: 'StartPayrollRunRequest',
+    fields: {
+        payGroupId: { type: 'integer' },
+        periodStart: { type: 'string' },
+        periodEnd: { type: 'string' }
+    }
+};
+
+export interface PayrollRun {
+    runId: number;
+    payGroupId: number;
+    periodStart: string;
+    periodEnd: string;
+    status: PayrollRunStatus;
+    /** Number of payslips produced; 0 until the run completes */
+    employeeCount: number;
+    createdAt: string;
+    completedAt: string | null;
+}
+
+export const PayrollRunSchema: ObjectSchema<PayrollRun> = {
+    name: 'PayrollRun',
+    fields: {
+        runId: { type: 'integer' },
+        payGroupId: { type: 'integer' },
+        periodStart: { type: 'string' },
+        periodEnd: { type: 'string' },
+        status: { type: 'string', enum: PayrollRunStatusValues },
+        employeeCount: { type: 'integer' },
+        createdAt: { type: 'string' },
+        completedAt: { type: 'string', nullable: true }
+    }
+};
+
+/**
+ * One employee's pay for one payroll run. Amounts are per period, rounded to the cent.
+ */
+export interface Payslip {
+    payslipId: number;
+    runId: number;
+    employeeId: string;
+    payGroupId: number;
+    periodStart: string;
+    periodEnd: string;
+    /** Annual salary the payslip was calculated from */
+    annualSalary: number;
+    gross: number;
+    tax: number;
+    benefits: number;
+    deductions: number;
+    net: number;
+    createdAt: string;
+}
+
+export const PayslipSchema: ObjectSchema<Payslip> = {
+    name: 'Payslip',
+    fields: {
+        payslipId: { type: 'integer' },
+        runId: { type: 'integer' },
+        employeeId: { type: 'string' },
+        payGroupId: { type: 'integer' },
+        periodStart: { type: 'string' },
+        periodEnd: { type: 'string' },
+        annualSalary: { type: 'number' },
+        gross: { type: 'number' },
+        tax: { type: 'number' },
+        benefits: { type: 'number' },
+        deductions: { type: 'number' },
+        net: { type: 'number' },
+        createdAt: { type: 'string' }
+    }
+};
+
+export interface TokenRequest {
+    grant_type: 'client_credentials';
+    client_id?: string;
+    client_secret?: string;
+    scope?: string;
+}
+
+export const TokenRequestSchema: ObjectSchema<TokenRequest> = {
+    name: 'TokenRequest',
+    fields: {
+        grant_type: { type: 'string', enum: ['client_credentials'] },
+        client_id: { type: 'string', optional: true },
+        client_secret: { type: 'string', optional: true },
+        scope: { type: 'string', optional: true }
+    }
+};
+
+export interface TokenResponse {
+    access_token: string;
+    token_type: string;
+    expires_in: number;
+}
+
+export const TokenResponseSchema: ObjectSchema<TokenResponse> = {
+    name: 'TokenResponse',
+    fields: {
+        access_token: { type: 'string' },
+        token_type: { type: 'string' },
+        expires_in: { type: 'integer' }
+    }
+};
+
+export interface OAuthError {
+    error: string;
+}
+
+export const OAuthErrorSchema: ObjectSchema<OAuthError> = {
+    name: 'OAuthError',
+    fields: {
+        error: { type: 'string' }
+    }
+};
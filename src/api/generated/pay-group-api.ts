@@ -0,0 +1,102 @@
+// GENERATED FILE - DO NOT EDIT.
+// Generated by `npm run generate:api` from openapi/tw-payroll-system.json (tw-payroll-system API 1.0.0).
+// Regeneration overwrites this file; add behaviour in a subclass instead.
+
+import { BaseAPI } from '../base-api';
+import { CreatePayGroup, PayGroup, PayGroupSchema, PaymentCycle, UpdatePayGroup } from './models';
+
+/**
+ * Query parameters of listPayGroups
+ */
+export interface ListPayGroupsQuery {
+    /** Only pay groups with this payment cycle */
+    paymentCycle?: PaymentCycle;
+    /** Case-insensitive substring match on groupName */
+    groupName?: string;
+    /** Sort as field,direction */
+    sort?: string;
+    /** Zero-based page number */
+    page?: number;
+    /** Page size */
+    size?: number;
+}
+
+/**
+ * Pay groups: payment cycle and rates
+ */
+export class GeneratedPayGroupApi extends BaseAPI {
+    /**
+     * List pay groups, optionally filtered, sorted and paged
+     * GET /pay-groups -> 200, 400, 401
+     */
+    async listPayGroups(query: ListPayGroupsQuery = {}) {
+        const params = this.buildQuery({
+            paymentCycle: query.paymentCycle,
+            groupName: query.groupName,
+            sort: query.sort,
+            page: query.page,
+            size: query.size
+        });
+        return await this.get(`/pay-groups${params}`);
+    }
+
+    async listPayGroupsTyped(query: ListPayGroupsQuery = {}): Promise<PayGroup[]> {
+        return await this.parseArrayAs(await this.listPayGroups(query), PayGroupSchema);
+    }
+
+    /**
+     * Create a pay group
+     * POST /pay-groups -> 201, 400, 401, 409
+     */
+    async createPayGroup(body: CreatePayGroup, idempotencyKey?: string) {
+        return await this.post('/pay-groups', body, this.idempotencyOptions(idempotencyKey));
+    }
+
+    async createPayGroupTyped(body: CreatePayGroup, idempotencyKey?: string): Promise<PayGroup> {
+        return await this.parseAs(await this.createPayGroup(body, idempotencyKey), PayGroupSchema);
+    }
+
+    /**
+     * Get a pay group
+     * GET /pay-groups/{id} -> 200, 401, 404
+     */
+    async getPayGroup(id: number) {
+        return await this.get(`/pay-groups/${id}`);
+    }
+
+    async getPayGroupTyped(id: number): Promise<PayGroup> {
+        return await this.parseAs(await this.getPayGroup(id), PayGroupSchema);
+    }
+
+    /**
+     * Update a pay group (fields not supplied are unchanged)
+     * PUT /pay-groups/{id} -> 200, 400, 401, 404, 409
+     */
+    async updatePayGroup(id: number, body: UpdatePayGroup) {
+        return await this.put(`/pay-groups/${id}`, body);
+    }
+
+    async updatePayGroupTyped(id: number, body: UpdatePayGroup): Promise<PayGroup> {
+        return await this.parseAs(await this.updatePayGroup(id, body), PayGroupSchema);
+    }
+
+    /**
+     * Partially update a pay group
+     * PATCH /pay-groups/{id} -> 200, 400, 401, 404, 409
+     */
+    async patchPayGroup(id: number, body: UpdatePayGroup) {
+        return await this.patch(`/pay-groups/${id}`, body);
+    }
+
+    async patchPayGroupTyped(id: number, body: UpdatePayGroup): Promise<PayGroup> {
+        return await this.parseAs(await this.patchPayGroup(id, body), PayGroupSchema);
+    }
+
+    /**
+     * Delete a pay group without employees
+     * DELETE /pay-groups/{id} -> 204, 401, 404, 409
+     */
+    async deletePayGroup(id: number) {
+        return await this.delete(`/pay-groups/${id}`);
+    }
+}
@@ -0,0 +1,35 @@
+// GENERATED FILE - DO NOT EDIT.
+// Generated by `npm run generate:api` from openapi/tw-payroll-system.json (tw-payroll-system API 1.0.0).
+// Regeneration overwrites this file; add behaviour in a subclass instead.
+
+import { BaseAPI } from '../base-api';
+import { PayrollRun, PayrollRunSchema, StartPayrollRunRequest } from './models';
+
+/**
+ * Asynchronous payroll runs
+ */
+export class GeneratedPayrollRunApi extends BaseAPI {
+    /**
+     * Start a payroll run for a pay group and period
+     * POST /payroll-runs -> 202, 400, 401, 409
+     */
+    async startPayrollRun(body: StartPayrollRunRequest, idempotencyKey?: string) {
+        return await this.post('/payroll-runs', body, this.idempotencyOptions(idempotencyKey));
+    }
+
+    async startPayrollRunTyped(body: StartPayrollRunRequest, idempotencyKey?: string): Promise<PayrollRun> {
+        return await this.parseAs(await this.startPayrollRun(body, idempotencyKey), PayrollRunSchema);
+    }
+
+    /**
+     * Get a payroll run and its status
+     * GET /payroll-runs/{runId} -> 200, 401, 404
+     */
+    async getPayrollRun(runId: number) {
+        return await this.get(`/payroll-runs/${runId}`);
+    }
+
+    async getPayrollRunTyped(runId: number): Promise<PayrollRun> {
+        return await this.parseAs(await this.getPayrollRun(runId), PayrollRunSchema);
+    }
+}
@@ -0,0 +1,35 @@
+// GENERATED FILE - DO NOT EDIT.
+// Generated by `npm run generate:api` from openapi/tw-payroll-system.json (tw-payroll-system API 1.0.0).
+// Regeneration overwrites this file; add behaviour in a subclass instead.
+
+import { BaseAPI } from '../base-api';
+import { Payslip, PayslipSchema } from './models';
+
+/**
+ * Payslips produced by completed runs
+ */
+export class GeneratedPayslipApi extends BaseAPI {
+    /**
+     * List the payslips of a completed payroll run
+     * GET /payroll-runs/{runId}/payslips -> 200, 401, 404, 409
+     */
+    async getPayslips(runId: number) {
+        return await this.get(`/payroll-runs/${runId}/payslips`);
+    }
+
+    async getPayslipsTyped(runId: number): Promise<Payslip[]> {
+        return await this.parseArrayAs(await this.getPayslips(runId), PayslipSchema);
+    }
+
+    /**
+     * Get a payslip
+     * GET /payslips/{payslipId} -> 200, 401, 404
+     */
+    async getPayslip(payslipId: number) {
+        return await this.get(`/payslips/${payslipId}`);
+    }
+
+    async getPayslipTyped(payslipId: number): Promise<Payslip> {
+        return await this.parseAs(await this.getPayslip(payslipId), PayslipSchema);
+    }
+}
@@ -1,37 +1,80 @@
-import { BaseAPI } from './base-api';
-
-export interface PayGroup {
-    payGroupId: number;
-    groupName: string;
-    paymentCycle: string;
-    baseTaxRate: number;
-    benefitRate: number;
-    deductionRate: number;
-    createdAt: string;
-}
+import { SortDirection } from './base-api';
+import { AuthStrategy } from './auth';
+import type { RetryConfig } from '../config/test-config';
+import { GeneratedPayGroupApi } from './generated/pay-group-api';
+import { CreatePayGroup, PayGroup, PayGroupSchema, PaymentCycleValues } from './generated/models';
+
+// Models are generated from openapi/tw-payroll-system.json (npm run generate:api)
+export { PayGroupSchema } from './generated/models';
+export type { CreatePayGroup, PayGroup, PaymentCycle, UpdatePayGroup } from './generated/models';
+
+/** Payment cycles accepted by the backend */
+export const PAYMENT_CYCLES = PaymentCycleValues;
 
-export interface CreatePayGroup {
-    groupName: string;
-    paymentCycle: string;
-    baseTaxRate: number;
-    benefitRate: number;
-    deductionRate: number;
+/**
+ * Filters, sorting and paging for listing pay groups
+ */
+export interface PayGroupQuery {
+    paymentCycle?: string;
+    /** Case-insensitive substring match on groupName */
+    groupName?: string;
+    sortBy?: keyof PayGroup;
+    direction?: SortDirection;
+    /** Zero-based page number */
+    page?: number;
+    size?: number;
 }
-export class PayGroupApi extends BaseAPI {
-    constructor(request: any, baseUrl: string) {
-        super(request, baseUrl);
+
+export class PayGroupApi extends GeneratedPayGroupApi {
+    constructor(request: any, baseUrl: string, auth?: AuthStrategy, retryPolicy?: RetryConfig) {
+        super(request, baseUrl, auth, retryPolicy);
     }
 
-    async getPayGroups(paymentCycle?: string) {
-        const params = paymentCycle ? `?paymentCycle=${encodeURIComponent(paymentCycle)}` : '';
+    /**
+     * List pay groups. Accepts a payment cycle filter, or a PayGroupQuery for name filtering, sorting and paging.
+     * The payment cycle is sent as given, so tests can probe invalid values.
+     */
+    async getPayGroups(query?: string | PayGroupQuery) {
+        const options: PayGroupQuery = typeof query === 'string' ? { paymentCycle: query } : query ?? {};
+        const params = this.buildQuery({
+            paymentCycle: options.paymentCycle,
+            groupName: options.groupName,
+            sort: options.sortBy ? `${options.sortBy},${options.direction ?? 'asc'}` : undefined,
+            page: options.page,
+            size: options.size
+        });
         return await this.get(`/pay-groups${params}`);
     }
 
-    async createPayGroups(paygroupdata: CreatePayGroup) {
-        return await this.post('/pay-groups', paygroupdata);
+    /**
+     * Create a pay group. Supplying an idempotency key makes the POST safe to retry.
+     */
+    async createPayGroup(paygroupdata: CreatePayGroup, idempotencyKey?: string) {
+        const response = await super.createPayGroup(paygroupdata, idempotencyKey);
+        if (response.ok() && this.cleanupRegistry) {
+            const { payGroupId } = await response.json();
+            this.cleanupRegistry.track({ kind: 'payGroup', id: payGroupId, remove: () => this.deletePayGroup(payGroupId) });
+        }
+        return response;
+    }
+
+    async createPayGroups(paygroupdata: CreatePayGroup, idempotencyKey?: string) {
+        return await this.createPayGroup(paygroupdata, idempotencyKey);
+    }
+
+    async updatePayGroups(id: number, paygroupdata: Partial<CreatePayGroup>) {
+        return await this.updatePayGroup(id, paygroupdata);
     }
 
-    async updatePayGroups(id:number,paygroupdata:Partial<CreatePayGroup>) {
-            return await this.put(`/pay-groups/${id}`, paygroupdata);
+    async deletePayGroup(id: number) {
+        const response = await super.deletePayGroup(id);
+        if (response.ok()) {
+            this.cleanupRegistry?.untrack('payGroup', id);
         }
+        return response;
+    }
+
+    async getPayGroupsTyped(query?: string | PayGroupQuery): Promise<PayGroup[]> {
+        return await this.parseArrayAs(await this.getPayGroups(query), PayGroupSchema);
+    }
 }
@@ -0,0 +1,61 @@
+import { AuthStrategy } from './auth';
+import type { RetryConfig } from '../config/test-config';
+import { GeneratedPayrollRunApi } from './generated/payroll-run-api';
+import { PayrollRun, PayrollRunStatusValues } from './generated/models';
+
+// Models are generated from openapi/tw-payroll-system.json (npm run generate:api)
+export { PayrollRunSchema } from './generated/models';
+export type { PayrollRun, PayrollRunStatus, StartPayrollRunRequest } from './generated/models';
+
+/** Lifecycle of a payroll run: PENDING -> PROCESSING -> COMPLETED | FAILED */
+export const PAYROLL_RUN_STATUSES = PayrollRunStatusValues;
+
+/**
+ * Polling options for waitForPayrollRun
+ */
+export interface PayrollRunWaitOptions {
+    /** Give up after this long (default 30000ms) */
+    timeoutMs?: number;
+    /** Delay between status checks (default 500ms) */
+    intervalMs?: number;
+}
+
+/**
+ * Error thrown when a payroll run fails or does not finish in time
+ */
+export class PayrollRunError extends Error {
+    constructor(message: string, public readonly run: PayrollRun) {
+        super(message);
+        this.name = 'PayrollRunError';
+    }
+}
+
+export class PayrollRunApi extends GeneratedPayrollRunApi {
+    constructor(request: any, baseUrl: string, auth?: AuthStrategy, retryPolicy?: RetryConfig) {
+        super(request, baseUrl, auth, retryPolicy);
+    }
+
+    /**
+     * Poll a payroll run until it completes
+     * @returns The completed run
+     * @throws PayrollRunError if the run fails or is still in progress when the timeout expires
+     */
+    async waitForPayrollRun(runId: number, options: PayrollRunWaitOptions = {}): Promise<PayrollRun> {
+        const timeoutMs = options.timeoutMs ?? 30000;
+        const intervalMs = options.intervalMs ?? 500;
+        const deadline = Date.now() + timeoutMs;
+
+        let run = await this.getPayrollRunTyped(runId);
+        while (run.status !== 'COMPLETED') {
+            if (run.status === 'FAILED') {
+                throw new PayrollRunError(`Payroll run ${runId} failed`, run);
+            }
+            if (Date.now() + intervalMs > deadline) {
+                throw new PayrollRunError(`Payroll run ${runId} still ${run.status} after ${timeoutMs}ms`, run);
+            }
+            await new Promise(resolve => setTimeout(resolve, intervalMs));
+            run = await this.getPayrollRunTyped(runId);
+        }
+        return run;
+    }
+}
@@ -0,0 +1,13 @@
+import { AuthStrategy } from './auth';
+import type { RetryConfig } from '../config/test-config';
+import { GeneratedPayslipApi } from './generated/payslip-api';
+
+// Models are generated from openapi/tw-payroll-system.json (npm run generate:api)
+export { PayslipSchema } from './generated/models';
+export type { Payslip } from './generated/models';
+
+export class PayslipApi extends GeneratedPayslipApi {
+    constructor(request: any, baseUrl: string, auth?: AuthStrategy, retryPolicy?: RetryConfig) {
+        super(request, baseUrl, auth, retryPolicy);
+    }
+}
@@ -0,0 +1,83 @@
+/**
+ * Retry Policy
+ *
+ * Decides whether and when BaseAPI should re-send a request after a transient failure
+ * (a retryable status such as 502/503/504, or a connection-level error).
+ * Delays grow exponentially with jitter and honor the server's `Retry-After` header.
+ * Non-idempotent methods (POST, PATCH) are only retried when the request carries an
+ * idempotency key header, so a retry can never create a duplicate record.
+ */
+
+import type { RetryConfig } from '../config/test-config';
+import type { HttpMethod } from './base-api';
+
+/**
+ * Default policy: three attempts on gateway errors and connection failures
+ */
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 3,
+  retryOnStatuses: [502, 503, 504],
+  retryOnNetworkErrors: true,
+  baseDelayMs: 200,
+  maxDelayMs: 5000,
+  jitter: true,
+  idempotencyKeyHeader: 'Idempotency-Key'
+};
+
+const IDEMPOTENT_METHODS: HttpMethod[] = ['get', 'put', 'delete'];
+
+// Connection-level failures reported by Playwright's request context
+const NETWORK_ERROR_PATTERN = /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE|EAI_AGAIN|socket hang up/i;
+
+/**
+ * Check whether a request may be sent more than once under a policy
+ * @param method - HTTP method
+ * @param headers - Request headers
+ * @param policy - Retry policy
+ * @returns True if the method is idempotent or the request carries an idempotency key
+ */
+export function isRetryable(method: HttpMethod, headers: Record<string, string> | undefined, policy: RetryConfig): boolean {
+  if (policy.maxAttempts <= 1) return false;
+  if (IDEMPOTENT_METHODS.includes(method)) return true;
+  const keyHeader = policy.idempotencyKeyHeader.toLowerCase();
+  return Object.keys(headers ?? {}).some(name => name.toLowerCase() === keyHeader);
+}
+
+/**
+ * Check whether an error thrown by the request context is a transient connection failure
+ * @param error - Thrown error
+ */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof Error && NETWORK_ERROR_PATTERN.test(error.message);
+}
+
+/**
+ * Compute the wait before the next attempt
+ * @param policy - Retry policy
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param retryAfter - Value of the response's Retry-After header, if any
+ * @returns Delay in milliseconds, never more than `policy.maxDelayMs`
+ */
+export function retryDelay(policy: RetryConfig, attempt: number, retryAfter?: string): number {
+  const serverDelay = parseRetryAfter(retryAfter);
+  if (serverDelay !== undefined) {
+    return Math.min(serverDelay, policy.maxDelayMs);
+  }
+  const exponential = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  // Equal jitter: keep half the delay, randomize the other half
+  return policy.jitter ? Math.round(exponential / 2 + Math.random() * (exponential / 2)) : exponential;
+}
+
+/**
+ * Parse a Retry-After header given either as delay-seconds or an HTTP date
+ * @returns Delay in milliseconds, or undefined if absent or unparseable
+ */
+function parseRetryAfter(value?: string): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
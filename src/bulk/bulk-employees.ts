@@ -0,0 +1,72 @@
+/**
+ * Bulk Employee CLI
+ *
+ * Usage: npm run employees -- import <file.csv|file.json> [--concurrency 4]
+ *        npm run employees -- export <file.csv>
+ *
+ * Imports or exports employees against the API of the TEST_ENV profile, e.g.
+ * `TEST_ENV=qa npm run employees -- import onboarding.csv`. Import prints one line per row that
+ * was not created and exits with 1 when there is any; export writes every employee to the file.
+ * In the mock profile the mock server is started here and forgets everything on exit, which
+ * is only useful to try a file out. Exits with 2 on usage or file errors.
+ */
+
+import path from 'path';
+import { request } from '@playwright/test';
+import { testConfig } from '../config/test-config';
+import { createAuthStrategy } from '../api/auth';
+import { EmployeeApi } from '../api/employee-api';
+import { PayGroupApi } from '../api/pay-group-api';
+import { PayrollMockServer } from '../mock/payroll-mock-server';
+import { LogLevel, logger } from '../utils/logger';
+import { formatImportReport, importEmployees, readEmployeeFile } from './employee-import';
+import { exportEmployeesToFile } from './employee-export';
+
+const USAGE = 'Usage: npm run employees -- import <file.csv|file.json> [--concurrency 4] | export <file.csv>';
+
+async function main(argv: string[]): Promise<number> {
+  const [command, file, option, value, ...rest] = argv;
+  const concurrency = option === '--concurrency' ? Number(value) : 4;
+  if (!['import', 'export'].includes(command) || !file || rest.length > 0 || (option !== undefined && option !== '--concurrency')
+    || (command === 'export' && option !== undefined)) {
+    throw new Error(USAGE);
+  }
+  if (!(Number.isInteger(concurrency) && concurrency > 0)) {
+    throw new Error(`--concurrency must be a positive integer, got: ${value}`);
+  }
+  const filePath = path.resolve(file);
+  // Read the file before anything is started, so a bad file fails fast
+  const rows = command === 'import' ? readEmployeeFile(filePath) : [];
+  logger.setLevel(LogLevel.WARN);
+
+  let server: PayrollMockServer | undefined;
+  if (testConfig.api.mode === 'mock') {
+    server = new PayrollMockServer({ port: testConfig.api.mockPort });
+    await server.start();
+  }
+  const context = await request.newContext();
+  try {
+    console.log(`Profile ${testConfig.profile}: ${testConfig.api.baseUrl}`);
+    const employeeApi = new EmployeeApi(context, testConfig.api.baseUrl, createAuthStrategy(testConfig.api.auth), testConfig.api.retry);
+    if (command === 'export') {
+      const count = await exportEmployeesToFile(employeeApi, filePath);
+      console.log(`${count} employee(s) written to ${filePath}`);
+      return 0;
+    }
+
+    const payGroupApi = new PayGroupApi(context, testConfig.api.baseUrl, createAuthStrategy(testConfig.api.auth), testConfig.api.retry);
+    const report = await importEmployees(employeeApi, payGroupApi, rows, { concurrency });
+    formatImportReport(report).forEach(line => console.log(line));
+    return report.counts.created === report.total ? 0 : 1;
+  } finally {
+    await context.dispose();
+    await server?.stop();
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => process.exit(code), e => {
+    console.error((e as Error).message);
+    process.exit(2);
+  });
+}
@@ -0,0 +1,244 @@
+/**
+ * Bulk Employee Import
+ *
+ * Reads CreateEmployeeRequest rows from a CSV or JSON file, validates them locally and creates
+ * the valid ones through EmployeeApi with bounded concurrency. Every row ends up in the report
+ * with one outcome:
+ * - created: the API returned 201
+ * - conflict: the API returned 409, or an earlier row of the file has the same employeeId or email
+ * - invalid: local validation failed (types, blank fields, email, dates, unknown payGroupId), or the API returned 400
+ * - failed: any other status
+ *
+ * Invalid and duplicate rows are never sent. CSV files need a header row with the
+ * EMPLOYEE_CSV_COLUMNS names in any order; the read-only columns written by the export
+ * (status, createdAt, updatedAt) are ignored, so an export can be imported elsewhere.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { APIResponse } from '@playwright/test';
+import { EmployeeApi, CreateEmployeeRequest } from '../api/employee-api';
+import { PayGroupApi } from '../api/pay-group-api';
+import { CreateEmployeeRequestSchema } from '../api/generated/models';
+import { validate } from '../utils/schema-validator';
+import { mapConcurrent } from '../utils/concurrency';
+import { parseCsv } from '../utils/csv';
+import { EMPLOYEE_CSV_COLUMNS, READ_ONLY_COLUMNS } from './employee-export';
+
+export const IMPORT_OUTCOMES = ['created', 'conflict', 'invalid', 'failed'] as const;
+export type ImportOutcome = typeof IMPORT_OUTCOMES[number];
+
+/**
+ * One row of an import file
+ */
+export interface EmployeeImportRow {
+  /** 1-based position among the data rows (the CSV header is not counted) */
+  row: number;
+  data: Record<string, unknown>;
+}
+
+/**
+ * What happened to one row
+ */
+export interface ImportRowResult {
+  row: number;
+  employeeId?: string;
+  outcome: ImportOutcome;
+  /** HTTP status, when the row was sent */
+  status?: number;
+  errors: string[];
+}
+
+export interface ImportReport {
+  total: number;
+  counts: Record<ImportOutcome, number>;
+  rows: ImportRowResult[];
+}
+
+export interface ImportOptions {
+  /** Maximum number of create requests in flight (default 4) */
+  concurrency?: number;
+}
+
+/**
+ * Error thrown when a file cannot be read as a whole (bad format, unknown columns)
+ */
+export class EmployeeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmployeeImportError';
+  }
+}
+
+const REQUEST_FIELDS = Object.keys(CreateEmployeeRequestSchema.fields);
+const NUMERIC_FIELDS = ['payGroupId', 'annualSalary'];
+const TEXT_FIELDS = ['employeeId', 'firstName', 'lastName', 'department', 'designation'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Parse CSV rows. Numeric columns are converted when they hold a number (otherwise the text
+ * is kept and reported by validation); empty cells are left out.
+ * @throws EmployeeImportError for malformed CSV or unknown columns
+ */
+export function parseEmployeeCsv(text: string): EmployeeImportRow[] {
+  let lines;
+  try {
+    lines = parseCsv(text);
+  } catch (e) {
+    throw new EmployeeImportError((e as Error).message);
+  }
+  if (lines.length === 0) {
+    throw new EmployeeImportError('CSV has no header row');
+  }
+  const header = lines[0].fields.map(column => column.trim());
+  const unknown = header.filter(column => !(EMPLOYEE_CSV_COLUMNS as readonly string[]).includes(column));
+  if (unknown.length > 0) {
+    throw new EmployeeImportError(`Unknown CSV column(s): ${unknown.join(', ')} (expected ${EMPLOYEE_CSV_COLUMNS.join(', ')})`);
+  }
+
+  return lines.slice(1).map(({ line, fields }, i) => {
+    if (fields.length !== header.length) {
+      throw new EmployeeImportError(`CSV line ${line}: expected ${header.length} fields, got ${fields.length}`);
+    }
+    const data: Record<string, unknown> = {};
+    header.forEach((column, j) => {
+      const value = fields[j].trim();
+      if (value === '' || READ_ONLY_COLUMNS.includes(column)) return;
+      data[column] = NUMERIC_FIELDS.includes(column) && /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+    });
+    return { row: i + 1, data };
+  });
+}
+
+/**
+ * Parse a JSON array of CreateEmployeeRequest objects. Values are taken as they are.
+ * @throws EmployeeImportError when the content is not a JSON array
+ */
+export function parseEmployeeJson(text: string): EmployeeImportRow[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (e) {
+    throw new EmployeeImportError(`Invalid JSON: ${(e as Error).message}`);
+  }
+  if (!Array.isArray(value)) {
+    throw new EmployeeImportError('JSON import file must contain an array of employees');
+  }
+  return value.map((data, i) => ({ row: i + 1, data: data as Record<string, unknown> }));
+}
+
+/**
+ * Read an import file; the format follows the extension (.csv or .json)
+ * @throws EmployeeImportError for other extensions or unreadable content
+ */
+export function readEmployeeFile(filePath: string): EmployeeImportRow[] {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension !== '.csv' && extension !== '.json') {
+    throw new EmployeeImportError(`Unsupported import file ${filePath} (expected .csv or .json)`);
+  }
+  const text = fs.readFileSync(filePath, 'utf-8');
+  return extension === '.csv' ? parseEmployeeCsv(text) : parseEmployeeJson(text);
+}
+
+/**
+ * Validate one row locally
+ * @param data - Row content
+ * @param payGroupIds - Pay groups that exist in the target environment
+ * @returns List of issues (empty when the row can be sent)
+ */
+export function validateEmployeeRow(data: unknown, payGroupIds: ReadonlySet<number>): string[] {
+  const issues = validate(CreateEmployeeRequestSchema, data);
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return issues;
+  }
+  const record = data as Record<string, unknown>;
+  Object.keys(record).filter(key => !REQUEST_FIELDS.includes(key)).forEach(key => issues.push(`${key}: unknown field`));
+  TEXT_FIELDS.filter(field => typeof record[field] === 'string' && (record[field] as string).trim() === '')
+    .forEach(field => issues.push(`${field}: must not be blank`));
+  if (typeof record.email === 'string' && !EMAIL_PATTERN.test(record.email)) {
+    issues.push(`email: invalid address ${JSON.stringify(record.email)}`);
+  }
+  if (typeof record.joiningDate === 'string' && !isIsoDate(record.joiningDate)) {
+    issues.push(`joiningDate: expected a valid YYYY-MM-DD date, got ${JSON.stringify(record.joiningDate)}`);
+  }
+  if (Number.isInteger(record.payGroupId) && !payGroupIds.has(record.payGroupId as number)) {
+    issues.push(`payGroupId: pay group ${record.payGroupId} does not exist`);
+  }
+  if (typeof record.annualSalary === 'number' && !(record.annualSalary >= 0)) {
+    issues.push(`annualSalary: must not be negative, got ${record.annualSalary}`);
+  }
+  return issues;
+}
+
+/**
+ * Validate rows and create the valid ones
+ * @param employeeApi - Client used to create the employees
+ * @param payGroupApi - Client used to look up the existing pay groups
+ * @param rows - Rows read by readEmployeeFile() or one of the parsers
+ * @returns Result per row, in file order
+ */
+export async function importEmployees(employeeApi: EmployeeApi, payGroupApi: PayGroupApi, rows: readonly EmployeeImportRow[],
+  options: ImportOptions = {}): Promise<ImportReport> {
+  const payGroupIds = new Set((await payGroupApi.getPayGroupsTyped()).map(payGroup => payGroup.payGroupId));
+
+  // Check every row before sending any, so duplicates are found in file order
+  const firstRow = new Map<string, number>();
+  const checked = rows.map(({ row, data }): ImportRowResult & { request?: CreateEmployeeRequest } => {
+    const employeeId = typeof data?.employeeId === 'string' ? data.employeeId : undefined;
+    const issues = validateEmployeeRow(data, payGroupIds);
+    if (issues.length > 0) {
+      return { row, employeeId, outcome: 'invalid', errors: issues };
+    }
+    const request = data as unknown as CreateEmployeeRequest;
+    const keys = [`employeeId ${request.employeeId}`, `email ${request.email.toLowerCase()}`];
+    const duplicates = keys.filter(key => firstRow.has(key)).map(key => `${key} duplicates row ${firstRow.get(key)}`);
+    if (duplicates.length > 0) {
+      return { row, employeeId, outcome: 'conflict', errors: duplicates };
+    }
+    keys.forEach(key => firstRow.set(key, row));
+    return { row, employeeId, outcome: 'created', errors: [], request };
+  });
+
+  const results = await mapConcurrent(checked, options.concurrency ?? 4, async ({ request, ...result }) => {
+    if (!request) return result;
+    const response = await employeeApi.createEmployee(request);
+    const status = response.status();
+    if (status === 201) return { ...result, status };
+    const outcome: ImportOutcome = status === 409 ? 'conflict' : status === 400 ? 'invalid' : 'failed';
+    return { ...result, outcome, status, errors: [await errorMessage(response)] };
+  });
+
+  const counts = Object.fromEntries(IMPORT_OUTCOMES.map(outcome => [outcome, 0])) as Record<ImportOutcome, number>;
+  results.forEach(result => counts[result.outcome]++);
+  return { total: results.length, counts, rows: results };
+}
+
+/**
+ * Human-readable report: totals, then one line per row that was not created
+ */
+export function formatImportReport(report: ImportReport): string[] {
+  const lines = [`${report.total} row(s): ${IMPORT_OUTCOMES.map(outcome => `${report.counts[outcome]} ${outcome}`).join(', ')}`];
+  report.rows.filter(result => result.outcome !== 'created').forEach(result => {
+    const status = result.status ? ` (${result.status})` : '';
+    lines.push(`  row ${result.row} ${result.employeeId ?? '-'}: ${result.outcome}${status} - ${result.errors.join('; ')}`);
+  });
+  return lines;
+}
+
+/** Error message of a rejected create, from the JSON body when there is one */
+async function errorMessage(response: APIResponse): Promise<string> {
+  const text = await response.text();
+  try {
+    const body = JSON.parse(text);
+    if (typeof body?.message === 'string') return body.message;
+  } catch {
+    // Not JSON
+  }
+  return text.slice(0, 200) || `HTTP ${response.status()}`;
+}
+
+function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
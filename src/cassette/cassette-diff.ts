@@ -0,0 +1,128 @@
+/**
+ * Cassette Diff
+ *
+ * Compares two recordings of the same tests, e.g. the committed cassettes and a fresh
+ * recording against a new backend build. Interactions are paired by position; for each
+ * pair the request, the status and the response body are compared. Fields that differ on
+ * every recording (timestamps) are ignored.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { CassetteFile, Interaction } from './cassette';
+
+/** Response fields ignored by default: they change on every recording */
+export const DEFAULT_DIFF_IGNORED_FIELDS = ['createdAt', 'updatedAt', 'completedAt', 'timestamp'];
+
+export type CassetteChangeKind = 'added-cassette' | 'removed-cassette' | 'added' | 'removed' | 'request' | 'status' | 'headers' | 'body';
+
+/**
+ * One difference between two recordings
+ */
+export interface CassetteChange {
+  /** Cassette file, relative to the compared directory */
+  cassette: string;
+  /** Zero-based interaction index, when the change is about one interaction */
+  interaction?: number;
+  kind: CassetteChangeKind;
+  message: string;
+}
+
+/**
+ * Compare two cassettes
+ * @param name - Name to report the changes under
+ * @param before - Earlier recording
+ * @param after - Later recording
+ * @param ignoredFields - Response body fields to skip, at any depth
+ */
+export function diffCassettes(name: string, before: CassetteFile, after: CassetteFile, ignoredFields: readonly string[] = DEFAULT_DIFF_IGNORED_FIELDS): CassetteChange[] {
+  const changes: CassetteChange[] = [];
+  const count = Math.max(before.interactions.length, after.interactions.length);
+  for (let i = 0; i < count; i++) {
+    const a = before.interactions[i];
+    const b = after.interactions[i];
+    const change = (kind: CassetteChangeKind, message: string) => changes.push({ cassette: name, interaction: i, kind, message });
+    if (!a) {
+      change('added', `${describe(b)} -> ${b.response.status}`);
+      continue;
+    }
+    if (!b) {
+      change('removed', `${describe(a)} -> ${a.response.status}`);
+      continue;
+    }
+    if (describe(a) !== describe(b)) {
+      change('request', `${describe(a)} became ${describe(b)}`);
+    }
+    if (a.response.status !== b.response.status) {
+      change('status', `${describe(b)}: ${a.response.status} became ${b.response.status}`);
+    }
+    const headerChanges = diffValues(a.response.headers, b.response.headers, '$headers', []);
+    if (headerChanges.length > 0) {
+      change('headers', `${describe(b)}: ${headerChanges.join('; ')}`);
+    }
+    const bodyChanges = diffValues(a.response.body ?? a.response.text, b.response.body ?? b.response.text, '$', ignoredFields);
+    if (bodyChanges.length > 0) {
+      change('body', `${describe(b)}: ${bodyChanges.join('; ')}`);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compare two cassette files, or two directories of cassettes (matched by relative path)
+ * @param before - Earlier recording
+ * @param after - Later recording
+ * @param ignoredFields - Response body fields to skip, at any depth
+ */
+export function diffCassettePaths(before: string, after: string, ignoredFields: readonly string[] = DEFAULT_DIFF_IGNORED_FIELDS): CassetteChange[] {
+  if (fs.statSync(before).isFile()) {
+    return diffCassettes(path.basename(after), readCassette(before), readCassette(after), ignoredFields);
+  }
+  const beforeFiles = listCassettes(before);
+  const afterFiles = listCassettes(after);
+  const changes: CassetteChange[] = [];
+  for (const name of [...new Set([...beforeFiles, ...afterFiles])].sort()) {
+    if (!afterFiles.includes(name)) {
+      changes.push({ cassette: name, kind: 'removed-cassette', message: 'no longer recorded' });
+    } else if (!beforeFiles.includes(name)) {
+      changes.push({ cassette: name, kind: 'added-cassette', message: 'newly recorded' });
+    } else {
+      changes.push(...diffCassettes(name, readCassette(path.join(before, name)), readCassette(path.join(after, name)), ignoredFields));
+    }
+  }
+  return changes;
+}
+
+function readCassette(filePath: string): CassetteFile {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as CassetteFile;
+}
+
+/** Cassette files under a directory, as relative paths with forward slashes */
+function listCassettes(dir: string, prefix = ''): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) return listCassettes(path.join(dir, entry.name), relative);
+    return entry.name.endsWith('.json') ? [relative] : [];
+  });
+}
+
+function describe(interaction: Interaction): string {
+  const { method, url, body } = interaction.request;
+  return body === undefined ? `${method} ${url}` : `${method} ${url} ${JSON.stringify(body)}`;
+}
+
+/** Paths at which two JSON values differ, with both values */
+function diffValues(a: unknown, b: unknown, at: string, ignoredFields: readonly string[]): string[] {
+  const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object';
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const length = Math.max(a.length, b.length);
+    return Array.from({ length }, (_, i) => diffValues(a[i], b[i], `${at}[${i}]`, ignoredFields)).flat();
+  }
+  if (isObject(a) && isObject(b) && !Array.isArray(a) && !Array.isArray(b)) {
+    return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+      .filter(key => !ignoredFields.includes(key))
+      .flatMap(key => diffValues(a[key], b[key], `${at}.${key}`, ignoredFields));
+  }
+  return JSON.stringify(a) === JSON.stringify(b) ? [] : [`${at} ${JSON.stringify(a) ?? 'missing'} -> ${JSON.stringify(b) ?? 'missing'}`];
+}
@@ -0,0 +1,54 @@
+/**
+ * Cassette Response
+ *
+ * A recorded response served as a Playwright APIResponse, so code reading responses
+ * cannot tell a replayed call from a live one.
+ */
+
+import { APIResponse } from '@playwright/test';
+import type { RecordedResponse } from './cassette';
+
+export class CassetteResponse implements APIResponse {
+  constructor(private readonly requestUrl: string, private readonly recorded: RecordedResponse) {}
+
+  async body(): Promise<Buffer> {
+    return Buffer.from(await this.text());
+  }
+
+  async dispose(): Promise<void> {}
+
+  async [Symbol.asyncDispose](): Promise<void> {}
+
+  headers(): { [key: string]: string } {
+    return { ...this.recorded.headers };
+  }
+
+  headersArray(): Array<{ name: string; value: string }> {
+    return Object.entries(this.recorded.headers).map(([name, value]) => ({ name, value }));
+  }
+
+  async json(): Promise<any> {
+    return JSON.parse(await this.text());
+  }
+
+  ok(): boolean {
+    return this.recorded.status >= 200 && this.recorded.status <= 299;
+  }
+
+  status(): number {
+    return this.recorded.status;
+  }
+
+  statusText(): string {
+    return this.recorded.statusText;
+  }
+
+  async text(): Promise<string> {
+    if (this.recorded.body !== undefined) return JSON.stringify(this.recorded.body);
+    return this.recorded.text ?? '';
+  }
+
+  url(): string {
+    return this.requestUrl;
+  }
+}
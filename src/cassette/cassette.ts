@@ -0,0 +1,231 @@
+/**
+ * Cassette
+ *
+ * HAR-style recording of a test's HTTP exchanges. In record mode BaseAPI sends requests
+ * as usual and appends every request/response pair (retries included) to the cassette,
+ * which is saved as JSON. In replay mode BaseAPI never touches the network: each request
+ * is answered with the first unused recorded interaction that matches it.
+ *
+ * Matching rules: method, path, query (order-insensitive) and body (deep equality,
+ * ignoring the fields listed in API_CASSETTE_IGNORE_BODY_FIELDS).
+ * URLs are stored without scheme and host, so a cassette recorded against one server
+ * replays against any base URL with the same path.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { APIResponse } from '@playwright/test';
+import { CassetteResponse } from './cassette-response';
+
+export const CASSETTE_MODES = ['off', 'record', 'replay'] as const;
+export type CassetteMode = typeof CASSETTE_MODES[number];
+
+export const CASSETTE_MATCH_RULES = ['method', 'path', 'query', 'body'] as const;
+export type CassetteMatchRule = typeof CASSETTE_MATCH_RULES[number];
+
+/**
+ * A request as stored in a cassette
+ */
+export interface RecordedRequest {
+  method: string;
+  /** Path and query string, e.g. `/tw-payroll-system/api/pay-groups?page=0` */
+  url: string;
+  body?: unknown;
+}
+
+/**
+ * A response as stored in a cassette; JSON bodies are kept parsed, anything else as text
+ */
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  text?: string;
+}
+
+export interface Interaction {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+/**
+ * Cassette file contents
+ */
+export interface CassetteFile {
+  version: 1;
+  /** Seed of the test's data factory, so replayed requests carry the recorded payloads */
+  testDataSeed?: number;
+  interactions: Interaction[];
+}
+
+export interface CassetteOptions {
+  /** Parts of a request that must match a recorded one (default: all) */
+  match?: readonly CassetteMatchRule[];
+  /** Request body fields ignored when matching, at any depth */
+  ignoreBodyFields?: readonly string[];
+}
+
+/** Response headers that change on every call and would only add noise to cassette diffs */
+const VOLATILE_HEADERS = ['date', 'connection', 'keep-alive', 'transfer-encoding', 'content-length', 'x-correlation-id'];
+
+/**
+ * Error thrown in replay mode when no recorded interaction matches a request
+ */
+export class CassetteMismatchError extends Error {
+  constructor(public readonly request: RecordedRequest, public readonly filePath: string, candidates: RecordedRequest[]) {
+    const hint = candidates.length > 0
+      ? `\nUnused interactions for ${request.method} with this path:\n${candidates.map(c => `  ${c.url} ${JSON.stringify(c.body ?? null)}`).join('\n')}`
+      : '';
+    super(`No recorded interaction in ${filePath} matches ${request.method} ${request.url} ${JSON.stringify(request.body ?? null)}${hint}`);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+/**
+ * The recorded exchanges of one test
+ */
+export class Cassette {
+  private readonly interactions: Interaction[];
+  private readonly used = new Set<number>();
+  private readonly match: readonly CassetteMatchRule[];
+  private readonly ignoreBodyFields: ReadonlySet<string>;
+  testDataSeed?: number;
+
+  /**
+   * @param filePath - Cassette file (written by `save()`, read by `open()`)
+   * @param mode - 'record' or 'replay'
+   * @param file - Recorded contents (empty when recording)
+   * @param options - Matching rules
+   */
+  constructor(readonly filePath: string, readonly mode: Exclude<CassetteMode, 'off'>, file?: CassetteFile, options: CassetteOptions = {}) {
+    this.interactions = file?.interactions ?? [];
+    this.testDataSeed = file?.testDataSeed;
+    this.match = options.match ?? CASSETTE_MATCH_RULES;
+    this.ignoreBodyFields = new Set(options.ignoreBodyFields ?? []);
+  }
+
+  /**
+   * Open a cassette for recording, or for replay (the file must then exist). Recording starts with no
+   * interactions but keeps an existing cassette's test data seed, so a re-recording sends the
+   * same requests and diffs only show changed backend behaviour.
+   */
+  static open(filePath: string, mode: Exclude<CassetteMode, 'off'>, options: CassetteOptions = {}): Cassette {
+    const exists = fs.existsSync(filePath);
+    if (mode === 'replay' && !exists) {
+      throw new Error(`No cassette to replay: ${filePath} (record it first with API_CASSETTE_MODE=record)`);
+    }
+    const file = exists ? JSON.parse(fs.readFileSync(filePath, 'utf8')) as CassetteFile : undefined;
+    return new Cassette(filePath, mode, mode === 'record' ? { version: 1, testDataSeed: file?.testDataSeed, interactions: [] } : file, options);
+  }
+
+  /**
+   * Recorded interactions that no request has matched yet
+   */
+  get unused(): Interaction[] {
+    return this.interactions.filter((_, i) => !this.used.has(i));
+  }
+
+  /**
+   * Append an exchange (record mode)
+   * @param method - HTTP method
+   * @param url - Absolute request URL
+   * @param options - Playwright request options that were sent
+   * @param response - Response received
+   */
+  async record(method: string, url: string, options: any, response: APIResponse): Promise<void> {
+    const headers = Object.fromEntries(Object.entries(response.headers())
+      .filter(([name]) => !VOLATILE_HEADERS.includes(name.toLowerCase()))
+      .sort(([a], [b]) => a.localeCompare(b)));
+    const recorded: RecordedResponse = { status: response.status(), statusText: response.statusText(), headers };
+    const text = await response.text();
+    if (text !== '') {
+      if ((headers['content-type'] ?? '').includes('json')) {
+        try {
+          recorded.body = JSON.parse(text);
+        } catch {
+          recorded.text = text;
+        }
+      } else {
+        recorded.text = text;
+      }
+    }
+    this.interactions.push({ request: toRecordedRequest(method, url, options), response: recorded });
+  }
+
+  /**
+   * Answer a request from the cassette (replay mode)
+   * @param method - HTTP method
+   * @param url - Absolute request URL
+   * @param options - Playwright request options
+   * @returns The recorded response, as an APIResponse for the requested URL
+   * @throws CassetteMismatchError when no unused interaction matches
+   */
+  replay(method: string, url: string, options: any): APIResponse {
+    const request = toRecordedRequest(method, url, options);
+    const index = this.interactions.findIndex((interaction, i) => !this.used.has(i) && this.matches(interaction.request, request));
+    if (index < 0) {
+      const candidates = this.unused
+        .map(interaction => interaction.request)
+        .filter(candidate => candidate.method === request.method && splitUrl(candidate.url).path === splitUrl(request.url).path);
+      throw new CassetteMismatchError(request, this.filePath, candidates);
+    }
+    this.used.add(index);
+    return new CassetteResponse(url, this.interactions[index].response);
+  }
+
+  /**
+   * Write the cassette file (record mode)
+   */
+  save(): void {
+    const file: CassetteFile = { version: 1, testDataSeed: this.testDataSeed, interactions: this.interactions };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2) + '\n');
+  }
+
+  private matches(recorded: RecordedRequest, request: RecordedRequest): boolean {
+    const a = splitUrl(recorded.url);
+    const b = splitUrl(request.url);
+    return this.match.every(rule => {
+      switch (rule) {
+        case 'method':
+          return recorded.method === request.method;
+        case 'path':
+          return a.path === b.path;
+        case 'query':
+          return a.query === b.query;
+        case 'body':
+          return JSON.stringify(this.normalizeBody(recorded.body)) === JSON.stringify(this.normalizeBody(request.body));
+      }
+    });
+  }
+
+  /** Sort object keys and drop ignored fields so equal bodies serialize identically */
+  private normalizeBody(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(item => this.normalizeBody(item));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.keys(value).sort()
+        .filter(key => !this.ignoreBodyFields.has(key))
+        .map(key => [key, this.normalizeBody((value as Record<string, unknown>)[key])]));
+    }
+    return value;
+  }
+}
+
+/** The parts of a request that are stored; URLs lose scheme and host */
+function toRecordedRequest(method: string, url: string, options: any): RecordedRequest {
+  const parsed = new URL(url);
+  const request: RecordedRequest = { method: method.toUpperCase(), url: `${parsed.pathname}${parsed.search}` };
+  if (options?.data !== undefined) request.body = options.data;
+  return request;
+}
+
+/** Path and sorted query string of a stored URL */
+function splitUrl(url: string): { path: string; query: string } {
+  const parsed = new URL(url, 'http://cassette');
+  const query = [...parsed.searchParams.entries()]
+    .sort(([a, x], [b, y]) => a.localeCompare(b) || x.localeCompare(y))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  return { path: parsed.pathname, query };
+}
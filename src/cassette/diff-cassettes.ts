@@ -0,0 +1,44 @@
+/**
+ * Cassette Diff CLI
+ *
+ * Usage: npm run cassette:diff -- <before> <after> [--ignore field1,field2]
+ *
+ * Compares two cassette files or directories (see cassette-diff.ts) and prints one line per
+ * change. Exits with 1 when the recordings differ, like `diff`.
+ */
+
+import path from 'path';
+import { DEFAULT_DIFF_IGNORED_FIELDS, diffCassettePaths } from './cassette-diff';
+
+function main(argv: string[]): number {
+  const positional: string[] = [];
+  let ignored = DEFAULT_DIFF_IGNORED_FIELDS;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--ignore') {
+      ignored = (argv[++i] ?? '').split(',').map(field => field.trim()).filter(Boolean);
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+  if (positional.length !== 2) {
+    throw new Error('Usage: npm run cassette:diff -- <before> <after> [--ignore field1,field2]');
+  }
+
+  const [before, after] = positional.map(p => path.resolve(p));
+  const changes = diffCassettePaths(before, after, ignored);
+  for (const change of changes) {
+    const where = change.interaction === undefined ? change.cassette : `${change.cassette}#${change.interaction}`;
+    console.log(`${change.kind.padEnd(16)} ${where}: ${change.message}`);
+  }
+  console.log(changes.length === 0 ? 'Cassettes match' : `${changes.length} change(s)`);
+  return changes.length === 0 ? 0 : 1;
+}
+
+if (require.main === module) {
+  try {
+    process.exit(main(process.argv.slice(2)));
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(2);
+  }
+}
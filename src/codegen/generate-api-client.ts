@@ -0,0 +1,52 @@
+/**
+ * API Client Generator CLI
+ *
+ * Usage: npm run generate:api [-- <spec.json> [<outDir>] [--extensions <dir>] [--no-scaffold]]
+ *
+ * Defaults: openapi/tw-payroll-system.json -> src/api/generated, with starter subclasses
+ * scaffolded into src/api for tags that do not have a client yet. Existing subclasses and
+ * files without the generated marker are never overwritten.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { writeApiClient } from './openapi-client-generator';
+
+const DEFAULT_SPEC = 'openapi/tw-payroll-system.json';
+const DEFAULT_OUT_DIR = 'src/api/generated';
+const DEFAULT_EXTENSION_DIR = 'src/api';
+
+function main(argv: string[]): void {
+  const positional: string[] = [];
+  let extensionDir: string | undefined = DEFAULT_EXTENSION_DIR;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--extensions') {
+      extensionDir = argv[++i];
+    } else if (argv[i] === '--no-scaffold') {
+      extensionDir = undefined;
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+  const [spec = DEFAULT_SPEC, outDir = DEFAULT_OUT_DIR] = positional;
+
+  const document = JSON.parse(fs.readFileSync(path.resolve(spec), 'utf8'));
+  const result = writeApiClient(document, path.resolve(outDir), extensionDir && path.resolve(extensionDir), {
+    source: spec.split(path.sep).join('/')
+  });
+
+  const relative = (file: string) => path.relative(process.cwd(), file);
+  result.written.forEach(file => console.log(`generated  ${relative(file)}`));
+  result.removed.forEach(file => console.log(`removed    ${relative(file)}`));
+  result.scaffolded.forEach(file => console.log(`scaffolded ${relative(file)}`));
+  result.skipped.forEach(operation => console.log(`skipped    ${operation}`));
+}
+
+if (require.main === module) {
+  try {
+    main(process.argv.slice(2));
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,495 @@
+/**
+ * OpenAPI Client Generator
+ *
+ * Turns an OpenAPI 3.0 document into TypeScript in the style of the hand-written clients:
+ * - `models.ts`: an interface and an ObjectSchema per object schema, and a value list
+ *   plus union type per string enum
+ * - `<tag>-api.ts`: a `Generated<Tag>Api extends BaseAPI` class per tag, with one method
+ *   per operation returning the raw APIResponse and a `*Typed()` variant that parses the body
+ *
+ * Generated files are owned by the generator and rewritten on every run. Hand-written
+ * behaviour lives in subclasses outside the generated directory (e.g. `EmployeeApi extends
+ * GeneratedEmployeeApi`), which are scaffolded once and never overwritten.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { JsonSchema } from '../contract/json-schema';
+import { resolveRef } from '../contract/json-schema';
+import {
+  OPENAPI_METHODS,
+  OpenApiDocument,
+  OpenApiMethod,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiRequestBody,
+  OpenApiResponse
+} from '../contract/openapi-contract';
+
+/** First line of every generated file; files without it are never touched */
+export const GENERATED_MARKER = '// GENERATED FILE - DO NOT EDIT.';
+
+const INDENT = '    ';
+const JSON_MEDIA_TYPE = 'application/json';
+
+/**
+ * Options for generateApiClient
+ */
+export interface GeneratorOptions {
+  /** Spec path shown in the file headers (default 'openapi.json') */
+  source?: string;
+  /** Import path of BaseAPI, relative to the output directory */
+  baseApiImport?: string;
+  /** Import path of the schema validator, relative to the output directory */
+  schemaValidatorImport?: string;
+}
+
+/**
+ * Generated source, keyed by file name
+ */
+export interface GeneratedClient {
+  /** Files for the generated directory */
+  files: Record<string, string>;
+  /** Starter subclasses, keyed by file name, written only when missing */
+  extensions: Record<string, string>;
+  /** Operations that were not generated, with the reason */
+  skipped: string[];
+}
+
+/**
+ * Outcome of writeApiClient
+ */
+export interface WriteResult {
+  written: string[];
+  removed: string[];
+  scaffolded: string[];
+  skipped: string[];
+}
+
+/**
+ * Generate models and API classes from an OpenAPI document
+ * @param document - OpenAPI 3.0 document
+ * @param options - Header and import settings
+ */
+export function generateApiClient(document: OpenApiDocument, options: GeneratorOptions = {}): GeneratedClient {
+  const generator = new ClientGenerator(document, {
+    source: options.source ?? 'openapi.json',
+    baseApiImport: options.baseApiImport ?? '../base-api',
+    schemaValidatorImport: options.schemaValidatorImport ?? '../../utils/schema-validator'
+  });
+  return generator.generate();
+}
+
+/**
+ * Generate a client and write it to disk.
+ * Generated files in `outDir` are replaced and stale ones removed; starter subclasses are
+ * written to `extensionDir` only when the file does not exist yet.
+ * @param document - OpenAPI 3.0 document
+ * @param outDir - Directory owned by the generator (e.g. src/api/generated)
+ * @param extensionDir - Directory of the hand-written subclasses (e.g. src/api); omit to skip scaffolding
+ * @param options - Header and import settings
+ */
+export function writeApiClient(document: OpenApiDocument, outDir: string, extensionDir?: string, options: GeneratorOptions = {}): WriteResult {
+  const client = generateApiClient(document, options);
+  const result: WriteResult = { written: [], removed: [], scaffolded: [], skipped: client.skipped };
+
+  fs.mkdirSync(outDir, { recursive: true });
+  for (const name of fs.readdirSync(outDir)) {
+    const file = path.join(outDir, name);
+    if (!(name in client.files) && name.endsWith('.ts') && isGenerated(file)) {
+      fs.rmSync(file);
+      result.removed.push(file);
+    }
+  }
+  for (const [name, content] of Object.entries(client.files)) {
+    const file = path.join(outDir, name);
+    if (fs.existsSync(file) && !isGenerated(file)) {
+      throw new Error(`Refusing to overwrite hand-written file: ${file}`);
+    }
+    fs.writeFileSync(file, content);
+    result.written.push(file);
+  }
+
+  if (extensionDir) {
+    const generatedImport = toImportPath(path.relative(extensionDir, outDir));
+    for (const [name, content] of Object.entries(client.extensions)) {
+      const file = path.join(extensionDir, name);
+      if (!fs.existsSync(file)) {
+        fs.writeFileSync(file, content.replace(/'\.\/generated\//g, `'${generatedImport}/`));
+        result.scaffolded.push(file);
+      }
+    }
+  }
+  return result;
+}
+
+function isGenerated(file: string): boolean {
+  return fs.readFileSync(file, 'utf8').startsWith(GENERATED_MARKER);
+}
+
+function toImportPath(relative: string): string {
+  const posix = relative.split(path.sep).join('/');
+  return posix.startsWith('.') ? posix : `./${posix}`;
+}
+
+interface ResolvedOptions {
+  source: string;
+  baseApiImport: string;
+  schemaValidatorImport: string;
+}
+
+interface OperationInfo {
+  method: OpenApiMethod;
+  path: string;
+  operation: OpenApiOperation;
+  parameters: OpenApiParameter[];
+}
+
+class ClientGenerator {
+  constructor(private readonly document: OpenApiDocument, private readonly options: ResolvedOptions) {}
+
+  generate(): GeneratedClient {
+    const files: Record<string, string> = { 'models.ts': this.renderModels() };
+    const extensions: Record<string, string> = {};
+    const skipped: string[] = [];
+
+    const byTag = new Map<string, OperationInfo[]>();
+    for (const [template, item] of Object.entries(this.document.paths)) {
+      for (const method of OPENAPI_METHODS) {
+        const operation = item[method];
+        if (!operation) continue;
+        const label = `${method.toUpperCase()} ${template}`;
+        const reason = this.unsupportedReason(operation);
+        if (reason) {
+          skipped.push(`${label}: ${reason}`);
+          continue;
+        }
+        const tag = operation.tags?.[0] ?? pascalCase(template.split('/').find(Boolean) ?? 'Default');
+        const parameters = [...(item.parameters ?? []), ...(operation.parameters ?? [])].map(p => this.deref<OpenApiParameter>(p));
+        byTag.set(tag, [...(byTag.get(tag) ?? []), { method, path: template, operation, parameters }]);
+      }
+    }
+
+    for (const [tag, operations] of byTag) {
+      const fileName = `${kebabCase(tag)}-api.ts`;
+      files[fileName] = this.renderApi(tag, operations);
+      extensions[fileName] = renderExtension(tag, fileName);
+    }
+    return { files, extensions, skipped };
+  }
+
+  private unsupportedReason(operation: OpenApiOperation): string | undefined {
+    if (!operation.operationId) return 'no operationId';
+    if (operation.requestBody) {
+      const content = this.deref<OpenApiRequestBody>(operation.requestBody).content;
+      if (!content[JSON_MEDIA_TYPE]) return `request body is not ${JSON_MEDIA_TYPE} (${Object.keys(content).join(', ')})`;
+    }
+    return undefined;
+  }
+
+  private header(): string[] {
+    const { title, version } = this.document.info;
+    return [
+      GENERATED_MARKER,
+      `// Generated by \`npm run generate:api\` from ${this.options.source} (${title} ${version}).`,
+      '// Regeneration overwrites this file; add behaviour in a subclass instead.',
+      ''
+    ];
+  }
+
+  // ---- models.ts ----
+
+  private renderModels(): string {
+    const lines = [...this.header(), `import { ObjectSchema } from '${this.options.schemaValidatorImport}';`];
+    for (const [name, schema] of Object.entries(this.document.components?.schemas ?? {})) {
+      lines.push('');
+      if (schema.type === 'string' && schema.enum) {
+        lines.push(...docComment(schema.description, ''));
+        lines.push(`export const ${name}Values = [${schema.enum.map(v => quote(String(v))).join(', ')}] as const;`);
+        lines.push('');
+        lines.push(`export type ${name} = typeof ${name}Values[number];`);
+      } else if (schema.type === 'object' || schema.properties) {
+        lines.push(...this.renderInterface(name, schema));
+        lines.push('');
+        lines.push(...this.renderObjectSchema(name, schema));
+      } else {
+        lines.push(...docComment(schema.description, ''));
+        lines.push(`export type ${name} = ${this.tsType(schema)};`);
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private renderInterface(name: string, schema: JsonSchema): string[] {
+    const required = new Set(schema.required ?? []);
+    const lines = [...docComment(schema.description, ''), `export interface ${name} {`];
+    for (const [field, fieldSchema] of Object.entries(schema.properties ?? {})) {
+      lines.push(...docComment(fieldSchema.description, INDENT));
+      lines.push(`${INDENT}${propertyName(field)}${required.has(field) ? '' : '?'}: ${this.tsType(fieldSchema)};`);
+    }
+    lines.push('}');
+    return lines;
+  }
+
+  private renderObjectSchema(name: string, schema: JsonSchema): string[] {
+    const required = new Set(schema.required ?? []);
+    const entries = Object.entries(schema.properties ?? {});
+    const lines = [`export const ${name}Schema: ObjectSchema<${name}> = {`, `${INDENT}name: ${quote(name)},`, `${INDENT}fields: {`];
+    entries.forEach(([field, fieldSchema], i) => {
+      const rule = this.fieldRule(fieldSchema, !required.has(field));
+      lines.push(`${INDENT}${INDENT}${propertyName(field)}: ${rule}${i < entries.length - 1 ? ',' : ''}`);
+    });
+    lines.push(`${INDENT}}`, '};');
+    return lines;
+  }
+
+  private fieldRule(schema: JsonSchema, optional: boolean): string {
+    const target = this.resolve(schema);
+    const parts = [`type: ${quote(target.type ?? 'object')}`];
+    if (optional) parts.push('optional: true');
+    if (schema.nullable || target.nullable) parts.push('nullable: true');
+    if (target.type === 'string' && target.enum) {
+      parts.push(`enum: ${schema.$ref ? `${refName(schema.$ref)}Values` : `[${target.enum.map(v => quote(String(v))).join(', ')}]`}`);
+    }
+    return `{ ${parts.join(', ')} }`;
+  }
+
+  private tsType(schema: JsonSchema): string {
+    let type: string;
+    if (schema.$ref) {
+      type = refName(schema.$ref);
+    } else if (schema.enum) {
+      type = schema.enum.map(v => typeof v === 'string' ? quote(v) : String(v)).join(' | ');
+    } else {
+      switch (schema.type) {
+        case 'string': type = 'string'; break;
+        case 'integer':
+        case 'number': type = 'number'; break;
+        case 'boolean': type = 'boolean'; break;
+        case 'array': {
+          const item = schema.items ? this.tsType(schema.items) : 'unknown';
+          type = /[ |]/.test(item) ? `(${item})[]` : `${item}[]`;
+          break;
+        }
+        default: type = schema.properties || schema.type === 'object' ? 'Record<string, unknown>' : 'unknown';
+      }
+    }
+    return schema.nullable ? `${type} | null` : type;
+  }
+
+  // ---- <tag>-api.ts ----
+
+  private renderApi(tag: string, operations: OperationInfo[]): string {
+    const models = new Set<string>();
+    const queryInterfaces: string[] = [];
+    const methods: string[] = [];
+
+    for (const info of operations) {
+      const rendered = this.renderOperation(info, models);
+      if (rendered.queryInterface) queryInterfaces.push(...rendered.queryInterface, '');
+      methods.push(...rendered.methods);
+    }
+
+    const lines = [
+      ...this.header(),
+      `import { BaseAPI } from '${this.options.baseApiImport}';`
+    ];
+    if (models.size > 0) {
+      lines.push(`import { ${[...models].sort().join(', ')} } from './models';`);
+    }
+    lines.push('', ...queryInterfaces);
+    const description = this.document.tags?.find(t => t.name === tag)?.description;
+    lines.push(`/**`, ` * ${description ?? `${tag} operations`}`, ` */`);
+    lines.push(`export class Generated${tag}Api extends BaseAPI {`);
+    lines.push(...methods.slice(1));
+    lines.push('}');
+    return lines.join('\n') + '\n';
+  }
+
+  private renderOperation(info: OperationInfo, models: Set<string>): { methods: string[]; queryInterface?: string[] } {
+    const { method, operation } = info;
+    const name = operation.operationId!;
+    const pathParams = info.parameters.filter(p => p.in === 'path');
+    const queryParams = info.parameters.filter(p => p.in === 'query');
+    const idempotent = info.parameters.some(p => p.in === 'header' && p.name.toLowerCase() === 'idempotency-key');
+
+    const params: string[] = [];
+    const args: string[] = [];
+    for (const p of pathParams) {
+      params.push(`${camelCase(p.name)}: ${this.paramType(p, models)}`);
+      args.push(camelCase(p.name));
+    }
+
+    if (operation.requestBody) {
+      const requestBody = this.deref<OpenApiRequestBody>(operation.requestBody);
+      const schema = requestBody.content[JSON_MEDIA_TYPE].schema;
+      this.collectModels(schema, models);
+      params.push(`body${requestBody.required ? '' : '?'}: ${schema ? this.tsType(schema) : 'unknown'}`);
+      args.push('body');
+    }
+
+    let queryInterface: string[] | undefined;
+    if (queryParams.length > 0) {
+      const queryType = `${pascalCase(name)}Query`;
+      queryInterface = [`/**`, ` * Query parameters of ${name}`, ` */`, `export interface ${queryType} {`];
+      for (const p of queryParams) {
+        queryInterface.push(...docComment(p.description, INDENT));
+        queryInterface.push(`${INDENT}${propertyName(p.name)}${p.required ? '' : '?'}: ${this.paramType(p, models)};`);
+      }
+      queryInterface.push('}');
+      const allOptional = queryParams.every(p => !p.required);
+      params.push(`query: ${queryType}${allOptional ? ' = {}' : ''}`);
+      args.push('query');
+    }
+    if (idempotent) {
+      params.push('idempotencyKey?: string');
+      args.push('idempotencyKey');
+    }
+
+    const urlPath = info.path.replace(/\{([^}]+)\}/g, (_, p: string) => `\${${camelCase(p)}}`);
+    const statements: string[] = [];
+    let url = pathParams.length === 0 ? quote(info.path) : '`' + urlPath + '`';
+    if (queryInterface) {
+      statements.push(`${INDENT}${INDENT}const params = this.buildQuery({`);
+      queryParams.forEach((p, i) => {
+        const comma = i < queryParams.length - 1 ? ',' : '';
+        statements.push(`${INDENT}${INDENT}${INDENT}${propertyName(p.name)}: ${this.queryValue(p, propertyAccess('query', p.name))}${comma}`);
+      });
+      statements.push(`${INDENT}${INDENT}});`);
+      url = '`' + urlPath + '${params}`';
+    }
+
+    const call = ['get', 'delete'].includes(method)
+      ? `this.${method}(${url}${idempotent ? ', this.idempotencyOptions(idempotencyKey)' : ''})`
+      : `this.${method}(${url}${operation.requestBody ? ', body' : ', undefined'}${idempotent ? ', this.idempotencyOptions(idempotencyKey)' : ''})`;
+
+    const methods = [''];
+    methods.push(...docComment(this.operationDoc(info), INDENT));
+    methods.push(`${INDENT}async ${name}(${params.join(', ')}) {`);
+    methods.push(...statements);
+    methods.push(`${INDENT}${INDENT}return await ${call};`);
+    methods.push(`${INDENT}}`);
+
+    const typed = this.typedResult(operation, models);
+    if (typed) {
+      methods.push('');
+      methods.push(`${INDENT}async ${name}Typed(${params.join(', ')}): Promise<${typed.type}> {`);
+      methods.push(`${INDENT}${INDENT}return await this.${typed.parser}(await this.${name}(${args.join(', ')}), ${typed.schema});`);
+      methods.push(`${INDENT}}`);
+    }
+    return { methods, queryInterface };
+  }
+
+  private operationDoc(info: OperationInfo): string {
+    const statuses = Object.keys(info.operation.responses).join(', ');
+    const route = `${info.method.toUpperCase()} ${info.path} -> ${statuses}`;
+    return info.operation.summary ? `${info.operation.summary}\n${route}` : route;
+  }
+
+  /** Parser for the first 2xx response with a JSON body whose schema is a named object or an array of one */
+  private typedResult(operation: OpenApiOperation, models: Set<string>): { type: string; parser: string; schema: string } | undefined {
+    const success = Object.keys(operation.responses).filter(code => /^2\d\d$/.test(code)).sort()[0];
+    if (!success) return undefined;
+    const response = this.deref<OpenApiResponse>(operation.responses[success]);
+    const schema = response.content?.[JSON_MEDIA_TYPE]?.schema;
+    if (schema?.$ref && this.isObjectModel(schema.$ref)) {
+      const model = refName(schema.$ref);
+      models.add(model).add(`${model}Schema`);
+      return { type: model, parser: 'parseAs', schema: `${model}Schema` };
+    }
+    if (schema?.type === 'array' && schema.items?.$ref && this.isObjectModel(schema.items.$ref)) {
+      const model = refName(schema.items.$ref);
+      models.add(model).add(`${model}Schema`);
+      return { type: `${model}[]`, parser: 'parseArrayAs', schema: `${model}Schema` };
+    }
+    return undefined;
+  }
+
+  private paramType(parameter: OpenApiParameter, models: Set<string>): string {
+    this.collectModels(parameter.schema, models);
+    return parameter.schema ? this.tsType(parameter.schema) : 'string';
+  }
+
+  private queryValue(parameter: OpenApiParameter, expression: string): string {
+    const type = parameter.schema && this.resolve(parameter.schema).type;
+    if (type === 'boolean') return `${expression} === undefined ? undefined : String(${expression})`;
+    if (type === 'array') return `${expression}?.join(',')`;
+    return expression;
+  }
+
+  private collectModels(schema: JsonSchema | undefined, models: Set<string>): void {
+    if (!schema) return;
+    if (schema.$ref) models.add(refName(schema.$ref));
+    if (schema.items) this.collectModels(schema.items, models);
+  }
+
+  private isObjectModel(ref: string): boolean {
+    const schema = resolveRef(this.document, ref);
+    return schema.type === 'object' || schema.properties !== undefined;
+  }
+
+  private resolve(schema: JsonSchema): JsonSchema {
+    return schema.$ref ? this.resolve(resolveRef(this.document, schema.$ref)) : schema;
+  }
+
+  private deref<T extends object>(node: T | { $ref: string }): T {
+    return '$ref' in node ? resolveRef<T>(this.document, node.$ref) : node;
+  }
+}
+
+function renderExtension(tag: string, fileName: string): string {
+  const module = fileName.replace(/\.ts$/, '');
+  return [
+    `import { Generated${tag}Api } from './generated/${module}';`,
+    '',
+    '/**',
+    ` * ${tag} API client. Add hand-written helpers here; the generated base class is rewritten on regeneration.`,
+    ' */',
+    `export class ${tag}Api extends Generated${tag}Api {`,
+    '}',
+    ''
+  ].join('\n');
+}
+
+function docComment(text: string | undefined, indent: string): string[] {
+  if (!text) return [];
+  const lines = text.split('\n');
+  if (lines.length === 1 && indent) return [`${indent}/** ${lines[0]} */`];
+  return [`${indent}/**`, ...lines.map(line => `${indent} * ${line}`), `${indent} */`];
+}
+
+function refName(ref: string): string {
+  return ref.slice(ref.lastIndexOf('/') + 1);
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+}
+
+function propertyAccess(object: string, name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? `${object}.${name}` : `${object}[${quote(name)}]`;
+}
+
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function pascalCase(value: string): string {
+  return words(value).map(w => w[0].toUpperCase() + w.slice(1)).join('');
+}
+
+function camelCase(value: string): string {
+  const pascal = pascalCase(value);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+function kebabCase(value: string): string {
+  return words(value).map(w => w.toLowerCase()).join('-');
+}
@@ -0,0 +1,53 @@
+/**
+ * Config Check CLI
+ *
+ * Usage: npm run config:check -- [--env <profile>] [--projects ui,api]
+ *
+ * Resolves the configuration the way test-config.ts does (profile, .env files, environment, secrets),
+ * prints every key with the layer it came from (secrets masked) and lists all problems.
+ * Exits with 1 when the configuration is invalid (2 on usage errors), so CI can run it before the tests.
+ */
+
+import { ConfigValidationError, TEST_PROJECTS, TestProject, formatIssue, parseList } from './config-schema';
+import { ENV_DIR, describeEnvironment, loadConfiguration, readProfile } from './env-profiles';
+
+function main(argv: string[]): number {
+  const env = { ...process.env };
+  let projects: TestProject[] | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--env') {
+      env.TEST_ENV = argv[++i];
+    } else if (argv[i] === '--projects') {
+      const names = parseList(argv[++i]);
+      const unknown = names.filter(name => !(TEST_PROJECTS as readonly string[]).includes(name));
+      if (names.length === 0 || unknown.length > 0) {
+        throw new Error(`Unknown project(s): ${unknown.join(', ') || '(none given)'} (expected ${TEST_PROJECTS.join(', ')})`);
+      }
+      projects = names as TestProject[];
+    } else {
+      throw new Error('Usage: npm run config:check -- [--env <profile>] [--projects ui,api]');
+    }
+  }
+
+  const config = loadConfiguration(readProfile(env), ENV_DIR, env, projects);
+  console.log(`Profile: ${config.resolved.profile} (projects: ${config.projects.join(', ')})`);
+  describeEnvironment(config.resolved).forEach(line => console.log(`  ${line}`));
+
+  const issues = config.issues;
+  if (issues.length === 0) {
+    console.log('Configuration OK');
+    return 0;
+  }
+  console.log(`${issues.length} problem(s):`);
+  issues.forEach(issue => console.log(formatIssue(issue)));
+  return 1;
+}
+
+if (require.main === module) {
+  try {
+    process.exit(main(process.argv.slice(2)));
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(e instanceof ConfigValidationError ? 1 : 2);
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Configuration Schema
+ *
+ * Every environment variable read by test-config.ts, with its type, default and when it is
+ * required. validateConfig() checks a resolved environment (see env-profiles.ts) against it
+ * and returns every problem at once, so a misconfigured run fails before any test starts
+ * instead of sending requests with a `NaN` timeout.
+ *
+ * Some keys are only required by one test project: UI_BASE_URL by `ui`, PAYROLL_API_BASE_URL
+ * by `api`. TEST_PROJECTS selects the projects a run needs (default: both).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_RETRY_CONFIG } from '../api/retry-policy';
+import { CONTRACT_VIOLATION_KINDS } from '../contract/openapi-contract';
+import { CASSETTE_MATCH_RULES, CASSETTE_MODES } from '../cassette/cassette';
+import { LATENCY_BUDGET_MODES } from '../perf/latency';
+import { BUILT_IN_LOG_SINKS, LOG_CAPTURE_MODES, LOG_FORMATS, LOG_LEVELS } from '../utils/log-settings';
+import { SECRETS_PROVIDERS } from './secrets-provider';
+
+export const TEST_PROJECTS = ['ui', 'api'] as const;
+export type TestProject = typeof TEST_PROJECTS[number];
+
+/**
+ * Environment values by name; unset keys are missing or undefined
+ */
+export type EnvValues = Record<string, string | undefined>;
+
+/**
+ * - string: any non-empty value
+ * - url: absolute http(s) URL
+ * - integer: whole number within `min`/`max`
+ * - integer-list: comma-separated integers within `min`/`max`
+ * - enum: one of `values` (case-insensitive)
+ * - list: comma-separated, each one of `values` when given
+ * - file: path to an existing file, relative to the working directory
+ */
+export type ConfigValueType = 'string' | 'url' | 'integer' | 'integer-list' | 'enum' | 'list' | 'file';
+
+/**
+ * One configuration key
+ */
+export interface ConfigKey {
+  name: string;
+  type: ConfigValueType;
+  description: string;
+  /** Used when no profile, .env file or environment variable sets the key */
+  default?: string;
+  values?: readonly string[];
+  min?: number;
+  max?: number;
+  /** Masked when the configuration is printed, and in logs */
+  secret?: boolean;
+  /** Required when one of these projects runs (and `requiredWhen` holds, if given) */
+  requiredFor?: readonly TestProject[];
+  /** Required when another key has this value, e.g. `['API_AUTH_TYPE', 'basic']` */
+  requiredWhen?: readonly [key: string, value: string];
+}
+
+/**
+ * A problem with one key
+ */
+export interface ConfigIssue {
+  key: string;
+  message: string;
+  /** Layer the offending value came from, e.g. `.env.qa` */
+  source?: string;
+}
+
+/**
+ * Thrown when the configuration is invalid; lists every problem found
+ */
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: ConfigIssue[], context = '') {
+    super(`Invalid test configuration${context ? ` (${context})` : ''}:\n${issues.map(formatIssue).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+export const CONFIG_SCHEMA: readonly ConfigKey[] = [
+  { name: 'TEST_PROJECTS', type: 'list', values: TEST_PROJECTS, default: TEST_PROJECTS.join(','), description: 'Test projects to run' },
+  { name: 'UI_BASE_URL', type: 'url', requiredFor: ['ui'], description: 'Application under test' },
+  { name: 'UI_USERNAME', type: 'string', default: 'tomsmith', description: 'UI login user' },
+  { name: 'UI_PASSWORD', type: 'string', secret: true, requiredFor: ['ui'], description: 'UI login password' },
+  { name: 'PAYROLL_API_MODE', type: 'enum', values: ['live', 'mock'], default: 'live', description: 'live backend or in-process mock server' },
+  { name: 'PAYROLL_API_BASE_URL', type: 'url', requiredFor: ['api'], requiredWhen: ['PAYROLL_API_MODE', 'live'], description: 'Payroll API base URL (ignored in mock mode)' },
+  { name: 'MOCK_API_PORT', type: 'integer', min: 1, max: 65535, default: '8089', description: 'Mock server port' },
+  { name: 'API_TIMEOUT', type: 'integer', min: 1, default: '20000', description: 'API request timeout (ms)' },
+  { name: 'API_AUTH_TYPE', type: 'enum', values: ['none', 'basic', 'bearer', 'oauth2'], default: 'none', description: 'API authentication strategy' },
+  { name: 'API_AUTH_USERNAME', type: 'string', requiredWhen: ['API_AUTH_TYPE', 'basic'], description: 'Basic auth user' },
+  { name: 'API_AUTH_PASSWORD', type: 'string', secret: true, requiredWhen: ['API_AUTH_TYPE', 'basic'], description: 'Basic auth password' },
+  { name: 'API_AUTH_TOKEN', type: 'string', secret: true, requiredWhen: ['API_AUTH_TYPE', 'bearer'], description: 'Bearer token' },
+  { name: 'API_OAUTH_TOKEN_URL', type: 'url', description: 'OAuth2 token endpoint (default: <api base url>/oauth/token)' },
+  { name: 'API_OAUTH_CLIENT_ID', type: 'string', requiredWhen: ['API_AUTH_TYPE', 'oauth2'], description: 'OAuth2 client ID' },
+  { name: 'API_OAUTH_CLIENT_SECRET', type: 'string', secret: true, requiredWhen: ['API_AUTH_TYPE', 'oauth2'], description: 'OAuth2 client secret' },
+  { name: 'API_OAUTH_SCOPE', type: 'string', description: 'OAuth2 scope' },
+  { name: 'API_RETRY_MAX_ATTEMPTS', type: 'integer', min: 1, default: String(DEFAULT_RETRY_CONFIG.maxAttempts), description: 'Attempts per request, including the first' },
+  { name: 'API_RETRY_STATUSES', type: 'integer-list', min: 100, max: 599, default: DEFAULT_RETRY_CONFIG.retryOnStatuses.join(','), description: 'Statuses that are retried' },
+  { name: 'API_RETRY_BASE_DELAY_MS', type: 'integer', min: 0, default: String(DEFAULT_RETRY_CONFIG.baseDelayMs), description: 'First retry delay (ms)' },
+  { name: 'API_RETRY_MAX_DELAY_MS', type: 'integer', min: 0, default: String(DEFAULT_RETRY_CONFIG.maxDelayMs), description: 'Longest retry delay (ms)' },
+  { name: 'API_CONTRACT_SPEC', type: 'file', description: 'OpenAPI document every call is checked against' },
+  { name: 'API_CONTRACT_FAIL_ON', type: 'list', values: CONTRACT_VIOLATION_KINDS, description: 'Contract violation kinds that fail the call' },
+  { name: 'API_CASSETTE_MODE', type: 'enum', values: CASSETTE_MODES, default: 'off', description: 'Record or replay API exchanges' },
+  { name: 'API_CASSETTE_DIR', type: 'string', default: 'tests/cassettes', description: 'Cassette directory' },
+  { name: 'API_CASSETTE_MATCH', type: 'list', values: CASSETTE_MATCH_RULES, default: CASSETTE_MATCH_RULES.join(','), description: 'Request parts a replayed call must match' },
+  { name: 'API_CASSETTE_IGNORE_BODY_FIELDS', type: 'list', description: 'Request body fields ignored when matching' },
+  { name: 'API_LATENCY_BUDGETS', type: 'enum', values: LATENCY_BUDGET_MODES, default: 'enforce', description: 'What an exceeded latency budget does' },
+  { name: 'API_LATENCY_SPEC', type: 'file', default: 'openapi/tw-payroll-system.json', description: 'OpenAPI document naming endpoints in latency reports' },
+  { name: 'SECRETS_PROVIDER', type: 'enum', values: SECRETS_PROVIDERS, default: 'env', description: 'Where secret settings come from' },
+  { name: 'SECRETS_FILE', type: 'file', requiredWhen: ['SECRETS_PROVIDER', 'file'], description: 'Encrypted secrets file' },
+  { name: 'SECRETS_KEY', type: 'string', secret: true, requiredWhen: ['SECRETS_PROVIDER', 'file'], description: 'Passphrase of the secrets file' },
+  { name: 'SECRETS_COMMAND', type: 'string', requiredWhen: ['SECRETS_PROVIDER', 'command'], description: 'Command printing a secret ({key} = setting name)' },
+  { name: 'SECRETS_COMMAND_TIMEOUT_MS', type: 'integer', min: 1, default: '10000', description: 'Longest time one secret command may take (ms)' },
+  { name: 'LOG_LEVEL', type: 'enum', values: LOG_LEVELS.map(level => level.toLowerCase()), default: 'info', description: 'Entries below this level are dropped' },
+  { name: 'LOG_FORMAT', type: 'enum', values: LOG_FORMATS, default: 'text', description: 'Format of the log files' },
+  { name: 'LOG_SINKS', type: 'list', values: BUILT_IN_LOG_SINKS, default: 'console,file', description: 'Built-in log sinks' },
+  { name: 'LOG_DIR', type: 'string', description: 'Log directory (default: test-results/logs)' },
+  { name: 'LOG_RETENTION_RUNS', type: 'integer', min: 0, default: '2', description: 'Previous run logs kept' },
+  { name: 'LOG_RETENTION_DAYS', type: 'integer', min: 0, description: 'Previous run logs older than this are deleted' },
+  { name: 'LOG_REDACTION', type: 'enum', values: ['on', 'off'], default: 'on', description: 'Mask secrets and personal data in logs (off for local debugging only)' },
+  { name: 'LOG_REDACT_KEYS', type: 'string', description: 'Extra field name patterns to mask, comma-separated' },
+  { name: 'LOG_REDACT_PATTERNS', type: 'string', description: 'Extra value patterns to mask, separated by ;' },
+  { name: 'LOG_CAPTURE', type: 'enum', values: LOG_CAPTURE_MODES, default: 'on', description: 'When each test\'s log lines are attached' },
+  { name: 'DEFAULT_TIMEOUT', type: 'integer', min: 1, default: '20000', description: 'Default timeout for test operations (ms)' }
+];
+
+/**
+ * Check a resolved environment against the schema
+ * @param env - Resolved values (see resolveEnvironment())
+ * @param projects - Test projects that will run
+ * @param sources - Layer each value came from, quoted in the issues
+ * @returns Every problem found; empty when the configuration is valid
+ */
+export function validateConfig(env: EnvValues, projects: readonly TestProject[], sources: Record<string, string> = {}): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  for (const key of CONFIG_SCHEMA) {
+    const value = env[key.name];
+    if (value === undefined || value === '') {
+      const requirement = describeRequirement(key, env, projects);
+      if (requirement) {
+        issues.push({ key: key.name, message: `is required ${requirement}` });
+      }
+      continue;
+    }
+    const problem = checkValue(key, value);
+    if (problem) {
+      issues.push({ key: key.name, message: problem, source: sources[key.name] });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Parse a comma-separated list, dropping blanks
+ */
+export function parseList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * One line per issue, as printed by ConfigValidationError and config:check
+ */
+export function formatIssue(issue: ConfigIssue): string {
+  return `  - ${issue.key} ${issue.message}${issue.source ? ` (from ${issue.source})` : ''}`;
+}
+
+/**
+ * Why a key is required (e.g. 'by the ui project'), or undefined when it is optional
+ * @param key - Schema entry
+ * @param env - Resolved values
+ * @param projects - Test projects that will run
+ */
+export function describeRequirement(key: ConfigKey, env: EnvValues, projects: readonly TestProject[]): string | undefined {
+  if (!key.requiredFor && !key.requiredWhen) return undefined;
+  const needing = key.requiredFor?.filter(project => projects.includes(project));
+  if (needing?.length === 0) return undefined;
+  if (key.requiredWhen) {
+    const [other, value] = key.requiredWhen;
+    if (env[other]?.toLowerCase() !== value) return undefined;
+  }
+  return [
+    needing && `by the ${needing.join(' and ')} project`,
+    key.requiredWhen && `when ${key.requiredWhen[0]}=${key.requiredWhen[1]}`
+  ].filter(Boolean).join(' ');
+}
+
+/** Why a set value is invalid, or undefined when it is valid */
+function checkValue(key: ConfigKey, value: string): string | undefined {
+  const quoted = JSON.stringify(value);
+  switch (key.type) {
+    case 'string':
+      return undefined;
+    case 'url':
+      try {
+        const url = new URL(value);
+        return ['http:', 'https:'].includes(url.protocol) ? undefined : `must be an http(s) URL, got ${quoted}`;
+      } catch {
+        return `must be an absolute URL, got ${quoted}`;
+      }
+    case 'integer':
+      return checkInteger(key, value);
+    case 'integer-list': {
+      const problems = parseList(value).map(item => checkInteger(key, item)).filter(Boolean);
+      return problems.length > 0 ? problems.join('; ') : undefined;
+    }
+    case 'enum':
+      return key.values!.includes(value.toLowerCase()) ? undefined : `must be one of ${key.values!.join(', ')}, got ${quoted}`;
+    case 'list': {
+      if (!key.values) return undefined;
+      const unknown = parseList(value).filter(item => !key.values!.includes(item));
+      return unknown.length === 0 ? undefined : `has unknown entries ${unknown.join(', ')} (expected ${key.values.join(', ')})`;
+    }
+    case 'file':
+      return fs.existsSync(path.resolve(value)) ? undefined : `points to a missing file: ${value}`;
+  }
+}
+
+function checkInteger(key: ConfigKey, value: string): string | undefined {
+  if (!/^-?\d+$/.test(value)) return `must be an integer, got ${JSON.stringify(value)}`;
+  const number = parseInt(value, 10);
+  if (key.min !== undefined && number < key.min) return `must be at least ${key.min}, got ${number}`;
+  if (key.max !== undefined && number > key.max) return `must be at most ${key.max}, got ${number}`;
+  return undefined;
+}
@@ -0,0 +1,36 @@
+/**
+ * Encrypt Secrets CLI
+ *
+ * Usage: SECRETS_KEY=<passphrase> npm run secrets:encrypt -- <secrets.json> <encrypted.json>
+ *
+ * Encrypts a plain JSON object of settings (e.g. `{ "UI_PASSWORD": "..." }`) for the `file`
+ * secrets provider. Keep the plain file out of the repository; the encrypted one can be
+ * committed and is read with SECRETS_PROVIDER=file SECRETS_FILE=<encrypted.json>.
+ */
+
+import fs from 'fs';
+import { encryptSecrets } from './secrets-provider';
+
+function main(argv: string[]): void {
+  const passphrase = process.env.SECRETS_KEY?.trim();
+  if (argv.length !== 2 || !passphrase) {
+    throw new Error('Usage: SECRETS_KEY=<passphrase> npm run secrets:encrypt -- <secrets.json> <encrypted.json>');
+  }
+  const [input, output] = argv;
+  const secrets = JSON.parse(fs.readFileSync(input, 'utf8'));
+  const invalid = Object.entries(secrets ?? {}).filter(([, value]) => typeof value !== 'string').map(([key]) => key);
+  if (!secrets || typeof secrets !== 'object' || Array.isArray(secrets) || invalid.length > 0) {
+    throw new Error(`${input} must be a JSON object of string values${invalid.length > 0 ? ` (not strings: ${invalid.join(', ')})` : ''}`);
+  }
+  fs.writeFileSync(output, JSON.stringify(encryptSecrets(secrets, passphrase), null, 2) + '\n');
+  console.log(`Encrypted ${Object.keys(secrets).length} secret(s) to ${output}`);
+}
+
+if (require.main === module) {
+  try {
+    main(process.argv.slice(2));
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Environment Profiles
+ *
+ * A profile (TEST_ENV: local, qa, uat or mock) names a target environment. The configuration
+ * for a run is merged from layers, later ones winning:
+ * 1. schema defaults (config-schema.ts)
+ * 2. the profile's defaults below
+ * 3. src/config/.env
+ * 4. src/config/.env.<profile>
+ * 5. the process environment
+ * Blank values are treated as unset, so they never hide a lower layer's value.
+ * Secret settings are then looked up with the selected secrets provider (secrets-provider.ts).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import {
+  CONFIG_SCHEMA, ConfigIssue, ConfigValidationError, EnvValues, TEST_PROJECTS, TestProject, describeRequirement, parseList, validateConfig
+} from './config-schema';
+import { createSecretsProvider, resolveSecrets } from './secrets-provider';
+import { REDACTED, Redactor } from '../utils/redactor';
+import { REPO_ROOT } from '../utils/paths';
+
+export const ENV_PROFILES = ['local', 'qa', 'uat', 'mock'] as const;
+
+/** Directory of the .env files; they stay next to the sources when the CLIs run compiled from dist/src/config */
+export const ENV_DIR = path.join(REPO_ROOT, 'src', 'config');
+export type EnvProfile = typeof ENV_PROFILES[number];
+
+/**
+ * Values each profile sets before any .env file is read. Shared environments (qa, uat) set
+ * none: their URLs and secrets must come from .env.<profile>, the environment or the secrets
+ * provider, never from a default. Only the local profile has a (public demo) password.
+ */
+export const PROFILE_DEFAULTS: Record<EnvProfile, EnvValues> = {
+  local: {
+    UI_BASE_URL: 'https://the-internet.herokuapp.com',
+    UI_PASSWORD: 'SuperSecretPassword!',
+    PAYROLL_API_BASE_URL: 'http://localhost:8080/tw-payroll-system/api'
+  },
+  qa: {},
+  uat: {},
+  mock: {
+    PAYROLL_API_MODE: 'mock',
+    API_CONTRACT_SPEC: 'openapi/tw-payroll-system.json'
+  }
+};
+
+/**
+ * Merged configuration of a profile
+ */
+export interface ResolvedEnvironment {
+  profile: EnvProfile;
+  values: Record<string, string>;
+  /** Layer each value came from: 'default', 'profile <name>', '.env', '.env.<profile>', 'environment' or 'secrets <provider>' */
+  sources: Record<string, string>;
+}
+
+/**
+ * Resolved and validated configuration
+ */
+export interface LoadedConfiguration {
+  resolved: ResolvedEnvironment;
+  projects: TestProject[];
+  /** Every problem found; empty when the configuration is valid */
+  issues: ConfigIssue[];
+}
+
+/**
+ * Read the profile from TEST_ENV (default local)
+ * @throws ConfigValidationError for an unknown profile
+ */
+export function readProfile(env: EnvValues = process.env): EnvProfile {
+  const profile = (env.TEST_ENV?.trim() || 'local').toLowerCase();
+  if (!(ENV_PROFILES as readonly string[]).includes(profile)) {
+    throw new ConfigValidationError([{ key: 'TEST_ENV', message: `must be one of ${ENV_PROFILES.join(', ')}, got ${JSON.stringify(profile)}` }]);
+  }
+  return profile as EnvProfile;
+}
+
+/**
+ * Merge the configuration layers of a profile
+ * @param profile - Target environment
+ * @param envDir - Directory holding the .env files
+ * @param env - Process environment (the top layer)
+ */
+export function resolveEnvironment(profile: EnvProfile, envDir: string, env: EnvValues = process.env): ResolvedEnvironment {
+  const defaults = Object.fromEntries(CONFIG_SCHEMA.filter(key => key.default !== undefined).map(key => [key.name, key.default]));
+  const layers: [string, EnvValues][] = [
+    ['default', defaults],
+    [`profile ${profile}`, PROFILE_DEFAULTS[profile]],
+    ['.env', readEnvFile(path.join(envDir, '.env'))],
+    [`.env.${profile}`, readEnvFile(path.join(envDir, `.env.${profile}`))]
+  ];
+  // The process environment only contributes the keys the lower layers or the schema know about
+  const known = new Set([...CONFIG_SCHEMA.map(key => key.name), ...layers.flatMap(([, values]) => Object.keys(values))]);
+  layers.push(['environment', Object.fromEntries([...known].map(name => [name, env[name]]))]);
+
+  const resolved: ResolvedEnvironment = { profile, values: {}, sources: {} };
+  for (const [source, values] of layers) {
+    for (const [name, value] of Object.entries(values)) {
+      const trimmed = value?.trim();
+      if (!trimmed) continue;
+      resolved.values[name] = trimmed;
+      resolved.sources[name] = source;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Resolve a profile's layers and secrets, then validate the result
+ * @param profile - Target environment
+ * @param envDir - Directory holding the .env files
+ * @param env - Process environment
+ * @param projects - Test projects that will run (default: TEST_PROJECTS)
+ */
+export function loadConfiguration(profile: EnvProfile, envDir: string, env: EnvValues = process.env, projects?: TestProject[]): LoadedConfiguration {
+  const resolved = resolveEnvironment(profile, envDir, env);
+  projects ??= selectedProjects(resolved);
+  const settingsIssues = validateConfig(resolved.values, projects, resolved.sources);
+  if (settingsIssues.some(issue => issue.key.startsWith('SECRETS_'))) {
+    // Without a working provider, its secrets cannot be checked
+    return { resolved, projects, issues: settingsIssues };
+  }
+
+  // The provider's own settings (SECRETS_KEY) come from the environment layers
+  const provider = createSecretsProvider(resolved.values);
+  const secretKeys = CONFIG_SCHEMA
+    .filter(key => key.secret && !key.name.startsWith('SECRETS_') && describeRequirement(key, resolved.values, projects!))
+    .map(key => key.name);
+  const secrets = resolveSecrets(provider, secretKeys);
+  for (const [name, value] of Object.entries(secrets.values)) {
+    if (value === resolved.values[name]) continue;
+    resolved.values[name] = value;
+    resolved.sources[name] = `secrets ${provider.name}`;
+  }
+  const failed = new Set(secrets.issues.map(issue => issue.key));
+  const issues = validateConfig(resolved.values, projects, resolved.sources)
+    .filter(issue => !failed.has(issue.key))
+    .map(issue => secretKeys.includes(issue.key) && resolved.values[issue.key] === undefined
+      ? { ...issue, message: `${issue.message}; secrets provider ${provider.description} has no value for it` }
+      : issue);
+  return { resolved, projects, issues: [...issues, ...secrets.issues] };
+}
+
+/**
+ * The test projects selected by TEST_PROJECTS
+ */
+export function selectedProjects(resolved: ResolvedEnvironment): TestProject[] {
+  return parseList(resolved.values.TEST_PROJECTS)
+    .filter((project): project is TestProject => (TEST_PROJECTS as readonly string[]).includes(project));
+}
+
+/**
+ * Resolved schema keys as aligned `KEY  value  (source)` lines. Secret keys are always masked;
+ * other values go through the redactor, which masks e.g. emails.
+ * @param resolved - Merged configuration
+ * @param redactor - Redaction rules for non-secret values
+ */
+export function describeEnvironment(resolved: ResolvedEnvironment, redactor: Redactor = Redactor.fromEnv()): string[] {
+  const rows = CONFIG_SCHEMA
+    .filter(key => resolved.values[key.name] !== undefined)
+    .map(key => [key.name, key.secret ? REDACTED : redactor.redactText(resolved.values[key.name]), resolved.sources[key.name]]);
+  const nameWidth = Math.max(...rows.map(([name]) => name.length));
+  const valueWidth = Math.max(...rows.map(([, value]) => value.length));
+  return rows.map(([name, value, source]) => `${name.padEnd(nameWidth)}  ${value.padEnd(valueWidth)}  (${source})`);
+}
+
+function readEnvFile(filePath: string): EnvValues {
+  return fs.existsSync(filePath) ? dotenv.parse(fs.readFileSync(filePath)) : {};
+}
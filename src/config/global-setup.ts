@@ -0,0 +1,58 @@
+/**
+ * Global Setup
+ *
+ * Playwright globalSetup hook, run once before any worker launches.
+ * - Starts the run log (rotating the previous one), which the workers append to.
+ * - Logs the configuration profile, and at DEBUG level every resolved setting (secrets masked).
+ * - Fixes the test data seed for the run (TEST_DATA_SEED) so workers inherit it
+ *   and the run can be reproduced.
+ * - When PAYROLL_API_MODE=mock, starts the payroll mock server on MOCK_API_PORT.
+ * - When API_CONTRACT_SPEC is set, clears the previous contract violations.
+ * - Clears the previous run's request timings.
+ * The returned teardown stops the mock server and writes test-results/contract-report.json
+ * and test-results/latency-report.json.
+ */
+
+import { resolvedEnvironment, testConfig } from './test-config';
+import { describeEnvironment } from './env-profiles';
+import { logger } from '../utils/logger';
+import { getRunSeed } from '../data/test-data-factory';
+import { PayrollMockServer } from '../mock/payroll-mock-server';
+import { CONTRACT_REPORT_PATH, clearContractRun, writeContractReport } from '../contract/contract-report';
+import { LATENCY_REPORT_PATH, clearLatencyRun, writeLatencyReport } from '../perf/latency-report';
+
+export default async function globalSetup(): Promise<() => Promise<void>> {
+  logger.startRun();
+  logger.info(`Configuration profile: ${testConfig.profile} (projects: ${testConfig.projects.join(', ')})`);
+  describeEnvironment(resolvedEnvironment, logger.redactor).forEach(line => logger.debug(`  ${line}`));
+
+  const seed = getRunSeed();
+  logger.info(`Test data seed: ${seed} (reproduce with TEST_DATA_SEED=${seed})`);
+
+  const contractSpec = testConfig.api.contract.specPath;
+  if (contractSpec) {
+    clearContractRun();
+    logger.info(`API calls will be checked against contract: ${contractSpec}`);
+  }
+
+  clearLatencyRun();
+
+  let server: PayrollMockServer | undefined;
+  if (testConfig.api.mode === 'mock') {
+    server = new PayrollMockServer({ port: testConfig.api.mockPort });
+    await server.start();
+    logger.info(`API tests will run against mock server: ${testConfig.api.baseUrl}`);
+  }
+
+  return async () => {
+    await server?.stop();
+    if (contractSpec) {
+      const total = writeContractReport();
+      logger.info(`Contract report: ${total} violation(s) written to ${CONTRACT_REPORT_PATH}`);
+    }
+    const latency = writeLatencyReport(testConfig.profile, testConfig.api.baseUrl);
+    if (latency.total > 0) {
+      logger.info(`Latency report: ${latency.total} request(s) to ${Object.keys(latency.endpoints).length} endpoint(s) written to ${LATENCY_REPORT_PATH}`);
+    }
+  };
+}
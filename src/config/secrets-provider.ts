@@ -0,0 +1,220 @@
+/**
+ * Secrets Providers
+ *
+ * Where test-config.ts gets the values of secret settings (schema keys marked `secret`, e.g.
+ * UI_PASSWORD and API_OAUTH_CLIENT_SECRET). SECRETS_PROVIDER picks one:
+ * - env (default): environment variables and .env files, like every other setting
+ * - file: an AES-256-GCM encrypted JSON file (SECRETS_FILE), decrypted with SECRETS_KEY
+ *   (create it with `npm run secrets:encrypt`)
+ * - command: a local CLI (SECRETS_COMMAND) run once per secret, printing the value on stdout,
+ *   e.g. a password manager's `read` command
+ * Lookups are synchronous because the configuration is built when Playwright loads its config.
+ * A secret the provider does not have falls back to the environment layers; a provider that
+ * fails is reported by name.
+ */
+
+import { execSync } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { ConfigIssue, EnvValues } from './config-schema';
+
+export const SECRETS_PROVIDERS = ['env', 'file', 'command'] as const;
+export type SecretsProviderName = typeof SECRETS_PROVIDERS[number];
+
+/**
+ * Contract for a source of secret values
+ */
+export interface SecretsProvider {
+  readonly name: SecretsProviderName;
+  /** Provider and its location, used in error messages, e.g. `file (src/config/secrets.qa.json)` */
+  readonly description: string;
+
+  /**
+   * Look up a secret
+   * @param key - Setting name, e.g. UI_PASSWORD
+   * @returns The value, or undefined when the provider has none
+   * @throws SecretsProviderError when the provider itself fails
+   */
+  get(key: string): string | undefined;
+}
+
+/**
+ * Error thrown when a provider cannot be read; the message names the provider
+ */
+export class SecretsProviderError extends Error {
+  constructor(public readonly provider: string, message: string) {
+    super(`Secrets provider ${provider}: ${message}`);
+    this.name = 'SecretsProviderError';
+  }
+}
+
+/**
+ * Encrypted secrets file contents; binary fields are base64
+ */
+export interface EncryptedSecretsFile {
+  version: 1;
+  cipher: 'aes-256-gcm';
+  /** scrypt salt for deriving the key from SECRETS_KEY */
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Secrets from environment variables and .env files
+ */
+export class EnvSecretsProvider implements SecretsProvider {
+  readonly name = 'env';
+  readonly description = 'env (environment variables and .env files)';
+
+  constructor(private readonly values: EnvValues) { }
+
+  get(key: string): string | undefined {
+    return this.values[key];
+  }
+}
+
+/**
+ * Secrets from an encrypted JSON file, decrypted on first use
+ */
+export class EncryptedFileSecretsProvider implements SecretsProvider {
+  readonly name = 'file';
+  readonly description: string;
+  private secrets?: Record<string, string>;
+
+  /**
+   * @param filePath - File written by encryptSecrets()
+   * @param passphrase - SECRETS_KEY
+   */
+  constructor(private readonly filePath: string, private readonly passphrase: string) {
+    this.description = `file (${filePath})`;
+  }
+
+  get(key: string): string | undefined {
+    if (!this.secrets) {
+      let file: EncryptedSecretsFile;
+      try {
+        file = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      } catch (e) {
+        throw new SecretsProviderError(this.description, `cannot read the file: ${(e as Error).message}`);
+      }
+      this.secrets = decryptSecrets(file, this.passphrase, this.description);
+    }
+    return this.secrets[key];
+  }
+}
+
+/**
+ * Secrets printed by a local command. `{key}` in the command is replaced by the setting name,
+ * otherwise the name is appended as the last argument. Names come from the config schema, so
+ * they are safe to pass through the shell. Empty output means the command has no value.
+ */
+export class CommandSecretsProvider implements SecretsProvider {
+  readonly name = 'command';
+  readonly description: string;
+  private readonly cache = new Map<string, string | undefined>();
+
+  /**
+   * @param command - SECRETS_COMMAND, e.g. `op read op://payroll-qa/{key}`
+   * @param timeoutMs - Longest time one lookup may take
+   */
+  constructor(private readonly command: string, private readonly timeoutMs = 10000) {
+    this.description = `command (${command})`;
+  }
+
+  get(key: string): string | undefined {
+    if (!this.cache.has(key)) {
+      const command = this.command.includes('{key}') ? this.command.split('{key}').join(key) : `${this.command} ${key}`;
+      let output: string;
+      try {
+        output = execSync(command, { encoding: 'utf8', timeout: this.timeoutMs, stdio: ['ignore', 'pipe', 'pipe'] });
+      } catch (e) {
+        const error = e as { status?: number | null; stderr?: string; message: string };
+        const detail = error.stderr?.trim().split('\n')[0] || error.message;
+        const reason = error.status != null ? `exited with ${error.status}` : `failed or timed out after ${this.timeoutMs}ms`;
+        throw new SecretsProviderError(this.description, `${reason} while resolving ${key}: ${detail}`);
+      }
+      this.cache.set(key, output.trim() || undefined);
+    }
+    return this.cache.get(key);
+  }
+}
+
+/**
+ * Create the provider selected by SECRETS_PROVIDER
+ * @param env - Resolved (validated) settings
+ */
+export function createSecretsProvider(env: EnvValues): SecretsProvider {
+  switch (env.SECRETS_PROVIDER?.toLowerCase() ?? 'env') {
+    case 'file':
+      return new EncryptedFileSecretsProvider(path.resolve(env.SECRETS_FILE!), env.SECRETS_KEY!);
+    case 'command':
+      return new CommandSecretsProvider(env.SECRETS_COMMAND!, parseInt(env.SECRETS_COMMAND_TIMEOUT_MS ?? '10000', 10));
+    default:
+      return new EnvSecretsProvider(env);
+  }
+}
+
+/**
+ * Look up secrets with a provider
+ * @param provider - Secrets provider
+ * @param keys - Secret settings to resolve
+ * @returns Values found, and one issue per key the provider failed on
+ */
+export function resolveSecrets(provider: SecretsProvider, keys: readonly string[]): { values: Record<string, string>; issues: ConfigIssue[] } {
+  const values: Record<string, string> = {};
+  const issues: ConfigIssue[] = [];
+  for (const key of keys) {
+    try {
+      const value = provider.get(key);
+      if (value !== undefined) values[key] = value;
+    } catch (e) {
+      issues.push({ key, message: `could not be resolved: ${(e as Error).message}` });
+    }
+  }
+  return { values, issues };
+}
+
+/**
+ * Encrypt secrets for EncryptedFileSecretsProvider
+ * @param secrets - Setting names and values
+ * @param passphrase - Key the file will be decrypted with (SECRETS_KEY)
+ */
+export function encryptSecrets(secrets: Record<string, string>, passphrase: string): EncryptedSecretsFile {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', crypto.scryptSync(passphrase, salt, 32), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+  return {
+    version: 1,
+    cipher: 'aes-256-gcm',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+/**
+ * Decrypt a secrets file
+ * @param file - File contents
+ * @param passphrase - SECRETS_KEY
+ * @param provider - Provider description for errors
+ * @throws SecretsProviderError for a wrong key or a tampered file
+ */
+export function decryptSecrets(file: EncryptedSecretsFile, passphrase: string, provider = 'file'): Record<string, string> {
+  if (file.version !== 1 || file.cipher !== 'aes-256-gcm') {
+    throw new SecretsProviderError(provider, `unsupported file format (version ${file.version}, cipher ${file.cipher})`);
+  }
+  try {
+    const key = crypto.scryptSync(passphrase, Buffer.from(file.salt, 'base64'), 32);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    const text = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf8');
+    return JSON.parse(text);
+  } catch {
+    throw new SecretsProviderError(provider, 'cannot decrypt the file (wrong SECRETS_KEY or modified file)');
+  }
+}
@@ -3,14 +3,44 @@
  * 
  * This file contains all the configuration settings for test execution.
  * It includes URLs, credentials, timeouts, and other environment-specific settings.
- * Values can be overridden using environment variables.
+ * Values come from the TEST_ENV profile (local, qa, uat or mock), src/config/.env,
+ * src/config/.env.<profile> and environment variables, in that order (see env-profiles.ts).
+ * Every key is validated against config-schema.ts before any test runs; all problems are
+ * reported at once. `npm run config:check` prints the resolved configuration.
+ * Secrets (passwords, tokens, client secrets) come from the SECRETS_PROVIDER: env (default),
+ * an encrypted file or a local command (see secrets-provider.ts).
  * 
  * Default Values:
- * - PAYROLL_API_BASE_URL: http://localhost:8080/tw-payroll-system/api
+ * - TEST_ENV: local
+ * - TEST_PROJECTS: ui,api (keys only one project needs, e.g. UI_BASE_URL, are required only when it runs)
+ * - UI_BASE_URL: https://the-internet.herokuapp.com (local profile; required in qa and uat)
+ * - PAYROLL_API_BASE_URL: http://localhost:8080/tw-payroll-system/api (local profile; required in qa and uat)
+ * - PAYROLL_API_MODE: live (set to 'mock' to run API tests against the in-process mock server; mock profile)
+ * - MOCK_API_PORT: 8089
+ * - API_AUTH_TYPE: none (basic | bearer | oauth2)
+ * - API_OAUTH_TOKEN_URL: <api base url>/oauth/token
+ * - API_RETRY_MAX_ATTEMPTS: 3 (set to 1 to disable retries)
+ * - API_RETRY_STATUSES: 502,503,504
+ * - API_CONTRACT_SPEC: unset (path to an OpenAPI 3 JSON document to check every API call against; set by the mock profile)
+ * - API_CONTRACT_FAIL_ON: unset (comma-separated violation kinds that fail the call, e.g. undocumented-status)
+ * - API_CASSETTE_MODE: off (record | replay: save API exchanges per test, or serve them without a backend)
+ * - API_CASSETTE_DIR: tests/cassettes
+ * - API_CASSETTE_MATCH: method,path,query,body (request parts a recorded interaction must match)
+ * - API_CASSETTE_IGNORE_BODY_FIELDS: unset (request body fields ignored when matching)
+ * - API_LATENCY_BUDGETS: enforce (warn | off: what an exceeded latency budget does)
+ * - API_LATENCY_SPEC: openapi/tw-payroll-system.json (path templates that name endpoints in latency reports)
+ * - LOG_LEVEL: info (debug | warn | error)
+ * - LOG_FORMAT: text (json: JSON lines in the log files)
+ * - LOG_SINKS: console,file (jsonl adds test_run.jsonl)
+ * - LOG_DIR: test-results/logs
+ * - LOG_RETENTION_RUNS: 2 (previous run logs kept; LOG_RETENTION_DAYS: unset, deletes older ones)
+ * - LOG_REDACTION: on (LOG_REDACT_KEYS / LOG_REDACT_PATTERNS add rules)
+ * - LOG_CAPTURE: on (attach each test's log lines as logs.txt; off | retain-on-failure)
  * - API_TIMEOUT: 20000ms
  * - DEFAULT_TIMEOUT: 20000ms
  * - UI_USERNAME: tomsmith
- * - UI_PASSWORD: SuperSecretPassword!
+ * - UI_PASSWORD: SuperSecretPassword! (local profile only; required elsewhere when the ui project runs)
+ * - SECRETS_PROVIDER: env (file: SECRETS_FILE + SECRETS_KEY | command: SECRETS_COMMAND)
  */
 
 /**
@@ -22,20 +52,93 @@ export interface UIConfig {
   password: string;
 }
 
+/**
+ * API authentication configuration, one shape per strategy
+ */
+export type AuthConfig =
+  | { type: 'none' }
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'bearer'; token: string }
+  | { type: 'oauth2'; tokenUrl: string; clientId: string; clientSecret: string; scope?: string };
+
+/**
+ * Retry behaviour for transient API failures (see src/api/retry-policy.ts)
+ */
+export interface RetryConfig {
+  /** Total attempts including the first one */
+  maxAttempts: number;
+  retryOnStatuses: number[];
+  retryOnNetworkErrors: boolean;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+  /** POST/PATCH requests are only retried when they carry this header */
+  idempotencyKeyHeader: string;
+}
+
+/**
+ * OpenAPI contract checking (see src/contract/openapi-contract.ts)
+ */
+export interface ContractConfig {
+  /** OpenAPI document to check against; checking is off when unset */
+  specPath?: string;
+  /** Violation kinds that fail the API call instead of only being reported */
+  failOn: ContractViolationKind[];
+}
+
+/**
+ * Recording and replay of API exchanges (see src/cassette/cassette.ts)
+ */
+export interface CassetteConfig {
+  mode: CassetteMode;
+  /** Cassettes are stored per spec file and test below this directory */
+  dir: string;
+  match: CassetteMatchRule[];
+  ignoreBodyFields: string[];
+}
+
+/**
+ * Request timing and latency budgets (see src/perf/latency.ts)
+ */
+export interface LatencyConfig {
+  budgets: LatencyBudgetMode;
+  /** OpenAPI document whose path templates name the endpoints */
+  specPath: string;
+}
+
 /**
  * Interface for API configuration
  */
 export interface APIConfig {
   baseUrl: string;
   timeout: number;
+  mode: 'live' | 'mock';
+  mockPort: number;
+  auth: AuthConfig;
+  retry: RetryConfig;
+  contract: ContractConfig;
+  cassette: CassetteConfig;
+  latency: LatencyConfig;
+}
+
+/**
+ * Logger settings (see src/utils/logger.ts) and per-test log capture (see src/fixtures/log-fixtures.ts)
+ */
+export interface LoggingConfig extends LogSettings {
+  /** When each test's log lines are attached to the report */
+  capture: LogCaptureMode;
 }
 
 /**
  * Interface for overall test configuration
  */
 export interface TestConfig {
+  profile: EnvProfile;
+  /** Test projects this run needs (TEST_PROJECTS) */
+  projects: TestProject[];
   ui: UIConfig;
   api: APIConfig;
+  logging: LoggingConfig;
   defaultTimeout: number;
 }
 
@@ -44,48 +147,171 @@ export interface TestConfig {
  * Contains all configuration settings for UI and API tests
  */
 import path from 'path';
-import dotenv from 'dotenv';
+import { DEFAULT_RETRY_CONFIG } from '../api/retry-policy';
+import { ContractViolationKind } from '../contract/openapi-contract';
+import { CassetteMatchRule, CassetteMode } from '../cassette/cassette';
+import { LatencyBudgetMode } from '../perf/latency';
+import { BuiltInLogSink, LogCaptureMode, LogFormat, LogLevel, LogSettings, logger } from '../utils/logger';
+import { CONFIG_SCHEMA, ConfigValidationError, TestProject, parseList } from './config-schema';
+import { ENV_DIR, EnvProfile, ResolvedEnvironment, loadConfiguration, readProfile } from './env-profiles';
 
-const ENV = (process.env.TEST_ENV || process.env.NODE_ENV || 'local').toLowerCase();
-// Always load .env from src/config
-dotenv.config({ path: path.resolve(__dirname, '.env') });
-if (ENV !== 'local') {
-  dotenv.config({ path: path.resolve(__dirname, `.env.${ENV}`) });
+const CONFIG = loadConfiguration(readProfile(), ENV_DIR);
+if (CONFIG.issues.length > 0) {
+  throw new ConfigValidationError(CONFIG.issues, `profile ${CONFIG.resolved.profile}, projects ${CONFIG.projects.join(', ')}`);
+}
+/** Merged configuration layers of the selected profile, secrets included */
+export const resolvedEnvironment: ResolvedEnvironment = CONFIG.resolved;
+const PROJECTS = CONFIG.projects;
+// Values from the profile and .env files are visible to code reading process.env, and inherited by
+// workers; secrets from a provider are not, so workers look them up again
+for (const [name, value] of Object.entries(resolvedEnvironment.values)) {
+  const source = resolvedEnvironment.sources[name];
+  if (source !== 'default' && !source.startsWith('secrets ')) process.env[name] = value;
 }
 
-// Helpers to read and validate environment variables
-function getEnv(name: string, fallback?: string): string | undefined {
-  const v = process.env[name];
-  if (v === undefined) return fallback;
-  const t = v.trim();
-  return t === '' ? fallback : t;
+// Helpers to read validated values
+function getEnv(name: string): string | undefined {
+  return resolvedEnvironment.values[name];
 }
 
-function getRequired(name: string): string {
-  const v = getEnv(name);
-  if (!v) {
-    throw new Error(`Missing required environment variable: ${name} (set it in src/config/.env or via TEST_ENV)`);
+function getInt(name: string): number {
+  return parseInt(getEnv(name)!, 10);
+}
+
+/**
+ * Read the API auth settings for the selected strategy.
+ * Credentials required by the chosen strategy are checked by the schema; the others are ignored.
+ */
+function getAuthConfig(apiBaseUrl: string): AuthConfig {
+  switch (getEnv('API_AUTH_TYPE')!.toLowerCase()) {
+    case 'basic':
+      return { type: 'basic', username: getEnv('API_AUTH_USERNAME')!, password: getEnv('API_AUTH_PASSWORD')! };
+    case 'bearer':
+      return { type: 'bearer', token: getEnv('API_AUTH_TOKEN')! };
+    case 'oauth2':
+      return {
+        type: 'oauth2',
+        tokenUrl: getEnv('API_OAUTH_TOKEN_URL') ?? `${apiBaseUrl}/oauth/token`,
+        clientId: getEnv('API_OAUTH_CLIENT_ID')!,
+        clientSecret: getEnv('API_OAUTH_CLIENT_SECRET')!,
+        scope: getEnv('API_OAUTH_SCOPE')
+      };
+    default:
+      return { type: 'none' };
   }
-  return v;
 }
 
+/**
+ * Read the retry policy, starting from the framework defaults
+ */
+function getRetryConfig(): RetryConfig {
+  return {
+    maxAttempts: getInt('API_RETRY_MAX_ATTEMPTS'),
+    retryOnStatuses: parseList(getEnv('API_RETRY_STATUSES')).map(code => parseInt(code, 10)),
+    retryOnNetworkErrors: DEFAULT_RETRY_CONFIG.retryOnNetworkErrors,
+    baseDelayMs: getInt('API_RETRY_BASE_DELAY_MS'),
+    maxDelayMs: getInt('API_RETRY_MAX_DELAY_MS'),
+    jitter: DEFAULT_RETRY_CONFIG.jitter,
+    idempotencyKeyHeader: DEFAULT_RETRY_CONFIG.idempotencyKeyHeader
+  };
+}
+
+/**
+ * Read the contract settings
+ */
+function getContractConfig(): ContractConfig {
+  const specPath = getEnv('API_CONTRACT_SPEC');
+  return {
+    specPath: specPath && path.resolve(specPath),
+    failOn: parseList(getEnv('API_CONTRACT_FAIL_ON')) as ContractViolationKind[]
+  };
+}
+
+/**
+ * Read the cassette settings
+ */
+function getCassetteConfig(): CassetteConfig {
+  return {
+    mode: getEnv('API_CASSETTE_MODE')!.toLowerCase() as CassetteMode,
+    dir: path.resolve(getEnv('API_CASSETTE_DIR')!),
+    match: parseList(getEnv('API_CASSETTE_MATCH')) as CassetteMatchRule[],
+    ignoreBodyFields: parseList(getEnv('API_CASSETTE_IGNORE_BODY_FIELDS'))
+  };
+}
+
+/**
+ * Read the logger settings
+ */
+function getLoggingConfig(): LoggingConfig {
+  const retentionDays = getEnv('LOG_RETENTION_DAYS');
+  const logDir = getEnv('LOG_DIR');
+  return {
+    level: getEnv('LOG_LEVEL')!.toUpperCase() as LogLevel,
+    format: getEnv('LOG_FORMAT')!.toLowerCase() as LogFormat,
+    sinks: parseList(getEnv('LOG_SINKS')) as BuiltInLogSink[],
+    dir: logDir && path.resolve(logDir),
+    retention: {
+      runs: getInt('LOG_RETENTION_RUNS'),
+      maxAgeDays: retentionDays === undefined ? undefined : parseInt(retentionDays, 10)
+    },
+    redaction: {
+      enabled: getEnv('LOG_REDACTION')!.toLowerCase() !== 'off',
+      keys: parseList(getEnv('LOG_REDACT_KEYS')).map(key => new RegExp(key, 'i')),
+      // Patterns may contain commas, so they are separated by ';'
+      patterns: (getEnv('LOG_REDACT_PATTERNS') ?? '').split(';').map(item => item.trim()).filter(Boolean)
+        .map(pattern => new RegExp(pattern, 'g'))
+    },
+    capture: getEnv('LOG_CAPTURE')!.toLowerCase() as LogCaptureMode
+  };
+}
+
+const API_MODE = getEnv('PAYROLL_API_MODE')!.toLowerCase() === 'mock' ? 'mock' : 'live';
+const MOCK_API_PORT = getInt('MOCK_API_PORT');
+// Payroll API base URL - from the profile or .env files, or the mock server in mock mode
+const API_BASE_URL = API_MODE === 'mock'
+  ? `http://localhost:${MOCK_API_PORT}/tw-payroll-system/api`
+  : getEnv('PAYROLL_API_BASE_URL') ?? '';
+
 export const testConfig: TestConfig = {
+  profile: resolvedEnvironment.profile,
+  projects: PROJECTS,
+
   // UI Application Configuration
   ui: {
-    // UI base URL is required for CI to avoid accidental default usage
-    baseUrl: getRequired('UI_BASE_URL'),
-    username: getEnv('UI_USERNAME', 'tomsmith')!,
-    password: getEnv('UI_PASSWORD', 'SuperSecretPassword!')!
+    // No default outside the local profile, so CI never tests the wrong site; empty when the ui project does not run
+    baseUrl: getEnv('UI_BASE_URL') ?? '',
+    username: getEnv('UI_USERNAME')!,
+    password: getEnv('UI_PASSWORD')!
   },
 
   // API Configuration
   api: {
-    // Payroll API base URL - defaults to local development server
-    baseUrl: getEnv('PAYROLL_API_BASE_URL', 'http://localhost:8080/tw-payroll-system/api')!,
-    timeout: parseInt(getEnv('API_TIMEOUT', '20000')!, 10)
+    baseUrl: API_BASE_URL,
+    timeout: getInt('API_TIMEOUT'),
+    mode: API_MODE,
+    mockPort: MOCK_API_PORT,
+    // Credentials sent by BaseAPI - see src/api/auth.ts
+    auth: getAuthConfig(API_BASE_URL),
+    // Retries for transient failures (502/503/504, connection resets)
+    retry: getRetryConfig(),
+    // OpenAPI conformance checks on every call - see src/contract/
+    contract: getContractConfig(),
+    // Record/replay of API exchanges - see src/cassette/
+    cassette: getCassetteConfig(),
+    // Request timings and latency budgets - see src/perf/
+    latency: {
+      budgets: getEnv('API_LATENCY_BUDGETS')!.toLowerCase() as LatencyBudgetMode,
+      specPath: path.resolve(getEnv('API_LATENCY_SPEC')!)
+    }
   },
 
+  // Logger settings and per-test logs attached to the report
+  logging: getLoggingConfig(),
+
   // Default timeout for test operations (in milliseconds)
-  defaultTimeout: parseInt(getEnv('DEFAULT_TIMEOUT', '20000')!, 10)
+  defaultTimeout: getInt('DEFAULT_TIMEOUT')
 };
 
+logger.configure(testConfig.logging);
+// Configured credentials are masked wherever they would appear in logs or attachments
+logger.redactor.addSecrets(...CONFIG_SCHEMA.filter(key => key.secret).map(key => getEnv(key.name)));
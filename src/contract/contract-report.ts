@@ -0,0 +1,103 @@
+/**
+ * Contract Report
+ *
+ * ContractRecorder collects the contract violations of one test's API calls and can
+ * fail the call outright for selected violation kinds (API_CONTRACT_FAIL_ON).
+ * Workers append each test's violations to a run log; the global teardown folds the log
+ * into `test-results/contract-report.json`, grouped by kind and by operation.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { RESULTS_DIR } from '../utils/paths';
+import { ContractViolation, ContractViolationKind, HttpExchange, OpenApiContract } from './openapi-contract';
+
+const RUN_LOG_PATH = path.join(RESULTS_DIR, 'contract', 'violations.jsonl');
+export const CONTRACT_REPORT_PATH = path.join(RESULTS_DIR, 'contract-report.json');
+
+/**
+ * Error thrown when an exchange has a violation the recorder is configured to fail on
+ */
+export class ContractViolationError extends Error {
+  constructor(public readonly violations: ContractViolation[]) {
+    super(`Contract violated:\n${violations.map(v => `  [${v.kind}] ${v.request} -> ${v.status}: ${v.message}`).join('\n')}`);
+    this.name = 'ContractViolationError';
+  }
+}
+
+/**
+ * Checks exchanges against a contract and keeps the violations
+ */
+export class ContractRecorder {
+  private readonly recorded: ContractViolation[] = [];
+
+  /**
+   * @param contract - Contract to check against
+   * @param failOn - Violation kinds that throw ContractViolationError instead of only being recorded
+   */
+  constructor(readonly contract: OpenApiContract, private readonly failOn: readonly ContractViolationKind[] = []) {}
+
+  /** Violations recorded so far */
+  get violations(): readonly ContractViolation[] {
+    return this.recorded;
+  }
+
+  /**
+   * Check an exchange and record its violations
+   * @throws ContractViolationError when a violation's kind is in `failOn`
+   */
+  check(exchange: HttpExchange): void {
+    const violations = this.contract.validate(exchange);
+    for (const violation of violations) {
+      logger.warn(`Contract violation [${violation.kind}] ${violation.request} -> ${violation.status}: ${violation.message}`);
+    }
+    this.recorded.push(...violations);
+
+    const fatal = violations.filter(v => this.failOn.includes(v.kind));
+    if (fatal.length > 0) {
+      throw new ContractViolationError(fatal);
+    }
+  }
+}
+
+/**
+ * Remove the violations of a previous run (called from globalSetup)
+ */
+export function clearContractRun(): void {
+  fs.rmSync(RUN_LOG_PATH, { force: true });
+  fs.rmSync(CONTRACT_REPORT_PATH, { force: true });
+}
+
+/**
+ * Append one test's violations to the run log
+ * @param test - Test title path
+ * @param violations - Violations recorded during the test
+ */
+export function appendContractViolations(test: string, violations: readonly ContractViolation[]): void {
+  if (violations.length === 0) return;
+  fs.mkdirSync(path.dirname(RUN_LOG_PATH), { recursive: true });
+  fs.appendFileSync(RUN_LOG_PATH, logger.redact(violations).map(v => JSON.stringify({ test, ...v })).join('\n') + '\n');
+}
+
+/**
+ * Summarise the run log into the contract report
+ * @returns Total number of violations in the run
+ */
+export function writeContractReport(): number {
+  const entries: (ContractViolation & { test: string })[] = fs.existsSync(RUN_LOG_PATH)
+    ? fs.readFileSync(RUN_LOG_PATH, 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line))
+    : [];
+
+  const byKind: Record<string, number> = {};
+  const byOperation: Record<string, number> = {};
+  for (const entry of entries) {
+    byKind[entry.kind] = (byKind[entry.kind] ?? 0) + 1;
+    const operation = entry.operation ?? entry.request;
+    byOperation[operation] = (byOperation[operation] ?? 0) + 1;
+  }
+
+  fs.mkdirSync(RESULTS_DIR, { recursive: true });
+  fs.writeFileSync(CONTRACT_REPORT_PATH, JSON.stringify({ total: entries.length, byKind, byOperation, violations: entries }, null, 2));
+  return entries.length;
+}
@@ -0,0 +1,153 @@
+/**
+ * JSON Schema Validator
+ *
+ * Validates values against the subset of JSON Schema used by OpenAPI 3.0 documents:
+ * `$ref` (local), `type`, `nullable`, `enum`, `required`, `properties`,
+ * `additionalProperties`, `items`, `minimum`/`maximum`, `minLength`/`maxLength`,
+ * `pattern`, `format` (date, date-time, email) and `allOf`/`anyOf`/`oneOf`.
+ * Every problem is reported, each prefixed with the JSON path where it was found.
+ */
+
+/**
+ * A JSON Schema object as it appears in an OpenAPI 3.0 document
+ */
+export interface JsonSchema {
+  $ref?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  nullable?: boolean;
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  description?: string;
+}
+
+/**
+ * Validate a value against a schema
+ * @param schema - Schema to validate against
+ * @param value - Value to check
+ * @param root - Document that `$ref`s resolve against (e.g. the whole OpenAPI document)
+ * @param path - JSON path of the value, used in messages
+ * @returns Problems found (empty when the value is valid)
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, root: object, path = '$'): string[] {
+  if (schema.$ref) {
+    return validateJsonSchema(resolveRef(root, schema.$ref), value, root, path);
+  }
+  if (value === null) {
+    return schema.nullable || schema.type === undefined ? [] : [`${path}: expected ${schema.type}, got null`];
+  }
+
+  const issues: string[] = [];
+  if (schema.allOf) {
+    schema.allOf.forEach(s => issues.push(...validateJsonSchema(s, value, root, path)));
+  }
+  if (schema.anyOf && !schema.anyOf.some(s => validateJsonSchema(s, value, root, path).length === 0)) {
+    issues.push(`${path}: does not match any of the allowed schemas`);
+  }
+  if (schema.oneOf && schema.oneOf.filter(s => validateJsonSchema(s, value, root, path).length === 0).length !== 1) {
+    issues.push(`${path}: must match exactly one of the allowed schemas`);
+  }
+
+  if (schema.type && !hasType(schema.type, value)) {
+    issues.push(`${path}: expected ${schema.type}, got ${describeType(value)}`);
+    return issues;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push(`${path}: ${JSON.stringify(value)} is not one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) issues.push(`${path}: ${value} is below the minimum ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) issues.push(`${path}: ${value} is above the maximum ${schema.maximum}`);
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) issues.push(`${path}: shorter than ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) issues.push(`${path}: longer than ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) issues.push(`${path}: does not match pattern ${schema.pattern}`);
+    if (schema.format && !matchesFormat(schema.format, value)) issues.push(`${path}: ${JSON.stringify(value)} is not a valid ${schema.format}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => issues.push(...validateJsonSchema(schema.items!, item, root, `${path}[${i}]`)));
+  }
+
+  if (isObject(value)) {
+    for (const field of schema.required ?? []) {
+      if (value[field] === undefined) issues.push(`${path}.${field}: is required`);
+    }
+    for (const [field, fieldValue] of Object.entries(value)) {
+      const fieldSchema = schema.properties?.[field];
+      if (fieldSchema) {
+        issues.push(...validateJsonSchema(fieldSchema, fieldValue, root, `${path}.${field}`));
+      } else if (schema.additionalProperties === false) {
+        issues.push(`${path}.${field}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateJsonSchema(schema.additionalProperties, fieldValue, root, `${path}.${field}`));
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Resolve a local `$ref` such as `#/components/schemas/Employee`
+ * @param root - Document the reference points into
+ * @param ref - JSON pointer prefixed with `#`
+ */
+export function resolveRef<T = JsonSchema>(root: object, ref: string): T {
+  if (!ref.startsWith('#/')) {
+    throw new Error(`Only local $refs are supported, got: ${ref}`);
+  }
+  let node: any = root;
+  for (const segment of ref.slice(2).split('/')) {
+    node = node?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+  if (node === undefined) {
+    throw new Error(`Unresolvable $ref: ${ref}`);
+  }
+  return node as T;
+}
+
+function hasType(type: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return isObject(value);
+  }
+}
+
+function matchesFormat(format: string, value: string): boolean {
+  switch (format) {
+    case 'date': {
+      const date = new Date(`${value}T00:00:00Z`);
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+    }
+    case 'date-time': return !isNaN(Date.parse(value)) && /^\d{4}-\d{2}-\d{2}T/.test(value);
+    case 'email': return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+    default: return true;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && !Number.isFinite(value)) return String(value);
+  return typeof value;
+}
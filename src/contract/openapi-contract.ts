@@ -0,0 +1,310 @@
+/**
+ * OpenAPI Contract
+ *
+ * Loads an OpenAPI 3.0 document (JSON) and checks HTTP exchanges against it: the path
+ * and method must be documented, the response status must be one of the operation's
+ * documented responses, and parameters, request body, response headers and response
+ * body must match their schemas. Request paths are matched relative to the path of the
+ * document's first server URL.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { JsonSchema, resolveRef, validateJsonSchema } from './json-schema';
+
+type Ref = { $ref: string };
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  schema?: JsonSchema;
+  description?: string;
+}
+
+export interface OpenApiMediaType {
+  schema?: JsonSchema;
+}
+
+export interface OpenApiRequestBody {
+  required?: boolean;
+  content: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiHeader {
+  required?: boolean;
+  schema?: JsonSchema;
+  description?: string;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  headers?: Record<string, OpenApiHeader | Ref>;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  tags?: string[];
+  summary?: string;
+  parameters?: (OpenApiParameter | Ref)[];
+  requestBody?: OpenApiRequestBody | Ref;
+  responses: Record<string, OpenApiResponse | Ref>;
+}
+
+export const OPENAPI_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+export type OpenApiMethod = typeof OPENAPI_METHODS[number];
+
+export type OpenApiPathItem = { parameters?: (OpenApiParameter | Ref)[] } & Partial<Record<OpenApiMethod, OpenApiOperation>>;
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string }[];
+  tags?: { name: string; description?: string }[];
+  paths: Record<string, OpenApiPathItem>;
+  components?: {
+    schemas?: Record<string, JsonSchema>;
+    parameters?: Record<string, OpenApiParameter>;
+    responses?: Record<string, OpenApiResponse>;
+    requestBodies?: Record<string, OpenApiRequestBody>;
+  };
+}
+
+export const CONTRACT_VIOLATION_KINDS = [
+  'undocumented-path',
+  'undocumented-method',
+  'undocumented-status',
+  'request-parameter',
+  'request-body',
+  'response-header',
+  'response-body'
+] as const;
+export type ContractViolationKind = typeof CONTRACT_VIOLATION_KINDS[number];
+
+/**
+ * A difference between an exchange and the contract
+ */
+export interface ContractViolation {
+  kind: ContractViolationKind;
+  /** Request method and path as sent, e.g. `GET /pay-groups/12` */
+  request: string;
+  /** Documented operation the request matched, e.g. `GET /pay-groups/{id}` */
+  operation?: string;
+  status: number;
+  message: string;
+}
+
+/**
+ * One request and its response, as seen by the client
+ */
+export interface HttpExchange {
+  method: string;
+  url: string;
+  requestBody?: unknown;
+  status: number;
+  /** Response headers; names are matched case-insensitively */
+  responseHeaders: Record<string, string>;
+  /** Parsed JSON body, or undefined when the response had none */
+  responseBody?: unknown;
+}
+
+const JSON_MEDIA_TYPE = 'application/json';
+
+/**
+ * An OpenAPI document that exchanges can be checked against
+ */
+export class OpenApiContract {
+  private static readonly loaded = new Map<string, OpenApiContract>();
+
+  private readonly basePath: string;
+  private readonly templates: { template: string; pattern: RegExp; params: string[] }[];
+
+  constructor(readonly document: OpenApiDocument) {
+    if (!document.openapi?.startsWith('3.')) {
+      throw new Error(`Unsupported OpenAPI version: ${document.openapi} (expected 3.x)`);
+    }
+    this.basePath = serverBasePath(document.servers?.[0]?.url ?? '/');
+    this.templates = Object.keys(document.paths)
+      .map(template => ({ template, ...compileTemplate(template) }))
+      // Literal segments win over parameters, e.g. /pay-groups/search before /pay-groups/{id}
+      .sort((a, b) => a.params.length - b.params.length);
+  }
+
+  /**
+   * Load a contract from a JSON file; each file is read once per process
+   * @param filePath - Path to the OpenAPI document, relative to the working directory
+   */
+  static load(filePath: string): OpenApiContract {
+    const resolved = path.resolve(filePath);
+    let contract = OpenApiContract.loaded.get(resolved);
+    if (!contract) {
+      if (!/\.json$/i.test(resolved)) {
+        throw new Error(`OpenAPI documents must be JSON: ${resolved}`);
+      }
+      contract = new OpenApiContract(JSON.parse(fs.readFileSync(resolved, 'utf8')));
+      OpenApiContract.loaded.set(resolved, contract);
+    }
+    return contract;
+  }
+
+  /**
+   * Check one exchange against the contract
+   * @param exchange - Request and response to check
+   * @returns Violations found (empty when the exchange conforms)
+   */
+  validate(exchange: HttpExchange): ContractViolation[] {
+    const url = new URL(exchange.url, 'http://localhost');
+    const method = exchange.method.toLowerCase() as OpenApiMethod;
+    const requestPath = url.pathname.startsWith(this.basePath) ? url.pathname.slice(this.basePath.length) || '/' : undefined;
+    const request = `${method.toUpperCase()} ${requestPath ?? url.pathname}`;
+    const violation = (kind: ContractViolationKind, message: string, operation?: string): ContractViolation =>
+      ({ kind, request, operation, status: exchange.status, message });
+
+    const match = requestPath === undefined ? undefined : this.matchPath(requestPath);
+    if (!match) {
+      return [violation('undocumented-path', `${url.pathname} does not match any documented path`)];
+    }
+    const pathItem = this.document.paths[match.template];
+    const operation = pathItem[method];
+    const name = `${method.toUpperCase()} ${match.template}`;
+    if (!OPENAPI_METHODS.includes(method) || !operation) {
+      return [violation('undocumented-method', `${method.toUpperCase()} is not documented for ${match.template}`)];
+    }
+
+    const violations: ContractViolation[] = [];
+    const add = (kind: ContractViolationKind, messages: string[]) => violations.push(...messages.map(m => violation(kind, m, name)));
+
+    add('request-parameter', this.checkParameters([...(pathItem.parameters ?? []), ...(operation.parameters ?? [])], match.values, url.searchParams));
+    add('request-body', this.checkRequestBody(operation, exchange.requestBody));
+
+    const response = this.findResponse(operation, exchange.status);
+    if (!response) {
+      add('undocumented-status', [`${exchange.status} is not a documented response (documented: ${Object.keys(operation.responses).join(', ')})`]);
+      return violations;
+    }
+    add('response-header', this.checkHeaders(response, exchange.responseHeaders));
+    add('response-body', this.checkResponseBody(response, exchange.responseBody));
+    return violations;
+  }
+
+  /**
+   * The documented path template a request path falls under
+   * @param requestPath - Path below the server's base path, e.g. `/employee/E4K9ZQ2`
+   * @returns The template, e.g. `/employee/{employeeId}`, or undefined when none matches
+   */
+  templateFor(requestPath: string): string | undefined {
+    return this.matchPath(requestPath)?.template;
+  }
+
+  private matchPath(requestPath: string): { template: string; values: Record<string, string> } | undefined {
+    for (const { template, pattern, params } of this.templates) {
+      const match = pattern.exec(requestPath);
+      if (match) {
+        const values: Record<string, string> = {};
+        params.forEach((param, i) => values[param] = decodeURIComponent(match[i + 1]));
+        return { template, values };
+      }
+    }
+    return undefined;
+  }
+
+  private checkParameters(parameters: (OpenApiParameter | Ref)[], pathValues: Record<string, string>, query: URLSearchParams): string[] {
+    const issues: string[] = [];
+    for (const parameter of parameters.map(p => this.deref(p))) {
+      const raw = parameter.in === 'path' ? pathValues[parameter.name]
+        : parameter.in === 'query' ? query.get(parameter.name) ?? undefined
+        : undefined;
+      if (raw === undefined) {
+        // Header and cookie parameters are set by the client itself and not checked here
+        if (parameter.required && (parameter.in === 'path' || parameter.in === 'query')) {
+          issues.push(`${parameter.in} parameter '${parameter.name}' is required`);
+        }
+        continue;
+      }
+      if (parameter.schema) {
+        const value = coerce(this.deref(parameter.schema), raw);
+        issues.push(...validateJsonSchema(parameter.schema, value, this.document, `${parameter.in}.${parameter.name}`));
+      }
+    }
+    return issues;
+  }
+
+  private checkRequestBody(operation: OpenApiOperation, body: unknown): string[] {
+    if (!operation.requestBody) return [];
+    const requestBody = this.deref(operation.requestBody);
+    if (body === undefined) {
+      return requestBody.required ? ['request body is required'] : [];
+    }
+    const schema = requestBody.content[JSON_MEDIA_TYPE]?.schema;
+    return schema ? validateJsonSchema(schema, body, this.document, '$request') : [];
+  }
+
+  private findResponse(operation: OpenApiOperation, status: number): OpenApiResponse | undefined {
+    const responses = operation.responses;
+    const response = responses[String(status)] ?? responses[`${String(status)[0]}XX`] ?? responses.default;
+    return response && this.deref(response);
+  }
+
+  private checkHeaders(response: OpenApiResponse, headers: Record<string, string>): string[] {
+    const issues: string[] = [];
+    const actual = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+    for (const [name, header] of Object.entries(response.headers ?? {})) {
+      const definition = this.deref(header);
+      const raw = actual[name.toLowerCase()];
+      if (raw === undefined) {
+        if (definition.required) issues.push(`header ${name} is required`);
+        continue;
+      }
+      if (definition.schema) {
+        issues.push(...validateJsonSchema(definition.schema, coerce(this.deref(definition.schema), raw), this.document, `header.${name}`));
+      }
+    }
+    return issues;
+  }
+
+  private checkResponseBody(response: OpenApiResponse, body: unknown): string[] {
+    const schema = response.content?.[JSON_MEDIA_TYPE]?.schema;
+    if (!schema) return [];
+    if (body === undefined) return [`expected a ${JSON_MEDIA_TYPE} body`];
+    return validateJsonSchema(schema, body, this.document);
+  }
+
+  private deref<T extends object>(node: T | Ref): T {
+    return '$ref' in node ? resolveRef<T>(this.document, node.$ref) : node;
+  }
+}
+
+/** Path part of a server URL, without a trailing slash ('' for the root) */
+function serverBasePath(serverUrl: string): string {
+  return new URL(serverUrl, 'http://localhost').pathname.replace(/\/+$/, '');
+}
+
+/** Turn `/pay-groups/{id}` into a regular expression capturing each parameter */
+function compileTemplate(template: string): { pattern: RegExp; params: string[] } {
+  const params: string[] = [];
+  const source = template
+    .split(/(\{[^}]+\})/)
+    .map(part => {
+      if (part.startsWith('{') && part.endsWith('}')) {
+        params.push(part.slice(1, -1));
+        return '([^/]+)';
+      }
+      return part.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return { pattern: new RegExp(`^${source}/?$`), params };
+}
+
+/** Parameters and headers arrive as strings; convert them to the type their schema expects */
+function coerce(schema: JsonSchema, raw: string): unknown {
+  switch (schema.type) {
+    case 'integer':
+    case 'number':
+      return raw.trim() !== '' && !isNaN(Number(raw)) ? Number(raw) : raw;
+    case 'boolean':
+      return raw === 'true' ? true : raw === 'false' ? false : raw;
+    default:
+      return raw;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Employee Lifecycle Model
+ *
+ * The statuses an employee moves through and the actions that move it. A new employee is
+ * ACTIVE; from there they can go on leave or be terminated, from ON_LEAVE they are
+ * reactivated or terminated, and TERMINATED is final. Every other action is forbidden: the
+ * API must refuse it with 409 and leave the employee unchanged. A PUT that changes `status`
+ * must follow the same transitions.
+ *
+ * Model-based tests send sequences of actions (walks) to the API and compare every response
+ * with the model: `coveringWalks()` tries every action in every status at least once, and
+ * `lifecycleWalks()` generates random walks for checkProperty().
+ */
+
+import type { EmployeeStatus } from '../api/employee-api';
+import type { Arbitrary } from './property';
+
+export const LIFECYCLE_ACTIONS = ['leave', 'reactivate', 'terminate'] as const;
+export type LifecycleAction = typeof LIFECYCLE_ACTIONS[number];
+
+/** Status of a newly created employee */
+export const INITIAL_STATUS: EmployeeStatus = 'ACTIVE';
+
+/**
+ * Allowed transitions: the status each action leads to, per current status
+ */
+export const EMPLOYEE_LIFECYCLE: Record<EmployeeStatus, Partial<Record<LifecycleAction, EmployeeStatus>>> = {
+  ACTIVE: { leave: 'ON_LEAVE', terminate: 'TERMINATED' },
+  ON_LEAVE: { reactivate: 'ACTIVE', terminate: 'TERMINATED' },
+  TERMINATED: {}
+};
+
+const STATUSES = Object.keys(EMPLOYEE_LIFECYCLE) as EmployeeStatus[];
+
+/**
+ * One step of a walk as the model predicts it
+ */
+export interface LifecycleStep {
+  action: LifecycleAction;
+  from: EmployeeStatus;
+  /** Status after the action; undefined when the action is forbidden */
+  to?: EmployeeStatus;
+}
+
+/**
+ * Status an action leads to
+ * @returns Undefined when the action is forbidden in that status
+ */
+export function nextStatus(status: EmployeeStatus, action: LifecycleAction): EmployeeStatus | undefined {
+  return EMPLOYEE_LIFECYCLE[status][action];
+}
+
+/**
+ * Whether a status may be changed directly (PUT) from one value to another; keeping it is always allowed
+ */
+export function canChangeStatus(from: EmployeeStatus, to: EmployeeStatus): boolean {
+  return from === to || Object.values(EMPLOYEE_LIFECYCLE[from]).includes(to);
+}
+
+/**
+ * Predict a walk: forbidden actions leave the status unchanged
+ * @param walk - Actions, applied to a new employee
+ */
+export function predictWalk(walk: readonly LifecycleAction[]): LifecycleStep[] {
+  let status = INITIAL_STATUS;
+  return walk.map(action => {
+    const to = nextStatus(status, action);
+    const step = { action, from: status, to };
+    status = to ?? status;
+    return step;
+  });
+}
+
+/**
+ * Walks that together try every action in every reachable status, forbidden ones included.
+ * Each walk starts from a new employee; a walk ends when nothing untried is reachable, e.g.
+ * after a termination.
+ */
+export function coveringWalks(): LifecycleAction[][] {
+  const key = (status: EmployeeStatus, action: LifecycleAction) => `${status}:${action}`;
+  const untried = new Set(reachableStatuses().flatMap(status => LIFECYCLE_ACTIONS.map(action => key(status, action))));
+  const hasUntried = (status: EmployeeStatus) => LIFECYCLE_ACTIONS.some(action => untried.has(key(status, action)));
+
+  const walks: LifecycleAction[][] = [];
+  while (untried.size > 0) {
+    const walk: LifecycleAction[] = [];
+    let status = INITIAL_STATUS;
+    for (;;) {
+      // Forbidden actions first (they keep the status), then transitions to non-final statuses
+      const candidates = LIFECYCLE_ACTIONS.filter(action => untried.has(key(status, action)))
+        .sort((a, b) => rank(status, a) - rank(status, b));
+      const route = candidates.length > 0 ? [candidates[0]] : shortestRoute(status, hasUntried);
+      if (!route) break;
+      for (const action of route) {
+        untried.delete(key(status, action));
+        walk.push(action);
+        status = nextStatus(status, action) ?? status;
+      }
+    }
+    walks.push(walk);
+  }
+  return walks;
+}
+
+/**
+ * Arbitrary over random walks of 1..maxLength actions. Shrinks by dropping actions,
+ * so a failure is reported with the shortest walk that still fails.
+ */
+export function lifecycleWalks(maxLength = 6): Arbitrary<LifecycleAction[]> {
+  return {
+    generate: random => Array.from({ length: random.int(1, maxLength) }, () => random.pick(LIFECYCLE_ACTIONS)),
+    shrink: walk => walk.length <= 1 ? [] : walk.map((_, i) => walk.filter((__, j) => j !== i))
+  };
+}
+
+/** 0 for forbidden actions, 1 for transitions to a status with a way out, 2 for transitions into a final status */
+function rank(status: EmployeeStatus, action: LifecycleAction): number {
+  const to = nextStatus(status, action);
+  if (to === undefined) return 0;
+  return Object.keys(EMPLOYEE_LIFECYCLE[to]).length > 0 ? 1 : 2;
+}
+
+/** Statuses reachable from the initial status */
+function reachableStatuses(): EmployeeStatus[] {
+  const seen = new Set<EmployeeStatus>([INITIAL_STATUS]);
+  const queue = [INITIAL_STATUS];
+  while (queue.length > 0) {
+    for (const to of Object.values(EMPLOYEE_LIFECYCLE[queue.shift()!])) {
+      if (!seen.has(to)) {
+        seen.add(to);
+        queue.push(to);
+      }
+    }
+  }
+  return STATUSES.filter(status => seen.has(status));
+}
+
+/** Fewest allowed actions from a status to one matching the goal, or undefined when none is reachable */
+function shortestRoute(from: EmployeeStatus, goal: (status: EmployeeStatus) => boolean): LifecycleAction[] | undefined {
+  const routes = new Map<EmployeeStatus, LifecycleAction[]>([[from, []]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const status = queue.shift()!;
+    for (const [action, to] of Object.entries(EMPLOYEE_LIFECYCLE[status]) as [LifecycleAction, EmployeeStatus][]) {
+      if (routes.has(to)) continue;
+      const route = [...routes.get(status)!, action];
+      if (goal(to)) return route;
+      routes.set(to, route);
+      queue.push(to);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,109 @@
+/**
+ * Pay Group Rate Properties
+ *
+ * Arbitraries and a validity model for the rate fields of a pay group payload, used to
+ * check that the API accepts exactly the valid input space. Rates are drawn from the
+ * valid range, its boundaries and just beyond, and from non-numbers the API must refuse
+ * (NaN, ±Infinity, strings, null, missing). NaN and Infinity serialise to `null` in JSON.
+ */
+
+import type { CreatePayGroup } from '../api/pay-group-api';
+import type { Arbitrary } from './property';
+import type { SeededRandom } from './seeded-random';
+
+/** Inclusive upper bound of each rate field; every rate's lower bound is 0 */
+export const RATE_LIMITS = {
+  baseTaxRate: 60,
+  benefitRate: 100,
+  deductionRate: 100
+} satisfies Partial<Record<keyof CreatePayGroup, number>>;
+
+export type RateField = keyof typeof RATE_LIMITS;
+
+export const RATE_FIELDS = Object.keys(RATE_LIMITS) as RateField[];
+
+/**
+ * Rate fields of a pay group payload, with values of any type. `undefined` means the field is omitted.
+ */
+export type RatePayload = Record<RateField, unknown>;
+
+/**
+ * Whether a single rate value is acceptable
+ * @param field - Rate field
+ * @param value - Candidate value (after a JSON round trip NaN and Infinity become null)
+ */
+export function isValidRate(field: RateField, value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= RATE_LIMITS[field];
+}
+
+/**
+ * Whether the API should accept the rate fields of a payload
+ * @param payload - Rate fields
+ * @param partial - True for updates, where an omitted field leaves the stored value unchanged
+ */
+export function isValidRatePayload(payload: RatePayload, partial: boolean): boolean {
+  return RATE_FIELDS.every(field => (partial && payload[field] === undefined) || isValidRate(field, payload[field]));
+}
+
+/**
+ * Arbitrary over the rate fields of a create or update payload. Roughly half of the
+ * generated values are valid, so both sides of the boundary are well covered.
+ */
+export function ratePayloads(): Arbitrary<RatePayload> {
+  return {
+    generate: random => {
+      const payload = {} as RatePayload;
+      for (const field of RATE_FIELDS) {
+        payload[field] = rateValue(random, RATE_LIMITS[field]);
+      }
+      return payload;
+    },
+    shrink: payload => {
+      const candidates: RatePayload[] = [];
+      for (const field of RATE_FIELDS) {
+        for (const simpler of shrinkRate(payload[field])) {
+          candidates.push({ ...payload, [field]: simpler });
+        }
+      }
+      return candidates;
+    }
+  };
+}
+
+/** Draw one rate value: valid, on or just past a boundary, or not a usable number at all */
+function rateValue(random: SeededRandom, max: number): unknown {
+  const kind = random.int(0, 9);
+  if (kind <= 3) {
+    return random.float(0, max);
+  }
+  if (kind <= 5) {
+    return random.pick([0, max, -0.01, max + 0.01]);
+  }
+  if (kind <= 7) {
+    return random.bool() ? random.float(-1000, -0.01) : random.float(max + 0.01, 1000);
+  }
+  return random.pick([NaN, Infinity, -Infinity, '10', '', null, undefined]);
+}
+
+/**
+ * Simpler replacements for a rate value, ordered simplest first.
+ * Complexity: omitted < 0 < other integers < fractions < non-numbers, so shrinking always terminates.
+ */
+function shrinkRate(value: unknown): unknown[] {
+  const complexity = rateComplexity(value);
+  const candidates: unknown[] = [undefined, 0];
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    candidates.push(Math.trunc(value));
+  } else {
+    candidates.push(-1);
+  }
+  return candidates.filter(c => rateComplexity(c) < complexity);
+}
+
+function rateComplexity(value: unknown): number {
+  if (value === undefined) return 0;
+  if (value === 0) return 1;
+  if (typeof value === 'number' && Number.isInteger(value)) return 2;
+  if (typeof value === 'number' && Number.isFinite(value)) return 3;
+  return 4;
+}
@@ -0,0 +1,152 @@
+/**
+ * Property-Based Testing
+ *
+ * A minimal property checker on top of SeededRandom. An Arbitrary generates random
+ * inputs and proposes simpler variants of a failing input; `checkProperty()` runs a
+ * predicate over many generated inputs and, on the first failure, shrinks the input
+ * to a minimal counterexample before reporting it together with a replay seed.
+ *
+ * Replay a failure by passing the reported seed as `options.seed`, or by setting
+ * PROPERTY_SEED, which overrides the seed of every property in the run.
+ */
+
+import { SeededRandom } from './seeded-random';
+import { logger } from '../utils/logger';
+
+/**
+ * Generator and shrinker for values of type T
+ */
+export interface Arbitrary<T> {
+  /** Produce a random value */
+  generate(random: SeededRandom): T;
+  /** Propose simpler variants of a value, simplest first; each must have a lower complexity */
+  shrink(value: T): T[];
+}
+
+/**
+ * Options for checkProperty
+ */
+export interface PropertyOptions {
+  /** Number of generated inputs (default 100) */
+  runs?: number;
+  /** Seed for the generator; PROPERTY_SEED takes precedence when set */
+  seed?: number;
+  /** Maximum number of successful shrink steps (default 50) */
+  maxShrinks?: number;
+}
+
+/**
+ * Error thrown when a property does not hold
+ */
+export class PropertyFailure<T = unknown> extends Error {
+  constructor(
+    public readonly seed: number,
+    public readonly run: number,
+    public readonly counterexample: T,
+    public readonly shrunk: T,
+    public readonly shrinkSteps: number,
+    public readonly cause: unknown
+  ) {
+    super(
+      `Property failed on run ${run} (seed ${seed}; replay with PROPERTY_SEED=${seed}).\n` +
+      `Counterexample: ${describe(counterexample)}\n` +
+      `Shrunk after ${shrinkSteps} step(s) to: ${describe(shrunk)}\n` +
+      `Failure: ${cause instanceof Error ? cause.message : String(cause)}`
+    );
+    this.name = 'PropertyFailure';
+  }
+}
+
+/**
+ * Check that a predicate holds for generated inputs. The predicate fails by throwing,
+ * so Playwright `expect()` assertions can be used inside it.
+ * @param arbitrary - Input generator and shrinker
+ * @param predicate - Property to check
+ * @param options - Runs, seed and shrink limit
+ * @returns The seed that was used
+ * @throws PropertyFailure with the original and shrunk counterexample
+ */
+export async function checkProperty<T>(
+  arbitrary: Arbitrary<T>,
+  predicate: (value: T) => void | Promise<void>,
+  options: PropertyOptions = {}
+): Promise<number> {
+  const seed = resolveSeed(options.seed);
+  const runs = options.runs ?? 100;
+  const random = new SeededRandom(seed);
+  logger.info(`Checking property over ${runs} inputs (seed ${seed})`);
+
+  for (let run = 1; run <= runs; run++) {
+    const value = arbitrary.generate(random);
+    const error = await failureOf(predicate, value);
+    if (error === undefined) continue;
+
+    const { shrunk, steps, cause } = await shrinkFailure(arbitrary, predicate, value, error, options.maxShrinks ?? 50);
+    const failure = new PropertyFailure(seed, run, value, shrunk, steps, cause);
+    logger.error(failure.message);
+    throw failure;
+  }
+  return seed;
+}
+
+/**
+ * Greedily replace the failing value with the first simpler candidate that still fails
+ */
+async function shrinkFailure<T>(
+  arbitrary: Arbitrary<T>,
+  predicate: (value: T) => void | Promise<void>,
+  value: T,
+  error: unknown,
+  maxShrinks: number
+): Promise<{ shrunk: T; steps: number; cause: unknown }> {
+  let current = value;
+  let cause = error;
+  let steps = 0;
+  while (steps < maxShrinks) {
+    let improved = false;
+    for (const candidate of arbitrary.shrink(current)) {
+      const candidateError = await failureOf(predicate, candidate);
+      if (candidateError !== undefined) {
+        current = candidate;
+        cause = candidateError;
+        steps++;
+        improved = true;
+        break;
+      }
+    }
+    if (!improved) break;
+  }
+  return { shrunk: current, steps, cause };
+}
+
+/** Run the predicate and return what it threw, or undefined when it held */
+async function failureOf<T>(predicate: (value: T) => void | Promise<void>, value: T): Promise<unknown> {
+  try {
+    await predicate(value);
+    return undefined;
+  } catch (e) {
+    return e ?? new Error('Predicate threw a falsy value');
+  }
+}
+
+/** Seed from PROPERTY_SEED, the caller, or a fresh random one */
+function resolveSeed(seed: number | undefined): number {
+  const configured = process.env.PROPERTY_SEED;
+  if (configured !== undefined && configured.trim() !== '') {
+    const parsed = Number(configured);
+    if (!Number.isInteger(parsed)) {
+      throw new Error(`PROPERTY_SEED must be an integer, got: ${configured}`);
+    }
+    return parsed >>> 0;
+  }
+  return (seed ?? Math.floor(Math.random() * 2 ** 32)) >>> 0;
+}
+
+/** JSON-like rendering that keeps NaN, Infinity and undefined visible */
+function describe(value: unknown): string {
+  return JSON.stringify(value, (_, v) => {
+    if (typeof v === 'number' && !Number.isFinite(v)) return String(v);
+    if (v === undefined) return '<missing>';
+    return v;
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * Seeded Random
+ *
+ * Deterministic pseudo-random number generator (mulberry32) for test data.
+ * The same seed always produces the same sequence, so a failing test can be
+ * re-run with identical data by setting TEST_DATA_SEED.
+ */
+
+const ALPHANUMERIC = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+/**
+ * SeededRandom class producing reproducible values
+ */
+export class SeededRandom {
+  private state: number;
+
+  /**
+   * Constructor for SeededRandom
+   * @param seed - 32-bit integer seed
+   */
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Integer in [min, max] (inclusive)
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Float in [min, max] rounded to the given number of decimals
+   */
+  float(min: number, max: number, decimals = 2): number {
+    const factor = 10 ** decimals;
+    return Math.round((min + this.next() * (max - min)) * factor) / factor;
+  }
+
+  /**
+   * True with the given probability
+   */
+  bool(probability = 0.5): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick one element of a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Random string drawn from an alphabet
+   * @param length - Number of characters
+   * @param alphabet - Characters to draw from (default A-Z0-9)
+   */
+  string(length: number, alphabet: string = ALPHANUMERIC): string {
+    let result = '';
+    for (let i = 0; i < length; i++) {
+      result += alphabet.charAt(Math.floor(this.next() * alphabet.length));
+    }
+    return result;
+  }
+
+  /**
+   * Random string of digits
+   */
+  digits(length: number): string {
+    return this.string(length, '0123456789');
+  }
+}
+
+/**
+ * Derive a stable 32-bit seed from a base seed and a label (e.g. a test's title path)
+ * using FNV-1a, so every test gets its own reproducible sequence.
+ * @param baseSeed - Run seed
+ * @param label - Text identifying the consumer
+ */
+export function deriveSeed(baseSeed: number, label: string): number {
+  let hash = (0x811C9DC5 ^ baseSeed) >>> 0;
+  for (let i = 0; i < label.length; i++) {
+    hash ^= label.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
@@ -0,0 +1,218 @@
+/**
+ * Test Data Factory
+ *
+ * Builders for Employee and PayGroup payloads driven by a seeded PRNG.
+ * Defaults are always valid; override fields with `with()`, drop them with `without()`,
+ * or apply a named invalid variant for boundary tests.
+ *
+ * Every run has a seed (TEST_DATA_SEED, generated in globalSetup when unset) and each test
+ * derives its own stream from it, so data is unique across parallel tests yet identical
+ * when the run is repeated with the same seed.
+ */
+
+import type { TestInfo } from '@playwright/test';
+import type { CreateEmployeeRequest } from '../api/employee-api';
+import { PAYMENT_CYCLES } from '../api/pay-group-api';
+import type { CreatePayGroup, PaymentCycle } from '../api/pay-group-api';
+import { SeededRandom, deriveSeed } from './seeded-random';
+
+const FIRST_NAMES = ['John', 'Jane', 'Priya', 'Wei', 'Carlos', 'Amara', 'Lars', 'Yuki'];
+const LAST_NAMES = ['Doe', 'Smith', 'Patel', 'Chen', 'Garcia', 'Okafor', 'Berg', 'Sato'];
+const DEPARTMENTS = ['Engineering', 'Finance', 'Marketing', 'Operations', 'HR'];
+const DESIGNATIONS = ['Software Engineer', 'Analyst', 'Manager', 'Consultant', 'Specialist'];
+// Joining dates fall in 2020-01-01 .. 2025-12-31, before the periods used by payroll runs
+const JOINING_DATE_EPOCH = Date.UTC(2020, 0, 1);
+const JOINING_DATE_SPAN_DAYS = 2192;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Named invalid pay group payloads, each breaking exactly one validation rule
+ */
+export const INVALID_PAY_GROUPS = {
+  emptyGroupName: { groupName: '' },
+  overlongGroupName: { groupName: 'A'.repeat(51) },
+  // Deliberately outside the PaymentCycle enum
+  emptyPaymentCycle: { paymentCycle: '' as PaymentCycle },
+  negativeBaseTaxRate: { baseTaxRate: -1 },
+  baseTaxRateAboveMax: { baseTaxRate: 61 },
+  negativeBenefitRate: { benefitRate: -1 },
+  benefitRateAboveMax: { benefitRate: 101 },
+  negativeDeductionRate: { deductionRate: -1 },
+  deductionRateAboveMax: { deductionRate: 101 }
+} satisfies Record<string, Partial<CreatePayGroup>>;
+
+export type InvalidPayGroupVariant = keyof typeof INVALID_PAY_GROUPS;
+
+/**
+ * Named invalid employee payloads, each breaking exactly one validation rule
+ */
+export const INVALID_EMPLOYEES = {
+  badEmail: { email: 'not-an-email' },
+  emptyFirstName: { firstName: '' },
+  invalidJoiningDate: { joiningDate: '2024-02-30' },
+  missingPayGroupId: { payGroupId: undefined }
+} satisfies Record<string, Partial<Record<keyof CreateEmployeeRequest, unknown>>>;
+
+export type InvalidEmployeeVariant = keyof typeof INVALID_EMPLOYEES;
+
+/**
+ * Fluent builder around a payload
+ */
+export class Builder<T extends object> {
+  constructor(protected value: T) { }
+
+  /**
+   * Override fields
+   */
+  with(overrides: Partial<T>): this {
+    this.value = { ...this.value, ...overrides };
+    return this;
+  }
+
+  /**
+   * Remove fields entirely (for "missing field" tests)
+   */
+  without(...keys: (keyof T)[]): this {
+    const copy = { ...this.value };
+    keys.forEach(key => delete copy[key]);
+    this.value = copy;
+    return this;
+  }
+
+  /**
+   * Return the built payload
+   */
+  build(): T {
+    return { ...this.value };
+  }
+}
+
+/**
+ * Builder for CreatePayGroup payloads
+ */
+export class PayGroupBuilder extends Builder<CreatePayGroup> {
+  /**
+   * Apply a named invalid variant
+   */
+  invalid(variant: InvalidPayGroupVariant): this {
+    return this.with(INVALID_PAY_GROUPS[variant]);
+  }
+}
+
+/**
+ * Builder for CreateEmployeeRequest payloads
+ */
+export class EmployeeBuilder extends Builder<CreateEmployeeRequest> {
+  /**
+   * Assign the employee to a pay group
+   */
+  inPayGroup(payGroupId: number): this {
+    return this.with({ payGroupId });
+  }
+
+  /**
+   * Apply a named invalid variant. Fields set to undefined are removed from the payload.
+   */
+  invalid(variant: InvalidEmployeeVariant): this {
+    const overrides: Record<string, unknown> = INVALID_EMPLOYEES[variant];
+    const missing = Object.keys(overrides).filter(key => overrides[key] === undefined) as (keyof CreateEmployeeRequest)[];
+    return this.with(overrides as Partial<CreateEmployeeRequest>).without(...missing);
+  }
+}
+
+/**
+ * TestDataFactory class producing valid-by-default, reproducible payloads
+ */
+export class TestDataFactory {
+  readonly random: SeededRandom;
+
+  /**
+   * Constructor for TestDataFactory
+   * @param seed - Seed for this factory's PRNG
+   */
+  constructor(readonly seed: number) {
+    this.random = new SeededRandom(seed);
+  }
+
+  /**
+   * Create a factory whose seed is derived from the run seed and the test's title path
+   * @param testInfo - Playwright TestInfo of the running test
+   */
+  static forTest(testInfo: TestInfo): TestDataFactory {
+    const label = `${testInfo.titlePath.join(' > ')}#${testInfo.repeatEachIndex}`;
+    return new TestDataFactory(deriveSeed(getRunSeed(), label));
+  }
+
+  /**
+   * Unique employee id in the backend's short format, e.g. `E4K9ZQ2`
+   */
+  employeeId(): string {
+    return `E${this.random.string(6)}`;
+  }
+
+  /**
+   * Joining date (YYYY-MM-DD) drawn from the PRNG, so a seed gives the same date on any day
+   */
+  joiningDate(): string {
+    const offset = this.random.int(0, JOINING_DATE_SPAN_DAYS - 1);
+    return new Date(JOINING_DATE_EPOCH + offset * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Builder for a valid employee
+   */
+  employee(): EmployeeBuilder {
+    const employeeId = this.employeeId();
+    const firstName = this.random.pick(FIRST_NAMES);
+    const lastName = this.random.pick(LAST_NAMES);
+    return new EmployeeBuilder({
+      employeeId,
+      firstName,
+      lastName,
+      department: this.random.pick(DEPARTMENTS),
+      designation: this.random.pick(DESIGNATIONS),
+      email: `${firstName}.${lastName}.${employeeId}@example.com`.toLowerCase(),
+      payGroupId: 1,
+      joiningDate: this.joiningDate(),
+      annualSalary: this.random.float(30000, 150000)
+    });
+  }
+
+  /**
+   * Unique pay group name (mixed case, 1..50 characters), e.g. `PG Qa7Xk2Lm`
+   */
+  groupName(): string {
+    return `PG ${this.random.string(4)}${this.random.string(4, 'abcdefghijklmnopqrstuvwxyz')}`;
+  }
+
+  /**
+   * Builder for a valid pay group
+   */
+  payGroup(): PayGroupBuilder {
+    return new PayGroupBuilder({
+      groupName: this.groupName(),
+      paymentCycle: this.random.pick(PAYMENT_CYCLES),
+      baseTaxRate: this.random.float(0, 60),
+      benefitRate: this.random.float(0, 100),
+      deductionRate: this.random.float(0, 100)
+    });
+  }
+}
+
+/**
+ * Seed for the whole run: TEST_DATA_SEED if set, otherwise generated once and
+ * stored in the environment so worker processes inherit it.
+ */
+export function getRunSeed(): number {
+  const configured = process.env.TEST_DATA_SEED;
+  if (configured !== undefined && configured.trim() !== '') {
+    const seed = Number(configured);
+    if (!Number.isInteger(seed)) {
+      throw new Error(`TEST_DATA_SEED must be an integer, got: ${configured}`);
+    }
+    return seed >>> 0;
+  }
+  const seed = Math.floor(Math.random() * 2 ** 32);
+  process.env.TEST_DATA_SEED = String(seed);
+  return seed;
+}
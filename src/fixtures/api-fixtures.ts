@@ -0,0 +1,171 @@
+/**
+ * API Test Fixtures
+ *
+ * Playwright fixtures for API specs. The API clients come pre-configured with the
+ * environment's auth and retry settings. Every employee or pay group created through
+ * `employeeApi` / `payGroupApi` is deleted after the test, even when it fails. Entities that
+ * cannot be deleted are logged, annotated on the test and attached to the report as
+ * `cleanup-leftovers.json`.
+ * `testData` is a seeded TestDataFactory; the run seed is annotated on every test that uses it.
+ * Builds on the log fixtures: each test's log lines are captured and attached as `logs.txt`.
+ * Attachments are redacted like log output (see Logger.redact).
+ * When API_CONTRACT_SPEC is set, every client checks its calls against that OpenAPI document;
+ * a test's violations are attached as `contract-violations.json` and added to the run's contract report.
+ * With API_CASSETTE_MODE=record every client records its exchanges (cleanup included) to the test's
+ * cassette under API_CASSETTE_DIR; with replay the clients answer from that cassette without a backend,
+ * and `testData` reuses the cassette's seed so payloads match the recording (re-recordings keep it too).
+ * Every client times its requests into the `latency` fixture; the test's latency budgets are checked
+ * when it ends and its samples are added to the run's latency report.
+ *
+ * Usage: import { test, expect } from '../../src/fixtures/api-fixtures';
+ */
+
+import path from 'path';
+import { TestInfo } from '@playwright/test';
+import { test as base } from './log-fixtures';
+import { testConfig } from '../config/test-config';
+import { createAuthStrategy } from '../api/auth';
+import { EmployeeApi } from '../api/employee-api';
+import { PayGroupApi } from '../api/pay-group-api';
+import { PayrollRunApi } from '../api/payroll-run-api';
+import { PayslipApi } from '../api/payslip-api';
+import { CleanupRegistry } from './cleanup-registry';
+import { TestDataFactory, getRunSeed } from '../data/test-data-factory';
+import { OpenApiContract } from '../contract/openapi-contract';
+import { ContractRecorder, appendContractViolations } from '../contract/contract-report';
+import { Cassette } from '../cassette/cassette';
+import { EndpointTemplates, LatencyRecorder } from '../perf/latency';
+import { appendLatencySamples } from '../perf/latency-report';
+import { logger } from '../utils/logger';
+
+/**
+ * Fixtures provided to API tests
+ */
+export interface ApiFixtures {
+  /** Undefined unless API_CASSETTE_MODE is record or replay */
+  cassette: Cassette | undefined;
+  cleanupRegistry: CleanupRegistry;
+  /** Undefined when no contract is configured */
+  contractRecorder: ContractRecorder | undefined;
+  /** Request timings of the test; declare budgets with `latency.expectLatency()` */
+  latency: LatencyRecorder;
+  employeeApi: EmployeeApi;
+  payGroupApi: PayGroupApi;
+  payrollRunApi: PayrollRunApi;
+  payslipApi: PayslipApi;
+  testData: TestDataFactory;
+}
+
+export const test = base.extend<ApiFixtures>({
+  cassette: async ({}, use, testInfo) => {
+    const { mode, dir, match, ignoreBodyFields } = testConfig.api.cassette;
+    if (mode === 'off') {
+      await use(undefined);
+      return;
+    }
+    const cassette = Cassette.open(cassettePath(dir, testInfo), mode, { match, ignoreBodyFields });
+    await use(cassette);
+
+    if (mode === 'record') {
+      cassette.save();
+      logger.info(`Cassette recorded: ${cassette.filePath}`);
+    } else if (cassette.unused.length > 0) {
+      const unused = cassette.unused.map(({ request }) => `${request.method} ${request.url}`);
+      logger.warn(`${unused.length} recorded interaction(s) were not replayed: ${unused.join(', ')}`);
+      testInfo.annotations.push({ type: 'cassette-unused', description: unused.join(', ') });
+    }
+  },
+
+  // Depends on the cassette so cleanup requests are recorded and replayed too
+  cleanupRegistry: async ({ cassette: _cassette }, use, testInfo) => {
+    const registry = new CleanupRegistry();
+    await use(registry);
+
+    const leftovers = await registry.cleanup();
+    if (leftovers.length > 0) {
+      for (const leftover of leftovers) {
+        testInfo.annotations.push({ type: 'cleanup-leftover', description: `${leftover.kind} ${leftover.id}: ${leftover.reason}` });
+      }
+      await testInfo.attach('cleanup-leftovers.json', {
+        body: JSON.stringify(logger.redact(leftovers), null, 2),
+        contentType: 'application/json'
+      });
+    }
+  },
+
+  contractRecorder: async ({}, use, testInfo) => {
+    const { specPath, failOn } = testConfig.api.contract;
+    if (!specPath) {
+      await use(undefined);
+      return;
+    }
+    const recorder = new ContractRecorder(OpenApiContract.load(specPath), failOn);
+    await use(recorder);
+
+    if (recorder.violations.length > 0) {
+      testInfo.annotations.push({ type: 'contract-violations', description: String(recorder.violations.length) });
+      await testInfo.attach('contract-violations.json', {
+        body: JSON.stringify(logger.redact(recorder.violations), null, 2),
+        contentType: 'application/json'
+      });
+      appendContractViolations(testInfo.titlePath.join(' > '), recorder.violations);
+    }
+  },
+
+  latency: async ({}, use, testInfo) => {
+    const { budgets, specPath } = testConfig.api.latency;
+    const recorder = new LatencyRecorder(new EndpointTemplates(OpenApiContract.load(specPath)), budgets);
+    await use(recorder);
+
+    appendLatencySamples(testInfo.titlePath.join(' > '), recorder.samples);
+    // Replayed requests are not timed, so there is nothing to hold to a budget
+    if (testConfig.api.cassette.mode !== 'replay') {
+      recorder.checkBudgets();
+    }
+  },
+
+  employeeApi: async ({ request, cleanupRegistry, contractRecorder, cassette, latency }, use) => {
+    const api = new EmployeeApi(request, testConfig.api.baseUrl, createAuthStrategy(testConfig.api.auth), testConfig.api.retry);
+    await use(api.useCleanupRegistry(cleanupRegistry).useContract(contractRecorder).useCassette(cassette).useLatencyRecorder(latency));
+  },
+
+  payGroupApi: async ({ request, cleanupRegistry, contractRecorder, cassette, latency }, use) => {
+    const api = new PayGroupApi(request, testConfig.api.baseUrl, createAuthStrategy(testConfig.api.auth), testConfig.api.retry);
+    await use(api.useCleanupRegistry(cleanupRegistry).useContract(contractRecorder).useCassette(cassette).useLatencyRecorder(latency));
+  },
+
+  payrollRunApi: async ({ request, contractRecorder, cassette, latency }, use) => {
+    const api = new PayrollRunApi(request, testConfig.api.baseUrl, createAuthStrategy(testConfig.api.auth), testConfig.api.retry);
+    await use(api.useContract(contractRecorder).useCassette(cassette).useLatencyRecorder(latency));
+  },
+
+  payslipApi: async ({ request, contractRecorder, cassette, latency }, use) => {
+    const api = new PayslipApi(request, testConfig.api.baseUrl, createAuthStrategy(testConfig.api.auth), testConfig.api.retry);
+    await use(api.useContract(contractRecorder).useCassette(cassette).useLatencyRecorder(latency));
+  },
+
+  testData: async ({ cassette }, use, testInfo) => {
+    const recordedSeed = cassette?.testDataSeed;
+    const factory = recordedSeed !== undefined ? new TestDataFactory(recordedSeed) : TestDataFactory.forTest(testInfo);
+    // A seed recorded in the cassette is not derived from the run seed, so TEST_DATA_SEED would not reproduce it
+    const description = recordedSeed !== undefined
+      ? `test seed ${factory.seed} (recorded in the cassette)`
+      : `TEST_DATA_SEED=${getRunSeed()} (test seed ${factory.seed})`;
+    testInfo.annotations.push({ type: 'test-data-seed', description });
+    if (cassette) {
+      cassette.testDataSeed = factory.seed;
+    }
+    await use(factory);
+  }
+});
+
+/**
+ * Cassette file of a test: `<dir>/<spec path without .spec.ts>/<test title path>.json`
+ */
+function cassettePath(dir: string, testInfo: TestInfo): string {
+  const spec = path.relative(testInfo.project.testDir, testInfo.file).replace(/\.spec\.[jt]s$/, '');
+  const title = testInfo.titlePath.slice(1).join(' ').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return path.join(dir, spec, `${title}.json`);
+}
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,103 @@
+/**
+ * Cleanup Registry
+ *
+ * Tracks entities a test creates through the API clients so they can be deleted
+ * after the test, whether it passed or failed. Entities are removed in dependency
+ * order (employees before the pay groups they belong to), newest first within a kind.
+ */
+
+import { APIResponse } from '@playwright/test';
+import { logger } from '../utils/logger';
+
+/**
+ * Deletion order per entity kind: lower values are deleted first
+ */
+export const CLEANUP_ORDER = {
+  employee: 10,
+  payGroup: 20
+};
+
+export type EntityKind = keyof typeof CLEANUP_ORDER;
+
+/**
+ * An entity registered for cleanup
+ */
+export interface TrackedEntity {
+  kind: EntityKind;
+  id: string | number;
+  /** Deletes the entity; a 2xx or 404 response counts as cleaned up */
+  remove: () => Promise<APIResponse>;
+}
+
+/**
+ * An entity that could not be deleted during cleanup
+ */
+export interface CleanupLeftover {
+  kind: EntityKind;
+  id: string | number;
+  reason: string;
+}
+
+/**
+ * CleanupRegistry class collecting created entities for teardown
+ */
+export class CleanupRegistry {
+  private entities: TrackedEntity[] = [];
+
+  /**
+   * Register an entity for deletion at teardown. Re-registering the same entity is a no-op.
+   * @param entity - Entity and the call that deletes it
+   */
+  track(entity: TrackedEntity): void {
+    if (!this.entities.some(e => e.kind === entity.kind && e.id === entity.id)) {
+      this.entities.push(entity);
+    }
+  }
+
+  /**
+   * Forget an entity, e.g. because the test already deleted it
+   * @param kind - Entity kind
+   * @param id - Entity id
+   */
+  untrack(kind: EntityKind, id: string | number): void {
+    this.entities = this.entities.filter(e => !(e.kind === kind && e.id === id));
+  }
+
+  /**
+   * Entities currently awaiting cleanup
+   */
+  get tracked(): ReadonlyArray<Pick<TrackedEntity, 'kind' | 'id'>> {
+    return this.entities.map(({ kind, id }) => ({ kind, id }));
+  }
+
+  /**
+   * Delete every tracked entity in dependency order.
+   * Failures do not stop the run; they are returned as leftovers.
+   * @returns Entities that could not be deleted
+   */
+  async cleanup(): Promise<CleanupLeftover[]> {
+    const ordered = this.entities
+      .map((entity, index) => ({ entity, index }))
+      .sort((a, b) => CLEANUP_ORDER[a.entity.kind] - CLEANUP_ORDER[b.entity.kind] || b.index - a.index)
+      .map(({ entity }) => entity);
+    this.entities = [];
+
+    const leftovers: CleanupLeftover[] = [];
+    for (const entity of ordered) {
+      try {
+        const response = await entity.remove();
+        if (!response.ok() && response.status() !== 404) {
+          leftovers.push({ kind: entity.kind, id: entity.id, reason: `status ${response.status()}: ${await response.text()}` });
+        }
+      } catch (e) {
+        leftovers.push({ kind: entity.kind, id: entity.id, reason: e instanceof Error ? e.message : String(e) });
+      }
+    }
+
+    if (ordered.length > 0) {
+      logger.info(`Cleanup removed ${ordered.length - leftovers.length} of ${ordered.length} test entities`);
+    }
+    leftovers.forEach(l => logger.error(`Cleanup leftover: ${l.kind} ${l.id} (${l.reason})`));
+    return leftovers;
+  }
+}
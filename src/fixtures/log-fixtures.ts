@@ -0,0 +1,61 @@
+/**
+ * Log Fixtures
+ *
+ * Base fixtures shared by UI and API specs. While a test runs, every log entry carries its
+ * title, worker index and retry (see Logger), and the lines it logs are collected apart from
+ * other tests'. The global run log is still written as before. Depending on LOG_CAPTURE the
+ * collected lines are attached to the test's report entry as `logs.txt`: for every test (on,
+ * the default), only for tests that did not end as expected (retain-on-failure), or never (off).
+ *
+ * Usage: import { test, expect } from '../../src/fixtures/log-fixtures';
+ */
+
+import { test as base, TestInfo } from '@playwright/test';
+import { testConfig } from '../config/test-config';
+import { LogCaptureMode, logger } from '../utils/logger';
+
+/**
+ * Fixtures provided to every test
+ */
+export interface LogFixtures {
+  /** Automatic: sets the logger's test context and attaches the test's log lines */
+  testLogs: void;
+}
+
+export const test = base.extend<LogFixtures>({
+  testLogs: [async ({}, use, testInfo) => {
+    logger.setTestContext({
+      test: testInfo.titlePath.slice(1).join(' > '),
+      workerIndex: testInfo.workerIndex,
+      retry: testInfo.retry
+    });
+    const capture = logger.capture();
+    try {
+      await use();
+    } finally {
+      const lines = capture.stop();
+      logger.clearTestContext();
+      if (lines.length > 0 && shouldAttachLogs(testConfig.logging.capture, testInfo)) {
+        await testInfo.attach('logs.txt', { body: lines.join('\n') + '\n', contentType: 'text/plain' });
+      }
+    }
+  }, { auto: true }]
+});
+
+/**
+ * Whether a test's captured lines belong in the report
+ * @param mode - Configured capture mode
+ * @param testInfo - The finished test
+ */
+export function shouldAttachLogs(mode: LogCaptureMode, testInfo: Pick<TestInfo, 'status' | 'expectedStatus'>): boolean {
+  switch (mode) {
+    case 'on':
+      return true;
+    case 'off':
+      return false;
+    case 'retain-on-failure':
+      return testInfo.status !== testInfo.expectedStatus;
+  }
+}
+
+export { expect } from '@playwright/test';
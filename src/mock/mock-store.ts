@@ -0,0 +1,479 @@
+/**
+ * Mock Store
+ *
+ * In-memory data store backing the local payroll mock server.
+ * It holds employees, pay groups, payroll runs and payslips and applies the same validation,
+ * uniqueness and employee lifecycle rules as the tw-payroll-system backend, so the API specs can
+ * run without the Java service.
+ */
+
+import { EmployeeStatusValues } from '../api/employee-api';
+import type { Employee, CreateEmployeeRequest } from '../api/employee-api';
+import { PAYMENT_CYCLES } from '../api/pay-group-api';
+import type { PayGroup, CreatePayGroup } from '../api/pay-group-api';
+import type { PayrollRun, StartPayrollRunRequest } from '../api/payroll-run-api';
+import type { Payslip } from '../api/payslip-api';
+import { calculatePay } from '../utils/payroll-calculator';
+import { LifecycleAction, canChangeStatus, nextStatus } from '../data/employee-lifecycle';
+
+const CYCLES: readonly string[] = PAYMENT_CYCLES;
+
+/**
+ * Error raised by store operations. Carries the HTTP status the mock server
+ * should answer with, plus any field-level validation messages.
+ */
+export class MockStoreError extends Error {
+  constructor(public readonly status: number, message: string, public readonly errors: string[] = []) {
+    super(message);
+    this.name = 'MockStoreError';
+  }
+}
+
+/**
+ * MockStore class holding all mock payroll entities
+ */
+export class MockStore {
+  private employees: Map<string, Employee> = new Map();
+  private payGroups: Map<number, PayGroup> = new Map();
+  private nextPayGroupId = 1;
+  private payrollRuns: Map<number, PayrollRun> = new Map();
+  private payslips: Map<number, Payslip> = new Map();
+  private nextRunId = 1;
+  private nextPayslipId = 1;
+
+  constructor() {
+    this.reset();
+  }
+
+  /**
+   * Clear all data and re-create the seed pay groups (one per payment cycle)
+   */
+  reset(): void {
+    this.employees.clear();
+    this.payGroups.clear();
+    this.nextPayGroupId = 1;
+    this.payrollRuns.clear();
+    this.payslips.clear();
+    this.nextRunId = 1;
+    this.nextPayslipId = 1;
+    this.createPayGroup({ groupName: 'Weekly Staff', paymentCycle: 'WEEKLY', baseTaxRate: 10, benefitRate: 5, deductionRate: 2 });
+    this.createPayGroup({ groupName: 'Biweekly Staff', paymentCycle: 'BIWEEKLY', baseTaxRate: 15, benefitRate: 7.5, deductionRate: 3 });
+    this.createPayGroup({ groupName: 'Monthly Staff', paymentCycle: 'MONTHLY', baseTaxRate: 20, benefitRate: 10, deductionRate: 4 });
+  }
+
+  // ------------------------------------------------------------------ Employees
+
+  /**
+   * List employees, optionally filtered by department (case-insensitive), status, pay group
+   * and an inclusive joining date range. Invalid filter values are rejected with a 400.
+   * @param filter - Filters as received in the query string
+   */
+  listEmployees(filter: { department?: string; status?: string; payGroupId?: string; joiningDateFrom?: string; joiningDateTo?: string } = {}): Employee[] {
+    const errors: string[] = [];
+    if (filter.status && !(EmployeeStatusValues as readonly string[]).includes(filter.status)) {
+      errors.push(`status must be one of ${EmployeeStatusValues.join(', ')}`);
+    }
+    if (filter.payGroupId && !Number.isInteger(Number(filter.payGroupId))) {
+      errors.push('payGroupId must be an integer');
+    }
+    for (const key of ['joiningDateFrom', 'joiningDateTo'] as const) {
+      if (filter[key] && !isIsoDate(filter[key]!)) {
+        errors.push(`${key} must be a valid date (YYYY-MM-DD)`);
+      }
+    }
+    if (errors.length > 0) {
+      throw new MockStoreError(400, 'Invalid employee filter', errors);
+    }
+
+    return [...this.employees.values()].filter(e =>
+      (!filter.department || e.department.toLowerCase() === filter.department.toLowerCase()) &&
+      (!filter.status || e.status === filter.status) &&
+      (!filter.payGroupId || e.payGroupId === Number(filter.payGroupId)) &&
+      (!filter.joiningDateFrom || e.joiningDate >= filter.joiningDateFrom) &&
+      (!filter.joiningDateTo || e.joiningDate <= filter.joiningDateTo));
+  }
+
+  getEmployee(employeeId: string): Employee {
+    const employee = this.employees.get(employeeId);
+    if (!employee) {
+      throw new MockStoreError(404, `Employee not found: ${employeeId}`);
+    }
+    return employee;
+  }
+
+  createEmployee(data: CreateEmployeeRequest): Employee {
+    const errors = this.validateEmployee(data, false);
+    if (errors.length > 0) {
+      throw new MockStoreError(400, 'Validation failed', errors);
+    }
+    if (this.employees.has(data.employeeId)) {
+      throw new MockStoreError(409, `Conflict: employee with employeeId ${data.employeeId} already exists`);
+    }
+    this.assertEmailAvailable(data.email);
+
+    const now = new Date().toISOString();
+    const employee: Employee = {
+      employeeId: data.employeeId,
+      firstName: data.firstName,
+      lastName: data.lastName,
+      department: data.department,
+      designation: data.designation,
+      email: data.email,
+      payGroupId: data.payGroupId,
+      status: 'ACTIVE',
+      joiningDate: data.joiningDate,
+      annualSalary: data.annualSalary ?? 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.employees.set(employee.employeeId, employee);
+    return employee;
+  }
+
+  updateEmployee(employeeId: string, data: Partial<Employee>): Employee {
+    const existing = this.getEmployee(employeeId);
+    const errors = this.validateEmployee(data, true);
+    if (data.status !== undefined && !(EmployeeStatusValues as readonly unknown[]).includes(data.status)) {
+      errors.push(`status must be one of ${EmployeeStatusValues.join(', ')}`);
+    }
+    if (errors.length > 0) {
+      throw new MockStoreError(400, 'Validation failed', errors);
+    }
+    if (data.email !== undefined && data.email.toLowerCase() !== existing.email.toLowerCase()) {
+      this.assertEmailAvailable(data.email);
+    }
+    if (data.status !== undefined && !canChangeStatus(existing.status, data.status)) {
+      throw new MockStoreError(409, `Conflict: employee ${employeeId} cannot change from ${existing.status} to ${data.status}`);
+    }
+
+    const updated: Employee = {
+      ...existing,
+      ...pick(data, ['firstName', 'lastName', 'department', 'designation', 'email', 'payGroupId', 'joiningDate', 'status', 'annualSalary']),
+      employeeId: existing.employeeId,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString()
+    };
+    this.employees.set(employeeId, updated);
+    return updated;
+  }
+
+  /**
+   * Move an employee through its lifecycle (see src/data/employee-lifecycle.ts)
+   */
+  transitionEmployee(employeeId: string, action: LifecycleAction): Employee {
+    const existing = this.getEmployee(employeeId);
+    const status = nextStatus(existing.status, action);
+    if (!status) {
+      throw new MockStoreError(409, `Conflict: employee ${employeeId} is ${existing.status} and cannot ${action}`);
+    }
+    const updated: Employee = { ...existing, status, updatedAt: new Date().toISOString() };
+    this.employees.set(employeeId, updated);
+    return updated;
+  }
+
+  deleteEmployee(employeeId: string): void {
+    this.getEmployee(employeeId);
+    this.employees.delete(employeeId);
+  }
+
+  private assertEmailAvailable(email: string): void {
+    const taken = [...this.employees.values()].some(e => e.email.toLowerCase() === email.toLowerCase());
+    if (taken) {
+      throw new MockStoreError(409, `Conflict: email ${email} already exists`);
+    }
+  }
+
+  private validateEmployee(data: Partial<CreateEmployeeRequest>, partial: boolean): string[] {
+    const errors: string[] = [];
+    const textFields: (keyof CreateEmployeeRequest)[] = ['employeeId', 'firstName', 'lastName', 'department', 'designation'];
+    for (const field of textFields) {
+      if (partial && data[field] === undefined) continue;
+      if (typeof data[field] !== 'string' || (data[field] as string).trim() === '') {
+        errors.push(`${field} is required`);
+      }
+    }
+    if (!partial || data.email !== undefined) {
+      if (typeof data.email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.email)) {
+        errors.push('email is invalid');
+      }
+    }
+    if (!partial || data.payGroupId !== undefined) {
+      if (typeof data.payGroupId !== 'number') {
+        errors.push('payGroupId is required');
+      } else if (!this.payGroups.has(data.payGroupId)) {
+        errors.push(`payGroupId ${data.payGroupId} is invalid`);
+      }
+    }
+    if (!partial || data.joiningDate !== undefined) {
+      if (typeof data.joiningDate !== 'string' || !isIsoDate(data.joiningDate)) {
+        errors.push('joiningDate must be a valid date (YYYY-MM-DD)');
+      }
+    }
+    if (data.annualSalary !== undefined) {
+      const salary = data.annualSalary;
+      if (typeof salary !== 'number' || !Number.isFinite(salary) || salary < 0) {
+        errors.push('annualSalary must be a non-negative number');
+      }
+    }
+    return errors;
+  }
+
+  // ------------------------------------------------------------------ Pay groups
+
+  /**
+   * List pay groups, optionally filtered by payment cycle and group name (both case-insensitive).
+   * Unknown cycles are rejected with a 500, matching the backend's enum conversion failure.
+   * @param filter - Optional payment cycle (exact) and group name (substring) filters
+   */
+  listPayGroups(filter: { paymentCycle?: string; groupName?: string } = {}): PayGroup[] {
+    let result = [...this.payGroups.values()];
+    if (filter.paymentCycle) {
+      const cycle = filter.paymentCycle.toUpperCase();
+      if (!CYCLES.includes(cycle)) {
+        throw new MockStoreError(500, `Invalid paymentCycle value: ${filter.paymentCycle}`);
+      }
+      result = result.filter(pg => pg.paymentCycle === cycle);
+    }
+    if (filter.groupName) {
+      const name = filter.groupName.toLowerCase();
+      result = result.filter(pg => pg.groupName.toLowerCase().includes(name));
+    }
+    return result;
+  }
+
+  getPayGroup(payGroupId: number): PayGroup {
+    const payGroup = this.payGroups.get(payGroupId);
+    if (!payGroup) {
+      throw new MockStoreError(404, `Pay group not found: ${payGroupId}`);
+    }
+    return payGroup;
+  }
+
+  createPayGroup(data: CreatePayGroup): PayGroup {
+    const errors = validatePayGroup(data, false);
+    if (errors.length > 0) {
+      throw new MockStoreError(400, 'Validation failed', errors);
+    }
+    this.assertGroupNameAvailable(data.groupName);
+
+    const payGroup: PayGroup = {
+      payGroupId: this.nextPayGroupId++,
+      groupName: data.groupName,
+      paymentCycle: data.paymentCycle,
+      baseTaxRate: data.baseTaxRate,
+      benefitRate: data.benefitRate,
+      deductionRate: data.deductionRate,
+      createdAt: new Date().toISOString()
+    };
+    this.payGroups.set(payGroup.payGroupId, payGroup);
+    return payGroup;
+  }
+
+  updatePayGroup(payGroupId: number, data: Partial<CreatePayGroup>): PayGroup {
+    const existing = this.getPayGroup(payGroupId);
+    const errors = validatePayGroup(data, true);
+    if (errors.length > 0) {
+      throw new MockStoreError(400, 'Validation failed', errors);
+    }
+    if (data.groupName !== undefined && data.groupName.toLowerCase() !== existing.groupName.toLowerCase()) {
+      this.assertGroupNameAvailable(data.groupName);
+    }
+
+    const updated: PayGroup = {
+      ...existing,
+      ...pick(data, ['groupName', 'paymentCycle', 'baseTaxRate', 'benefitRate', 'deductionRate']),
+      payGroupId: existing.payGroupId,
+      createdAt: existing.createdAt
+    };
+    this.payGroups.set(payGroupId, updated);
+    return updated;
+  }
+
+  deletePayGroup(payGroupId: number): void {
+    this.getPayGroup(payGroupId);
+    if ([...this.employees.values()].some(e => e.payGroupId === payGroupId)) {
+      throw new MockStoreError(409, `Conflict: pay group ${payGroupId} still has employees assigned`);
+    }
+    this.payGroups.delete(payGroupId);
+  }
+
+  private assertGroupNameAvailable(groupName: string): void {
+    const taken = [...this.payGroups.values()].some(pg => pg.groupName.toLowerCase() === groupName.toLowerCase());
+    if (taken) {
+      throw new MockStoreError(409, `Conflict: pay group ${groupName} already exists`);
+    }
+  }
+
+  // ------------------------------------------------------------------ Payroll runs
+
+  /**
+   * Queue a payroll run. Runs for the same pay group may not overlap unless the earlier one failed.
+   */
+  startPayrollRun(data: StartPayrollRunRequest): PayrollRun {
+    const errors: string[] = [];
+    if (typeof data.payGroupId !== 'number' || !this.payGroups.has(data.payGroupId)) {
+      errors.push(`payGroupId ${data.payGroupId} is invalid`);
+    }
+    for (const field of ['periodStart', 'periodEnd'] as const) {
+      if (typeof data[field] !== 'string' || !isIsoDate(data[field])) {
+        errors.push(`${field} must be a valid date (YYYY-MM-DD)`);
+      }
+    }
+    if (errors.length === 0 && data.periodEnd < data.periodStart) {
+      errors.push('periodEnd must not be before periodStart');
+    }
+    if (errors.length > 0) {
+      throw new MockStoreError(400, 'Validation failed', errors);
+    }
+
+    const overlapping = [...this.payrollRuns.values()].find(run =>
+      run.payGroupId === data.payGroupId && run.status !== 'FAILED' &&
+      run.periodStart <= data.periodEnd && data.periodStart <= run.periodEnd);
+    if (overlapping) {
+      throw new MockStoreError(409, `Conflict: payroll run ${overlapping.runId} already covers ${overlapping.periodStart} to ${overlapping.periodEnd}`);
+    }
+
+    const run: PayrollRun = {
+      runId: this.nextRunId++,
+      payGroupId: data.payGroupId,
+      periodStart: data.periodStart,
+      periodEnd: data.periodEnd,
+      status: 'PENDING',
+      employeeCount: 0,
+      createdAt: new Date().toISOString(),
+      completedAt: null
+    };
+    this.payrollRuns.set(run.runId, run);
+    return { ...run };
+  }
+
+  /**
+   * Read a payroll run. Each read advances an unfinished run one step
+   * (PENDING -> PROCESSING -> COMPLETED), so clients have to poll as they would against the backend.
+   */
+  getPayrollRun(runId: number): PayrollRun {
+    const run = this.payrollRuns.get(runId);
+    if (!run) {
+      throw new MockStoreError(404, `Payroll run not found: ${runId}`);
+    }
+    if (run.status === 'PENDING') {
+      run.status = 'PROCESSING';
+    } else if (run.status === 'PROCESSING') {
+      this.completePayrollRun(run);
+    }
+    return { ...run };
+  }
+
+  listPayslips(runId: number): Payslip[] {
+    const run = this.payrollRuns.get(runId);
+    if (!run) {
+      throw new MockStoreError(404, `Payroll run not found: ${runId}`);
+    }
+    if (run.status !== 'COMPLETED') {
+      throw new MockStoreError(409, `Conflict: payroll run ${runId} is ${run.status}`);
+    }
+    return [...this.payslips.values()].filter(p => p.runId === runId);
+  }
+
+  getPayslip(payslipId: number): Payslip {
+    const payslip = this.payslips.get(payslipId);
+    if (!payslip) {
+      throw new MockStoreError(404, `Payslip not found: ${payslipId}`);
+    }
+    return payslip;
+  }
+
+  /**
+   * Produce a payslip for every active employee of the run's pay group who joined by the end of the period.
+   * A run whose pay group has been deleted, or whose figures cannot be calculated, fails.
+   */
+  private completePayrollRun(run: PayrollRun): void {
+    const payGroup = this.payGroups.get(run.payGroupId);
+    const employees = [...this.employees.values()].filter(e =>
+      e.payGroupId === run.payGroupId && e.status === 'ACTIVE' && e.joiningDate <= run.periodEnd);
+
+    const now = new Date().toISOString();
+    const payslips: Payslip[] = [];
+    try {
+      if (!payGroup) {
+        throw new Error(`pay group ${run.payGroupId} no longer exists`);
+      }
+      for (const employee of employees) {
+        const annualSalary = employee.annualSalary ?? 0;
+        const { gross, tax, benefits, deductions, net } = calculatePay(annualSalary, payGroup);
+        payslips.push({
+          payslipId: 0,
+          runId: run.runId,
+          employeeId: employee.employeeId,
+          payGroupId: run.payGroupId,
+          periodStart: run.periodStart,
+          periodEnd: run.periodEnd,
+          annualSalary,
+          gross,
+          tax,
+          benefits,
+          deductions,
+          net,
+          createdAt: now
+        });
+      }
+    } catch {
+      run.status = 'FAILED';
+      run.completedAt = now;
+      return;
+    }
+
+    for (const payslip of payslips) {
+      payslip.payslipId = this.nextPayslipId++;
+      this.payslips.set(payslip.payslipId, payslip);
+    }
+    run.status = 'COMPLETED';
+    run.employeeCount = payslips.length;
+    run.completedAt = now;
+  }
+}
+
+/**
+ * Validate a pay group payload
+ * @param data - Pay group payload
+ * @param partial - When true only the supplied fields are checked
+ * @returns List of validation messages (empty when valid)
+ */
+function validatePayGroup(data: Partial<CreatePayGroup>, partial: boolean): string[] {
+  const errors: string[] = [];
+  if (!partial || data.groupName !== undefined) {
+    if (typeof data.groupName !== 'string' || data.groupName.trim().length === 0 || data.groupName.length > 50) {
+      errors.push('groupName must be between 1 and 50 characters');
+    }
+  }
+  if (!partial || data.paymentCycle !== undefined) {
+    if (typeof data.paymentCycle !== 'string' || !CYCLES.includes(data.paymentCycle)) {
+      errors.push(`paymentCycle must be one of ${PAYMENT_CYCLES.join(', ')}`);
+    }
+  }
+  const rates: [keyof CreatePayGroup, number][] = [['baseTaxRate', 60], ['benefitRate', 100], ['deductionRate', 100]];
+  for (const [field, max] of rates) {
+    if (partial && data[field] === undefined) continue;
+    const value = data[field];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > max) {
+      errors.push(`${field} must be between 0 and ${max}`);
+    }
+  }
+  return errors;
+}
+
+/** Check a YYYY-MM-DD string is a real calendar date */
+function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/** Copy only the listed keys that are present on the source object */
+function pick<T extends object, K extends keyof T>(source: T, keys: K[]): Partial<Pick<T, K>> {
+  const result: Partial<Pick<T, K>> = {};
+  for (const key of keys) {
+    if (source[key] !== undefined) result[key] = source[key];
+  }
+  return result;
+}
@@ -0,0 +1,475 @@
+/**
+ * Payroll Mock Server
+ *
+ * A lightweight HTTP stand-in for the tw-payroll-system API, built on Node's http module.
+ * It serves the `/employee`, `/pay-groups`, `/payroll-runs` and `/payslips` endpoints from
+ * an in-memory MockStore so the API specs can run on laptops and air-gapped CI without the Java backend.
+ * An OAuth2 client-credentials token endpoint is exposed at `/oauth/token`; pass `auth`
+ * options to require credentials on every other route.
+ * Transient failures can be injected with `injectFaults()`, and POSTs carrying an
+ * `Idempotency-Key` header are replayed instead of being applied twice. An incoming
+ * `X-Correlation-Id` header is echoed on the response.
+ * Started from Playwright's globalSetup when PAYROLL_API_MODE=mock.
+ */
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { MockStore, MockStoreError } from './mock-store';
+import { logger } from '../utils/logger';
+
+/**
+ * Parsed request passed to route handlers
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * Response returned by route handlers
+ */
+export interface MockResponse {
+  status: number;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Route handler signature
+ */
+export type MockRouteHandler = (req: MockRequest) => MockResponse | Promise<MockResponse>;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: MockRouteHandler;
+  isPublic: boolean;
+}
+
+/**
+ * Credentials the mock server accepts when auth is enforced
+ */
+export interface MockAuthOptions {
+  /** OAuth2 client accepted by `/oauth/token` */
+  client?: { clientId: string; clientSecret: string };
+  /** Lifetime of issued access tokens (default 3600s) */
+  tokenTtlSeconds?: number;
+  /** Accepted basic auth credentials */
+  basic?: { username: string; password: string };
+  /** Accepted static bearer tokens */
+  staticTokens?: string[];
+}
+
+/**
+ * A failure served instead of the real route response
+ */
+export interface MockFault {
+  /** Status to answer with (default 503) */
+  status?: number;
+  headers?: Record<string, string>;
+  /** Body to answer with instead of an error body, e.g. a malformed 200 */
+  body?: unknown;
+  /** Destroy the connection without answering, simulating a connection reset */
+  reset?: boolean;
+}
+
+/**
+ * Options for PayrollMockServer
+ */
+export interface MockServerOptions {
+  port?: number;
+  basePath?: string;
+  store?: MockStore;
+  /** When set, every route except the token endpoint requires a valid Authorization header */
+  auth?: MockAuthOptions;
+}
+
+/**
+ * PayrollMockServer class serving the payroll API from memory
+ */
+export class PayrollMockServer {
+  readonly store: MockStore;
+  private readonly basePath: string;
+  private readonly port: number;
+  private readonly routes: MockRoute[] = [];
+  private readonly auth?: MockAuthOptions;
+  private readonly issuedTokens: Map<string, number> = new Map();
+  private tokenRequests = 0;
+  private readonly faults: { method: string; path: string; queue: MockFault[] }[] = [];
+  private readonly idempotentResponses: Map<string, MockResponse> = new Map();
+  private server: http.Server | null = null;
+
+  /**
+   * Constructor for PayrollMockServer
+   * @param options - Port, base path and optional pre-populated store
+   */
+  constructor(options: MockServerOptions = {}) {
+    this.port = options.port ?? 0;
+    this.basePath = (options.basePath ?? '/tw-payroll-system/api').replace(/\/$/, '');
+    this.store = options.store ?? new MockStore();
+    this.auth = options.auth;
+    this.registerRoutes();
+  }
+
+  /**
+   * Base URL of the running server, including the API base path
+   */
+  get baseUrl(): string {
+    if (!this.server) {
+      throw new Error('Mock server is not running; call start() first');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://localhost:${port}${this.basePath}`;
+  }
+
+  /**
+   * Number of successful requests made to the token endpoint
+   */
+  get tokenRequestCount(): number {
+    return this.tokenRequests;
+  }
+
+  /**
+   * Invalidate every issued access token, as if they had all expired server-side
+   */
+  revokeTokens(): void {
+    this.issuedTokens.clear();
+  }
+
+  /**
+   * Queue faults for a route. Each matching request consumes one fault until the queue is empty,
+   * after which the route answers normally again.
+   * @param method - HTTP method
+   * @param path - Request path relative to the API base path (query string excluded)
+   * @param faults - Faults to serve, in order
+   */
+  injectFaults(method: string, path: string, faults: MockFault[]): void {
+    this.faults.push({ method: method.toUpperCase(), path, queue: [...faults] });
+  }
+
+  /**
+   * Number of injected faults not yet served
+   */
+  get pendingFaultCount(): number {
+    return this.faults.reduce((count, f) => count + f.queue.length, 0);
+  }
+
+  /**
+   * Drop all queued faults
+   */
+  clearFaults(): void {
+    this.faults.length = 0;
+  }
+
+  /**
+   * Register a route. Path segments written as `:name` are captured into `req.params`.
+   * @param method - HTTP method
+   * @param path - Path relative to the API base path
+   * @param handler - Route handler
+   * @param isPublic - When true the route is served without credentials even if auth is enforced
+   */
+  route(method: string, path: string, handler: MockRouteHandler, isPublic = false): void {
+    const paramNames: string[] = [];
+    const source = path.replace(/:([A-Za-z]+)/g, (_, name) => {
+      paramNames.push(name);
+      return '([^/]+)';
+    });
+    this.routes.push({ method: method.toUpperCase(), pattern: new RegExp(`^${source}/?$`), paramNames, handler, isPublic });
+  }
+
+  /**
+   * Start listening
+   */
+  async start(): Promise<void> {
+    if (this.server) return;
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(err => {
+        logger.error(`Mock server failure: ${err instanceof Error ? err.message : String(err)}`);
+        this.send(res, { status: 500, body: errorBody(500, 'Internal Server Error', req.url ?? '') });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, () => resolve());
+    });
+    this.server = server;
+    logger.info(`Payroll mock server listening at ${this.baseUrl}`);
+  }
+
+  /**
+   * Stop listening and drop open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    logger.info('Payroll mock server stopped');
+  }
+
+  private registerRoutes(): void {
+    const store = this.store;
+
+    // OAuth2 client-credentials token endpoint
+    this.route('POST', '/oauth/token', req => this.issueToken(req.body), true);
+
+    // Employees
+    this.route('GET', '/employee', req => {
+      const employees = store.listEmployees({
+        department: req.query.get('department') ?? undefined,
+        status: req.query.get('status') ?? undefined,
+        payGroupId: req.query.get('payGroupId') ?? undefined,
+        joiningDateFrom: req.query.get('joiningDateFrom') ?? undefined,
+        joiningDateTo: req.query.get('joiningDateTo') ?? undefined
+      });
+      return listResponse(employees, req.query, ['employeeId', 'firstName', 'lastName', 'email', 'department', 'designation',
+        'payGroupId', 'joiningDate', 'status', 'annualSalary', 'createdAt', 'updatedAt']);
+    });
+    this.route('POST', '/employee', req => ({ status: 201, body: store.createEmployee(req.body) }));
+    this.route('GET', '/employee/:employeeId', req => ({ status: 200, body: store.getEmployee(req.params.employeeId) }));
+    this.route('PUT', '/employee/:employeeId', req => ({ status: 200, body: store.updateEmployee(req.params.employeeId, req.body) }));
+    this.route('POST', '/employee/:employeeId/leave', req => ({ status: 200, body: store.transitionEmployee(req.params.employeeId, 'leave') }));
+    this.route('POST', '/employee/:employeeId/reactivate', req => ({ status: 200, body: store.transitionEmployee(req.params.employeeId, 'reactivate') }));
+    this.route('POST', '/employee/:employeeId/terminate', req => ({ status: 200, body: store.transitionEmployee(req.params.employeeId, 'terminate') }));
+    this.route('DELETE', '/employee/:employeeId', req => {
+      store.deleteEmployee(req.params.employeeId);
+      return { status: 204 };
+    });
+
+    // Pay groups
+    this.route('GET', '/pay-groups', req => {
+      const payGroups = store.listPayGroups({
+        paymentCycle: req.query.get('paymentCycle') ?? undefined,
+        groupName: req.query.get('groupName') ?? undefined
+      });
+      return listResponse(payGroups, req.query, ['payGroupId', 'groupName', 'paymentCycle', 'baseTaxRate', 'benefitRate', 'deductionRate', 'createdAt']);
+    });
+    this.route('POST', '/pay-groups', req => ({ status: 201, body: store.createPayGroup(req.body) }));
+    this.route('GET', '/pay-groups/:id', req => ({ status: 200, body: store.getPayGroup(toId(req.params.id)) }));
+    this.route('PUT', '/pay-groups/:id', req => ({ status: 200, body: store.updatePayGroup(toId(req.params.id), req.body) }));
+    this.route('PATCH', '/pay-groups/:id', req => ({ status: 200, body: store.updatePayGroup(toId(req.params.id), req.body) }));
+    this.route('DELETE', '/pay-groups/:id', req => {
+      store.deletePayGroup(toId(req.params.id));
+      return { status: 204 };
+    });
+
+    // Payroll runs and payslips
+    this.route('POST', '/payroll-runs', req => ({ status: 202, body: store.startPayrollRun(req.body) }));
+    this.route('GET', '/payroll-runs/:runId', req => ({ status: 200, body: store.getPayrollRun(toId(req.params.runId)) }));
+    this.route('GET', '/payroll-runs/:runId/payslips', req => ({ status: 200, body: store.listPayslips(toId(req.params.runId)) }));
+    this.route('GET', '/payslips/:payslipId', req => ({ status: 200, body: store.getPayslip(toId(req.params.payslipId)) }));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = (req.method ?? 'GET').toUpperCase();
+    const correlationId = req.headers['x-correlation-id'];
+    if (typeof correlationId === 'string') {
+      // Echoed like the backend does, so a response can be matched to the request that caused it
+      res.setHeader('X-Correlation-Id', correlationId);
+    }
+
+    if (!url.pathname.startsWith(this.basePath)) {
+      this.send(res, { status: 404, body: errorBody(404, 'Not Found', url.pathname) });
+      return;
+    }
+    const path = url.pathname.slice(this.basePath.length) || '/';
+
+    const candidates = this.routes.filter(r => r.pattern.test(path));
+    const route = candidates.find(r => r.method === method);
+    if (!route) {
+      const status = candidates.length > 0 ? 405 : 404;
+      this.send(res, { status, body: errorBody(status, status === 405 ? 'Method Not Allowed' : 'Not Found', url.pathname) });
+      return;
+    }
+
+    const match = route.pattern.exec(path)!;
+    const params: Record<string, string> = {};
+    route.paramNames.forEach((name, i) => { params[name] = decodeURIComponent(match[i + 1]); });
+
+    const fault = this.takeFault(method, path);
+    if (fault?.reset) {
+      req.socket.destroy();
+      return;
+    }
+    if (fault) {
+      const status = fault.status ?? 503;
+      this.send(res, { status, body: fault.body ?? errorBody(status, 'Injected fault', url.pathname), headers: fault.headers });
+      return;
+    }
+
+    if (this.auth && !route.isPublic && !this.isAuthorized(req.headers.authorization)) {
+      this.send(res, {
+        status: 401,
+        body: errorBody(401, 'Unauthorized', url.pathname),
+        headers: { 'WWW-Authenticate': 'Bearer' }
+      });
+      return;
+    }
+
+    let body: any;
+    try {
+      body = await readBody(req);
+    } catch {
+      this.send(res, { status: 400, body: errorBody(400, 'Malformed JSON request body', url.pathname) });
+      return;
+    }
+
+    const idempotencyKey = method === 'POST' ? req.headers['idempotency-key'] : undefined;
+    const replayKey = typeof idempotencyKey === 'string' ? `${path}|${idempotencyKey}` : undefined;
+    const replay = replayKey ? this.idempotentResponses.get(replayKey) : undefined;
+    if (replay) {
+      this.send(res, replay);
+      return;
+    }
+
+    try {
+      const result = await route.handler({ method, path, params, query: url.searchParams, headers: req.headers, body });
+      if (replayKey && result.status < 300) {
+        this.idempotentResponses.set(replayKey, result);
+      }
+      this.send(res, result);
+    } catch (err) {
+      if (err instanceof MockStoreError) {
+        this.send(res, { status: err.status, body: errorBody(err.status, err.message, url.pathname, err.errors) });
+        return;
+      }
+      throw err;
+    }
+  }
+
+  private takeFault(method: string, path: string): MockFault | undefined {
+    const entry = this.faults.find(f => f.method === method && f.path === path && f.queue.length > 0);
+    return entry?.queue.shift();
+  }
+
+  private issueToken(form: Record<string, string>): MockResponse {
+    if (form.grant_type !== 'client_credentials') {
+      return { status: 400, body: { error: 'unsupported_grant_type' } };
+    }
+    const client = this.auth?.client;
+    if (client && (form.client_id !== client.clientId || form.client_secret !== client.clientSecret)) {
+      return { status: 401, body: { error: 'invalid_client' } };
+    }
+    const ttl = this.auth?.tokenTtlSeconds ?? 3600;
+    const token = randomUUID();
+    this.issuedTokens.set(token, Date.now() + ttl * 1000);
+    this.tokenRequests++;
+    return { status: 200, body: { access_token: token, token_type: 'Bearer', expires_in: ttl } };
+  }
+
+  private isAuthorized(header: string | undefined): boolean {
+    if (!header) return false;
+    const [scheme, value = ''] = header.split(' ');
+    if (scheme === 'Bearer') {
+      const expiresAt = this.issuedTokens.get(value);
+      if (expiresAt !== undefined && expiresAt > Date.now()) return true;
+      return this.auth?.staticTokens?.includes(value) ?? false;
+    }
+    if (scheme === 'Basic' && this.auth?.basic) {
+      const { username, password } = this.auth.basic;
+      return Buffer.from(value, 'base64').toString('utf8') === `${username}:${password}`;
+    }
+    return false;
+  }
+
+  private send(res: ServerResponse, result: MockResponse): void {
+    const headers: Record<string, string> = { ...result.headers };
+    if (result.body === undefined) {
+      res.writeHead(result.status, headers);
+      res.end();
+      return;
+    }
+    headers['Content-Type'] = headers['Content-Type'] ?? 'application/json';
+    res.writeHead(result.status, headers);
+    res.end(JSON.stringify(result.body));
+  }
+}
+
+/**
+ * Build an error body in the backend's format
+ */
+export function errorBody(status: number, message: string, path: string, errors: string[] = []) {
+  return {
+    timestamp: new Date().toISOString(),
+    status,
+    error: http.STATUS_CODES[status] ?? 'Error',
+    message: errors.length > 0 ? `${message}: ${errors.join('; ')}` : message,
+    errors,
+    path
+  };
+}
+
+/**
+ * Sort and page a list according to Spring-style query parameters
+ * (`sort=field,asc|desc`, zero-based `page`, `size`). The full, unpaged
+ * count is returned in the `X-Total-Count` header.
+ * @param items - Filtered items
+ * @param query - Request query parameters
+ * @param sortable - Fields that may be sorted on
+ */
+export function listResponse<T>(items: T[], query: URLSearchParams, sortable: (keyof T & string)[]): MockResponse {
+  let result = [...items];
+
+  const sort = query.get('sort');
+  if (sort) {
+    const [field, direction = 'asc'] = sort.split(',');
+    if (!sortable.includes(field as keyof T & string) || !['asc', 'desc'].includes(direction.toLowerCase())) {
+      throw new MockStoreError(400, `Invalid sort parameter: ${sort}`);
+    }
+    const key = field as keyof T;
+    const sign = direction.toLowerCase() === 'desc' ? -1 : 1;
+    result.sort((a, b) => {
+      const x = a[key] as any;
+      const y = b[key] as any;
+      const order = typeof x === 'string' && typeof y === 'string' ? x.localeCompare(y) : x < y ? -1 : x > y ? 1 : 0;
+      return order * sign;
+    });
+  }
+
+  const page = query.get('page');
+  const size = query.get('size');
+  if (page !== null || size !== null) {
+    const pageNumber = page === null ? 0 : Number(page);
+    const pageSize = size === null ? 20 : Number(size);
+    if (!Number.isInteger(pageNumber) || pageNumber < 0 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > 1000) {
+      throw new MockStoreError(400, `Invalid paging parameters: page=${page}, size=${size}`);
+    }
+    result = result.slice(pageNumber * pageSize, (pageNumber + 1) * pageSize);
+  }
+
+  return { status: 200, body: result, headers: { 'X-Total-Count': String(items.length) } };
+}
+
+/** Parse a numeric path id, rejecting anything that is not an integer */
+function toId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id)) {
+    throw new MockStoreError(400, `Invalid id: ${value}`);
+  }
+  return id;
+}
+
+/**
+ * Read and parse a request body. Form-encoded bodies become a key/value object,
+ * anything else is parsed as JSON; an empty body parses as `{}`.
+ */
+async function readBody(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8').trim();
+  if (raw === '') return {};
+  if ((req.headers['content-type'] ?? '').startsWith('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(raw));
+  }
+  return JSON.parse(raw);
+}
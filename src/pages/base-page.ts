@@ -56,10 +56,10 @@ export class BasePage {
    * Fill text in an input field
    * @param locator - Playwright Locator
    * @param text - Text to fill
-   * @param description - Description of the field for logging
+   * @param description - Description of the field for logging; the text is masked for sensitive fields (e.g. 'Password field')
    */
   async fill(locator: Locator, text: string, description: string = 'field'): Promise<void> {
-    logger.step(`Filling '${text}' in: ${description}`);
+    logger.step(`Filling '${logger.redactor.redactField(description, text)}' in: ${description}`);
     await this.waitForElement(locator);
     await locator.clear();
     await locator.fill(text);
@@ -0,0 +1,53 @@
+/**
+ * Latency Compare CLI
+ *
+ * Usage: npm run latency:compare -- <before.json> <after.json> [--threshold 20]
+ *
+ * Prints p50/p95/max per endpoint for two latency reports and the p95 change. Exits with 1
+ * when an endpoint's p95 grew by more than the threshold (percent, default 20).
+ */
+
+import fs from 'fs';
+import { LatencyReport, compareLatencyReports } from './latency-report';
+
+function main(argv: string[]): number {
+  const positional: string[] = [];
+  let threshold = 20;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--threshold') {
+      threshold = Number(argv[++i]);
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+  if (positional.length !== 2 || !Number.isFinite(threshold)) {
+    throw new Error('Usage: npm run latency:compare -- <before.json> <after.json> [--threshold 20]');
+  }
+
+  const [before, after] = positional.map(file => JSON.parse(fs.readFileSync(file, 'utf8')) as LatencyReport);
+  const changes = compareLatencyReports(before, after);
+  const describe = (stats?: { p50: number; p95: number; max: number }) =>
+    stats ? `p50 ${stats.p50} / p95 ${stats.p95} / max ${stats.max}` : '-';
+  const width = Math.max(0, ...changes.map(change => change.endpoint.length));
+
+  let regressions = 0;
+  for (const change of changes) {
+    const delta = change.p95ChangePct === undefined ? '' : ` (p95 ${change.p95ChangePct > 0 ? '+' : ''}${change.p95ChangePct}%)`;
+    const regressed = (change.p95ChangePct ?? 0) > threshold;
+    if (regressed) regressions++;
+    console.log(`${regressed ? '!' : ' '} ${change.endpoint.padEnd(width)}  ${describe(change.before)} -> ${describe(change.after)}${delta}`);
+  }
+  console.log(regressions === 0
+    ? `No endpoint's p95 grew by more than ${threshold}%`
+    : `${regressions} endpoint(s) slower by more than ${threshold}% at p95`);
+  return regressions === 0 ? 0 : 1;
+}
+
+if (require.main === module) {
+  try {
+    process.exit(main(process.argv.slice(2)));
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(2);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Latency Report
+ *
+ * Workers append each test's samples to a run log; the global teardown folds the log into
+ * `test-results/latency-report.json` with p50/p95/max per endpoint. Keep a report from an
+ * earlier run and compare it with compareLatencyReports() (`npm run latency:compare`) to
+ * spot endpoints that got slower.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { RESULTS_DIR } from '../utils/paths';
+import { LatencySample, LatencyStats, summarizeLatency } from './latency';
+
+const RUN_LOG_PATH = path.join(RESULTS_DIR, 'latency', 'samples.jsonl');
+export const LATENCY_REPORT_PATH = path.join(RESULTS_DIR, 'latency-report.json');
+
+/**
+ * Contents of latency-report.json
+ */
+export interface LatencyReport {
+  generatedAt: string;
+  /** Configuration profile and API base URL the run measured */
+  profile: string;
+  baseUrl: string;
+  total: number;
+  endpoints: Record<string, LatencyStats>;
+}
+
+/**
+ * Change of one endpoint between two reports
+ */
+export interface LatencyChange {
+  endpoint: string;
+  before?: LatencyStats;
+  after?: LatencyStats;
+  /** Relative p95 change in percent; undefined when the endpoint is missing from one report */
+  p95ChangePct?: number;
+}
+
+/**
+ * Remove the samples of a previous run (called from globalSetup)
+ */
+export function clearLatencyRun(): void {
+  fs.rmSync(RUN_LOG_PATH, { force: true });
+}
+
+/**
+ * Append one test's samples to the run log
+ * @param test - Test title path
+ * @param samples - Samples recorded during the test
+ */
+export function appendLatencySamples(test: string, samples: readonly LatencySample[]): void {
+  if (samples.length === 0) return;
+  fs.mkdirSync(path.dirname(RUN_LOG_PATH), { recursive: true });
+  fs.appendFileSync(RUN_LOG_PATH, samples.map(sample => JSON.stringify({ test, ...sample })).join('\n') + '\n');
+}
+
+/**
+ * Summarise the run log into the latency report
+ * @param profile - Configuration profile of the run
+ * @param baseUrl - API base URL of the run
+ * @returns The report written
+ */
+export function writeLatencyReport(profile: string, baseUrl: string): LatencyReport {
+  const samples: LatencySample[] = fs.existsSync(RUN_LOG_PATH)
+    ? fs.readFileSync(RUN_LOG_PATH, 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line))
+    : [];
+  const report: LatencyReport = {
+    generatedAt: new Date().toISOString(),
+    profile,
+    baseUrl,
+    total: samples.length,
+    endpoints: summarizeLatency(samples)
+  };
+  fs.mkdirSync(RESULTS_DIR, { recursive: true });
+  fs.writeFileSync(LATENCY_REPORT_PATH, JSON.stringify(report, null, 2));
+  return report;
+}
+
+/**
+ * Compare the endpoints of two reports
+ * @param before - Earlier report
+ * @param after - Later report
+ * @returns One change per endpoint in either report, sorted by endpoint
+ */
+export function compareLatencyReports(before: LatencyReport, after: LatencyReport): LatencyChange[] {
+  const endpoints = [...new Set([...Object.keys(before.endpoints), ...Object.keys(after.endpoints)])].sort();
+  return endpoints.map(endpoint => {
+    const a = before.endpoints[endpoint];
+    const b = after.endpoints[endpoint];
+    const p95ChangePct = a && b && a.p95 > 0 ? Math.round(((b.p95 - a.p95) / a.p95) * 1000) / 10 : undefined;
+    return { endpoint, before: a, after: b, p95ChangePct };
+  });
+}
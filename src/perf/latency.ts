@@ -0,0 +1,224 @@
+/**
+ * Latency Recorder
+ *
+ * BaseAPI times every HTTP attempt it sends and hands the sample to the test's
+ * LatencyRecorder. Samples are grouped by endpoint template (`GET /employee/{employeeId}`),
+ * taken from the OpenAPI document so that every employee ID counts as the same endpoint.
+ *
+ * Tests declare budgets with `latency.expectLatency('/pay-groups', { p95: 300 })`; they are
+ * checked against the test's samples when the test ends (or earlier with `checkBudgets()`)
+ * and fail it when exceeded. API_LATENCY_BUDGETS=warn only logs exceeded budgets, off skips them.
+ *
+ * Playwright's API request context does not expose DNS, connect or time-to-first-byte
+ * phases, so a sample is the total time from sending the request to receiving the response.
+ */
+
+import { OpenApiContract } from '../contract/openapi-contract';
+import { logger } from '../utils/logger';
+
+export const LATENCY_BUDGET_MODES = ['enforce', 'warn', 'off'] as const;
+export type LatencyBudgetMode = typeof LATENCY_BUDGET_MODES[number];
+
+/**
+ * One timed HTTP attempt
+ */
+export interface LatencySample {
+  /** Method and path template, e.g. `GET /employee/{employeeId}` */
+  endpoint: string;
+  status: number;
+  durationMs: number;
+}
+
+/**
+ * Latency distribution of one endpoint, in milliseconds
+ */
+export interface LatencyStats {
+  count: number;
+  p50: number;
+  p95: number;
+  max: number;
+  mean: number;
+}
+
+/**
+ * Upper bounds for an endpoint's latency, in milliseconds
+ */
+export interface LatencyBudget {
+  p50?: number;
+  p95?: number;
+  max?: number;
+}
+
+/**
+ * Error thrown when a test's requests exceed a declared budget
+ */
+export class LatencyBudgetError extends Error {
+  constructor(public readonly failures: string[]) {
+    super(`Latency budget exceeded:\n${failures.map(f => `  ${f}`).join('\n')}`);
+    this.name = 'LatencyBudgetError';
+  }
+}
+
+/**
+ * Nearest-rank percentile
+ * @param values - Samples (any order)
+ * @param p - Percentile, 0-100
+ */
+export function percentile(values: readonly number[], p: number): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Latency distribution of some durations
+ */
+export function latencyStats(durations: readonly number[]): LatencyStats {
+  const round = (n: number) => Math.round(n * 10) / 10;
+  return {
+    count: durations.length,
+    p50: round(percentile(durations, 50)),
+    p95: round(percentile(durations, 95)),
+    max: round(Math.max(...durations)),
+    mean: round(durations.reduce((sum, d) => sum + d, 0) / durations.length)
+  };
+}
+
+/**
+ * Latency distribution per endpoint, endpoints sorted by name
+ */
+export function summarizeLatency(samples: readonly LatencySample[]): Record<string, LatencyStats> {
+  const byEndpoint = new Map<string, number[]>();
+  for (const sample of samples) {
+    byEndpoint.set(sample.endpoint, [...(byEndpoint.get(sample.endpoint) ?? []), sample.durationMs]);
+  }
+  return Object.fromEntries([...byEndpoint.keys()].sort().map(endpoint => [endpoint, latencyStats(byEndpoint.get(endpoint)!)]));
+}
+
+/** Upper bounds (ms) of the latency histogram buckets; slower samples fall in the `+Inf` bucket */
+export const LATENCY_HISTOGRAM_BOUNDS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000] as const;
+
+/**
+ * Samples taking up to `le` milliseconds (and more than the previous bucket's bound)
+ */
+export interface HistogramBucket {
+  le: number | '+Inf';
+  count: number;
+}
+
+/**
+ * Latency histogram of some durations
+ * @param durations - Samples in milliseconds
+ * @param bounds - Bucket upper bounds, ascending
+ * @returns One bucket per bound plus `+Inf`; counts are per bucket, not cumulative
+ */
+export function latencyHistogram(durations: readonly number[], bounds: readonly number[] = LATENCY_HISTOGRAM_BOUNDS): HistogramBucket[] {
+  const buckets: HistogramBucket[] = [...bounds.map(le => ({ le, count: 0 })), { le: '+Inf' as const, count: 0 }];
+  for (const duration of durations) {
+    const index = bounds.findIndex(bound => duration <= bound);
+    buckets[index === -1 ? bounds.length : index].count++;
+  }
+  return buckets;
+}
+
+/**
+ * Names endpoints by the OpenAPI path templates
+ */
+export class EndpointTemplates {
+  /**
+   * @param contract - OpenAPI document; without one, path segments containing digits become `{id}`
+   */
+  constructor(private readonly contract?: OpenApiContract) {}
+
+  /**
+   * @param method - HTTP method
+   * @param path - Request path below the API base URL, without query string
+   * @returns E.g. `GET /employee/{employeeId}`
+   */
+  endpoint(method: string, path: string): string {
+    const template = this.contract?.templateFor(path)
+      ?? path.split('/').map(segment => /\d/.test(segment) ? '{id}' : segment).join('/');
+    return `${method.toUpperCase()} ${template}`;
+  }
+}
+
+/**
+ * Collects one test's request timings and checks its latency budgets
+ */
+export class LatencyRecorder {
+  private readonly recorded: LatencySample[] = [];
+  private readonly budgets: { endpoint: string; budget: LatencyBudget }[] = [];
+
+  /**
+   * @param templates - Endpoint naming
+   * @param budgetMode - What an exceeded budget does (API_LATENCY_BUDGETS)
+   */
+  constructor(readonly templates: EndpointTemplates = new EndpointTemplates(), private readonly budgetMode: LatencyBudgetMode = 'enforce') {}
+
+  /** Samples recorded so far */
+  get samples(): readonly LatencySample[] {
+    return this.recorded;
+  }
+
+  /**
+   * Record one timed attempt
+   * @param method - HTTP method
+   * @param path - Request path below the API base URL
+   * @param status - Response status
+   * @param durationMs - Time from sending the request to receiving the response
+   */
+  record(method: string, path: string, status: number, durationMs: number): void {
+    this.recorded.push({ endpoint: this.templates.endpoint(method, path), status, durationMs });
+  }
+
+  /**
+   * Latency of the test's requests to an endpoint
+   * @param endpoint - `METHOD /template`, or `/template` for every method
+   * @returns Undefined when no request matched
+   */
+  stats(endpoint: string): LatencyStats | undefined {
+    const durations = this.recorded.filter(sample => matchesEndpoint(sample.endpoint, endpoint)).map(sample => sample.durationMs);
+    return durations.length > 0 ? latencyStats(durations) : undefined;
+  }
+
+  /**
+   * Declare a latency budget, checked when the test ends
+   * @param endpoint - `METHOD /template` (e.g. `GET /employee/{employeeId}`), or `/template` for every method
+   * @param budget - Upper bounds in milliseconds
+   */
+  expectLatency(endpoint: string, budget: LatencyBudget): void {
+    this.budgets.push({ endpoint, budget });
+  }
+
+  /**
+   * Check the declared budgets against the samples recorded so far
+   * @throws LatencyBudgetError listing every exceeded budget (API_LATENCY_BUDGETS=enforce)
+   */
+  checkBudgets(): void {
+    if (this.budgetMode === 'off') return;
+    const failures: string[] = [];
+    for (const { endpoint, budget } of this.budgets) {
+      const stats = this.stats(endpoint);
+      if (!stats) {
+        failures.push(`${endpoint}: no requests recorded`);
+        continue;
+      }
+      for (const metric of ['p50', 'p95', 'max'] as const) {
+        const limit = budget[metric];
+        if (limit !== undefined && stats[metric] > limit) {
+          failures.push(`${endpoint}: ${metric} ${stats[metric]}ms > ${limit}ms (${stats.count} request(s))`);
+        }
+      }
+    }
+    if (failures.length === 0) return;
+    if (this.budgetMode === 'warn') {
+      failures.forEach(failure => logger.warn(`Latency budget exceeded: ${failure}`));
+      return;
+    }
+    throw new LatencyBudgetError(failures);
+  }
+}
+
+function matchesEndpoint(sampleEndpoint: string, endpoint: string): boolean {
+  return endpoint.startsWith('/') ? sampleEndpoint.slice(sampleEndpoint.indexOf(' ') + 1) === endpoint : sampleEndpoint === endpoint;
+}
@@ -0,0 +1,197 @@
+/**
+ * Load Runner
+ *
+ * Drives a load scenario (see load-scenarios.ts) with the regular API clients, in one of two ways:
+ * - virtual users: a fixed number of users, each starting its next iteration as soon as the last one ends
+ * - arrival rate: a fixed number of new iterations per second, however slow the responses get, with
+ *   at most `maxVus` in flight; iterations that would exceed it are dropped and counted
+ * Every request is timed through one LatencyRecorder, so the result has throughput, status code
+ * counts, error rates, latency per endpoint and a latency histogram.
+ * Clients given to the runner should not retry: a retried request hides the failure under load.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  EndpointTemplates, HistogramBucket, LatencyRecorder, LatencyStats, latencyHistogram, summarizeLatency
+} from './latency';
+import { LoadClients, LoadScenario } from './load-scenarios';
+import { RESULTS_DIR } from '../utils/paths';
+
+export const LOAD_REPORT_PATH = path.join(RESULTS_DIR, 'load-report.json');
+
+/**
+ * How much load to apply
+ */
+export type LoadProfile =
+  | { kind: 'vus'; vus: number; durationMs: number }
+  | { kind: 'rate'; perSecond: number; maxVus: number; durationMs: number };
+
+/**
+ * Outcome of a load run (contents of load-report.json)
+ */
+export interface LoadResult {
+  scenario: string;
+  profile: LoadProfile;
+  startedAt: string;
+  /** Wall time from the first iteration start until the last iteration ended */
+  elapsedMs: number;
+  iterations: number;
+  failedIterations: number;
+  /** Arrival-rate iterations not started because `maxVus` were busy */
+  droppedIterations: number;
+  /** Failed iterations per error message */
+  errors: Record<string, number>;
+  /** Failed iterations in percent */
+  errorRate: number;
+  requests: number;
+  /** Requests per second */
+  throughput: number;
+  /** Responses per status code */
+  statusCodes: Record<string, number>;
+  /** Responses with a status of 400 or above, in percent */
+  httpErrorRate: number;
+  endpoints: Record<string, LatencyStats>;
+  histogram: HistogramBucket[];
+}
+
+/**
+ * Creates the clients of one virtual user; vu 0 runs the scenario's setup
+ */
+export type LoadClientsFactory = (vu: number) => LoadClients | Promise<LoadClients>;
+
+/**
+ * Run a load scenario
+ * @param scenario - Scenario to run
+ * @param profile - Virtual users or arrival rate, and duration
+ * @param createClients - Clients per virtual user
+ * @param templates - Endpoint naming for the latency breakdown
+ */
+export async function runLoad(
+  scenario: LoadScenario,
+  profile: LoadProfile,
+  createClients: LoadClientsFactory,
+  templates = new EndpointTemplates()
+): Promise<LoadResult> {
+  await scenario.setup?.(await createClients(0));
+
+  const recorder = new LatencyRecorder(templates, 'off');
+  const users: LoadClients[] = [];
+  const userFor = async (vu: number): Promise<LoadClients> => {
+    if (!users[vu]) {
+      const clients = await createClients(vu);
+      clients.employeeApi.useLatencyRecorder(recorder);
+      clients.payGroupApi.useLatencyRecorder(recorder);
+      users[vu] = clients;
+    }
+    return users[vu];
+  };
+
+  let iterations = 0;
+  let dropped = 0;
+  const errors: Record<string, number> = {};
+  const iterate = async (vu: number) => {
+    const clients = await userFor(vu);
+    iterations++;
+    try {
+      await scenario.iteration(clients);
+    } catch (e) {
+      const message = (e instanceof Error ? e.message : String(e)).split('\n')[0];
+      errors[message] = (errors[message] ?? 0) + 1;
+    }
+  };
+
+  const startedAt = new Date();
+  const start = performance.now();
+  const deadline = start + profile.durationMs;
+  if (profile.kind === 'vus') {
+    await Promise.all(Array.from({ length: profile.vus }, async (_, i) => {
+      while (performance.now() < deadline) {
+        await iterate(i + 1);
+      }
+    }));
+  } else {
+    const intervalMs = 1000 / profile.perSecond;
+    const idle = Array.from({ length: profile.maxVus }, (_, i) => profile.maxVus - i);
+    const running: Promise<void>[] = [];
+    for (let n = 0; start + n * intervalMs < deadline; n++) {
+      await sleep(start + n * intervalMs - performance.now());
+      const vu = idle.pop();
+      if (vu === undefined) {
+        dropped++;
+        continue;
+      }
+      running.push(iterate(vu).finally(() => idle.push(vu)));
+    }
+    await Promise.all(running);
+  }
+  const elapsedMs = Math.round(performance.now() - start);
+
+  const samples = recorder.samples;
+  const statusCodes: Record<string, number> = {};
+  samples.forEach(sample => statusCodes[sample.status] = (statusCodes[sample.status] ?? 0) + 1);
+  const failedIterations = Object.values(errors).reduce((sum, count) => sum + count, 0);
+  return {
+    scenario: scenario.name,
+    profile,
+    startedAt: startedAt.toISOString(),
+    elapsedMs,
+    iterations,
+    failedIterations,
+    droppedIterations: dropped,
+    errors,
+    errorRate: percent(failedIterations, iterations),
+    requests: samples.length,
+    throughput: Math.round((samples.length / (elapsedMs / 1000)) * 10) / 10,
+    statusCodes,
+    httpErrorRate: percent(samples.filter(sample => sample.status >= 400).length, samples.length),
+    endpoints: summarizeLatency(samples),
+    histogram: latencyHistogram(samples.map(sample => sample.durationMs))
+  };
+}
+
+/**
+ * Human-readable summary of a load run
+ */
+export function formatLoadResult(result: LoadResult): string[] {
+  const { profile } = result;
+  const load = profile.kind === 'vus'
+    ? `${profile.vus} virtual user(s)`
+    : `${profile.perSecond} iteration(s)/s, at most ${profile.maxVus} in flight`;
+  const lines = [
+    `Scenario ${result.scenario}: ${load} for ${profile.durationMs / 1000}s`,
+    `Iterations: ${result.iterations} (${result.failedIterations} failed, ${result.errorRate}%; ${result.droppedIterations} dropped)`,
+    `Requests: ${result.requests} in ${result.elapsedMs}ms (${result.throughput}/s), ${result.httpErrorRate}% with status >= 400`,
+    `Status codes: ${Object.entries(result.statusCodes).map(([status, count]) => `${status} x${count}`).join(', ') || '-'}`
+  ];
+  Object.entries(result.errors).forEach(([message, count]) => lines.push(`  failed x${count}: ${message}`));
+
+  const width = Math.max(0, ...Object.keys(result.endpoints).map(endpoint => endpoint.length));
+  lines.push('Latency (ms):');
+  Object.entries(result.endpoints).forEach(([endpoint, stats]) =>
+    lines.push(`  ${endpoint.padEnd(width)}  n=${stats.count}  p50 ${stats.p50}  p95 ${stats.p95}  max ${stats.max}`));
+
+  const peak = Math.max(1, ...result.histogram.map(bucket => bucket.count));
+  lines.push('Histogram (ms):');
+  result.histogram.forEach(({ le, count }) =>
+    lines.push(`  <= ${String(le).padStart(5)}  ${String(count).padStart(6)}  ${'#'.repeat(Math.round((count / peak) * 40))}`));
+  return lines;
+}
+
+/**
+ * Write a load result to test-results/load-report.json
+ * @param result - Result of runLoad()
+ * @param filePath - Report location
+ */
+export function writeLoadReport(result: LoadResult, filePath = LOAD_REPORT_PATH): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(result, null, 2));
+}
+
+function percent(part: number, total: number): number {
+  return total === 0 ? 0 : Math.round((part / total) * 1000) / 10;
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+}
@@ -0,0 +1,90 @@
+/**
+ * Load Scenarios
+ *
+ * What one virtual user does per iteration, written with the regular API clients. An iteration
+ * that throws counts as failed, with the error message as its reason; non-2xx responses are
+ * also counted by status code whether or not the iteration checks them.
+ * Scenarios are created per run (LOAD_SCENARIOS holds factories) so that state prepared by
+ * `setup`, such as the pay group new employees join, is not shared between runs.
+ */
+
+import type { APIResponse } from '@playwright/test';
+import type { EmployeeApi } from '../api/employee-api';
+import type { PayGroupApi } from '../api/pay-group-api';
+import type { TestDataFactory } from '../data/test-data-factory';
+
+/**
+ * Clients of one virtual user
+ */
+export interface LoadClients {
+  employeeApi: EmployeeApi;
+  payGroupApi: PayGroupApi;
+  /** Seeded per virtual user, so generated IDs do not collide */
+  testData: TestDataFactory;
+}
+
+/**
+ * A load scenario
+ */
+export interface LoadScenario {
+  name: string;
+  description: string;
+  /** Runs once before the load starts; its requests are not measured */
+  setup?(clients: LoadClients): Promise<void>;
+  /** One iteration of one virtual user */
+  iteration(clients: LoadClients): Promise<void>;
+}
+
+/**
+ * Built-in scenarios by name (`npm run load -- <name>`)
+ */
+export const LOAD_SCENARIOS: Record<string, () => LoadScenario> = {
+  'create-employees': createEmployees,
+  'browse-pay-groups': browsePayGroups
+};
+
+/**
+ * HR users onboarding employees: every iteration creates one employee in a shared pay group
+ */
+export function createEmployees(): LoadScenario {
+  let payGroupId: number;
+  return {
+    name: 'create-employees',
+    description: 'POST /employee into one pay group',
+    async setup({ payGroupApi, testData }) {
+      ({ payGroupId } = await payGroupApi.createPayGroupTyped(testData.payGroup().build()));
+    },
+    async iteration({ employeeApi, testData }) {
+      await expectOk(employeeApi.createEmployee(testData.employee().with({ payGroupId }).build()), 'POST /employee');
+    }
+  };
+}
+
+/**
+ * Users looking up pay groups: a list page, then one of its pay groups
+ */
+export function browsePayGroups(): LoadScenario {
+  let payGroupIds: number[] = [];
+  return {
+    name: 'browse-pay-groups',
+    description: 'GET /pay-groups page, then GET /pay-groups/{id}',
+    async setup({ payGroupApi, testData }) {
+      payGroupIds = (await payGroupApi.getPayGroupsTyped({ page: 0, size: 20 })).map(group => group.payGroupId);
+      if (payGroupIds.length === 0) {
+        payGroupIds = [(await payGroupApi.createPayGroupTyped(testData.payGroup().build())).payGroupId];
+      }
+    },
+    async iteration({ payGroupApi, testData }) {
+      await expectOk(payGroupApi.getPayGroups({ page: 0, size: 20 }), 'GET /pay-groups');
+      await expectOk(payGroupApi.getPayGroup(testData.random.pick(payGroupIds)), 'GET /pay-groups/{id}');
+    }
+  };
+}
+
+async function expectOk(pending: Promise<APIResponse>, endpoint: string): Promise<APIResponse> {
+  const response = await pending;
+  if (!response.ok()) {
+    throw new Error(`${endpoint} returned ${response.status()}`);
+  }
+  return response;
+}
@@ -0,0 +1,125 @@
+/**
+ * Load Test CLI
+ *
+ * Usage: npm run load -- <scenario> [--vus 50 | --rate 20 [--max-vus 100]] [--duration 30s] [--max-error-rate 0]
+ *
+ * Runs a load scenario (src/perf/load-scenarios.ts) against the API of the TEST_ENV profile, e.g.
+ * `TEST_ENV=mock npm run load -- create-employees --vus 50` (the mock server is started here)
+ * or `TEST_ENV=qa npm run load -- browse-pay-groups --rate 20 --duration 2m`.
+ * Requests are not retried. Prints the summary, writes test-results/load-report.json and deletes
+ * the entities the scenario created. Exits with 1 when more than --max-error-rate percent of the
+ * iterations failed (2 on usage errors).
+ */
+
+import { request } from '@playwright/test';
+import { testConfig } from '../config/test-config';
+import { createAuthStrategy } from '../api/auth';
+import { EmployeeApi } from '../api/employee-api';
+import { PayGroupApi } from '../api/pay-group-api';
+import { TestDataFactory, getRunSeed } from '../data/test-data-factory';
+import { deriveSeed } from '../data/seeded-random';
+import { CleanupRegistry } from '../fixtures/cleanup-registry';
+import { OpenApiContract } from '../contract/openapi-contract';
+import { PayrollMockServer } from '../mock/payroll-mock-server';
+import { LogLevel, logger } from '../utils/logger';
+import { EndpointTemplates } from './latency';
+import { LOAD_REPORT_PATH, LoadProfile, formatLoadResult, runLoad, writeLoadReport } from './load-runner';
+import { LOAD_SCENARIOS } from './load-scenarios';
+
+const USAGE = 'Usage: npm run load -- <scenario> [--vus 50 | --rate 20 [--max-vus 100]] [--duration 30s] [--max-error-rate 0]';
+
+interface LoadArgs {
+  scenario: string;
+  profile: LoadProfile;
+  maxErrorRate: number;
+}
+
+/**
+ * Parse a duration such as `30s`, `2m`, `500ms` or `45` (seconds)
+ */
+function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m)?$/.exec(value?.trim() ?? '');
+  if (!match) {
+    throw new Error(`Invalid duration: ${value} (e.g. 30s, 2m, 500ms)`);
+  }
+  const factor = { ms: 1, s: 1000, m: 60000 }[(match[2] ?? 's') as 'ms' | 's' | 'm'];
+  return Number(match[1]) * factor;
+}
+
+function parseArgs(argv: string[]): LoadArgs {
+  const options: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      options[argv[i].slice(2)] = argv[++i];
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+  const known = ['vus', 'rate', 'max-vus', 'duration', 'max-error-rate'];
+  const unknown = Object.keys(options).filter(option => !known.includes(option));
+  if (positional.length !== 1 || unknown.length > 0 || (options.vus && options.rate)) {
+    throw new Error(USAGE);
+  }
+  if (!LOAD_SCENARIOS[positional[0]]) {
+    throw new Error(`Unknown scenario: ${positional[0]} (expected ${Object.keys(LOAD_SCENARIOS).join(', ')})`);
+  }
+
+  const count = (name: string, fallback: number) => {
+    const value = options[name] === undefined ? fallback : Number(options[name]);
+    if (!(value > 0)) throw new Error(`--${name} must be a positive number, got: ${options[name]}`);
+    return value;
+  };
+  const durationMs = parseDuration(options.duration ?? '30s');
+  const profile: LoadProfile = options.rate
+    ? { kind: 'rate', perSecond: count('rate', 1), maxVus: count('max-vus', 100), durationMs }
+    : { kind: 'vus', vus: count('vus', 10), durationMs };
+  const maxErrorRate = Number(options['max-error-rate'] ?? 0);
+  if (!Number.isFinite(maxErrorRate)) {
+    throw new Error(`--max-error-rate must be a percentage, got: ${options['max-error-rate']}`);
+  }
+  return { scenario: positional[0], profile, maxErrorRate };
+}
+
+async function main(argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+  // One line per request would drown the summary
+  logger.setLevel(LogLevel.WARN);
+
+  let server: PayrollMockServer | undefined;
+  if (testConfig.api.mode === 'mock') {
+    server = new PayrollMockServer({ port: testConfig.api.mockPort });
+    await server.start();
+  }
+  const context = await request.newContext();
+  const registry = new CleanupRegistry();
+  try {
+    console.log(`Profile ${testConfig.profile}: ${testConfig.api.baseUrl}`);
+    const retry = { ...testConfig.api.retry, maxAttempts: 1 };
+    const seed = getRunSeed();
+    const createClients = (vu: number) => ({
+      employeeApi: new EmployeeApi(context, testConfig.api.baseUrl, createAuthStrategy(testConfig.api.auth), retry).useCleanupRegistry(registry),
+      payGroupApi: new PayGroupApi(context, testConfig.api.baseUrl, createAuthStrategy(testConfig.api.auth), retry).useCleanupRegistry(registry),
+      testData: new TestDataFactory(deriveSeed(seed, `load vu ${vu}`))
+    });
+    const templates = new EndpointTemplates(OpenApiContract.load(testConfig.api.latency.specPath));
+
+    const result = await runLoad(LOAD_SCENARIOS[args.scenario](), args.profile, createClients, templates);
+    formatLoadResult(result).forEach(line => console.log(line));
+    writeLoadReport(result);
+    console.log(`Report written to ${LOAD_REPORT_PATH}`);
+    return result.errorRate > args.maxErrorRate ? 1 : 0;
+  } finally {
+    // Leftovers are logged as errors
+    await registry.cleanup();
+    await context.dispose();
+    await server?.stop();
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => process.exit(code), e => {
+    console.error((e as Error).message);
+    process.exit(2);
+  });
+}
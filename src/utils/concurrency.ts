@@ -0,0 +1,136 @@
+/**
+ * Concurrency Helpers
+ *
+ * Check unique constraints under a race instead of one request after another. `raceRequests()`
+ * fires N identical or conflicting create requests at once; a backend that checks uniqueness
+ * in application code (read, then insert) without a database constraint lets several of them
+ * through. The result asserts that exactly one succeeded and the rest got 409, and
+ * `expectNoDuplicates()` checks that the list read back afterwards has no duplicates.
+ * `mapConcurrent()` is the opposite: many requests, but never more than N at a time.
+ */
+
+import { APIResponse } from '@playwright/test';
+
+/**
+ * One of the parallel requests
+ */
+export interface RaceAttempt {
+  index: number;
+  status: number;
+  body: string;
+}
+
+/**
+ * Error thrown when a unique constraint did not hold
+ */
+export class UniqueConstraintError extends Error {
+  constructor(public readonly constraint: string, message: string) {
+    super(`Unique constraint ${constraint}: ${message}`);
+    this.name = 'UniqueConstraintError';
+  }
+}
+
+/**
+ * Outcome of parallel requests competing for the same unique value
+ */
+export class RaceResult {
+  /**
+   * @param constraint - What had to stay unique, for error messages (e.g. `employeeId`)
+   * @param attempts - Every request, in the order they were sent
+   */
+  constructor(readonly constraint: string, readonly attempts: readonly RaceAttempt[]) {}
+
+  /** Attempts answered with a 2xx status */
+  get succeeded(): RaceAttempt[] {
+    return this.attempts.filter(attempt => attempt.status >= 200 && attempt.status < 300);
+  }
+
+  /** Number of attempts per status, e.g. `{ '201': 1, '409': 4 }` */
+  get statusCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    this.attempts.forEach(({ status }) => counts[status] = (counts[status] ?? 0) + 1);
+    return counts;
+  }
+
+  /**
+   * Assert that exactly one attempt succeeded and every other one was rejected as a conflict
+   * @param conflictStatus - Status expected for the losers
+   * @returns The successful attempt
+   * @throws UniqueConstraintError describing the statuses received
+   */
+  expectSingleWinner(conflictStatus = 409): RaceAttempt {
+    const winners = this.succeeded;
+    const unexpected = this.attempts.filter(attempt => !winners.includes(attempt) && attempt.status !== conflictStatus);
+    if (winners.length !== 1 || unexpected.length > 0) {
+      const statuses = Object.entries(this.statusCounts).map(([status, count]) => `${status} x${count}`).join(', ');
+      const detail = unexpected[0] ? ` (first unexpected: ${unexpected[0].status} ${unexpected[0].body.slice(0, 200)})` : '';
+      throw new UniqueConstraintError(this.constraint,
+        `expected 1 of ${this.attempts.length} parallel requests to succeed and the rest to get ${conflictStatus}, got ${statuses}${detail}`);
+    }
+    return winners[0];
+  }
+}
+
+/**
+ * Send requests in parallel
+ * @param constraint - What has to stay unique, for error messages
+ * @param count - Number of parallel requests
+ * @param send - Sends request `index`; build every payload before the race so all of them start together
+ */
+export async function raceRequests(constraint: string, count: number, send: (index: number) => Promise<APIResponse>): Promise<RaceResult> {
+  const responses = await Promise.all(Array.from({ length: count }, (_, index) => send(index)));
+  const attempts = await Promise.all(responses.map(async (response, index) => ({
+    index,
+    status: response.status(),
+    body: await response.text()
+  })));
+  return new RaceResult(constraint, attempts);
+}
+
+/**
+ * Values occurring more than once
+ * @param items - Items read back from the API
+ * @param key - Unique value of an item (normalise it for case-insensitive constraints)
+ * @returns Count per duplicated value
+ */
+export function findDuplicates<T>(items: readonly T[], key: (item: T) => string | number): Record<string, number> {
+  const counts = new Map<string, number>();
+  items.forEach(item => counts.set(String(key(item)), (counts.get(String(key(item))) ?? 0) + 1));
+  return Object.fromEntries([...counts].filter(([, count]) => count > 1));
+}
+
+/**
+ * Assert that no two items share a unique value
+ * @param constraint - What has to stay unique, for error messages
+ * @param items - Items read back from the API
+ * @param key - Unique value of an item
+ * @throws UniqueConstraintError listing the duplicated values
+ */
+export function expectNoDuplicates<T>(constraint: string, items: readonly T[], key: (item: T) => string | number): void {
+  const duplicates = Object.entries(findDuplicates(items, key));
+  if (duplicates.length > 0) {
+    throw new UniqueConstraintError(constraint,
+      `${duplicates.length} duplicated value(s): ${duplicates.map(([value, count]) => `${value} x${count}`).join(', ')}`);
+  }
+}
+
+/**
+ * Map items with at most `limit` calls in flight, e.g. to create many entities without
+ * flooding the backend
+ * @param items - Inputs
+ * @param limit - Maximum number of concurrent calls (at least 1)
+ * @param fn - Async mapping, called with the item and its index
+ * @returns Results in input order
+ */
+export async function mapConcurrent<T, R>(items: readonly T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
@@ -0,0 +1,86 @@
+/**
+ * CSV Utility
+ *
+ * Reads and writes RFC 4180 CSV: comma-separated, fields containing commas, quotes or line
+ * breaks are quoted and quotes inside them doubled. CRLF and LF line endings are both read;
+ * CRLF is written, as spreadsheet tools expect.
+ */
+
+/**
+ * Error thrown for malformed CSV
+ */
+export class CsvParseError extends Error {
+  constructor(public readonly line: number, message: string) {
+    super(`CSV line ${line}: ${message}`);
+    this.name = 'CsvParseError';
+  }
+}
+
+/**
+ * Parse CSV text into rows of fields; blank lines are skipped
+ * @param text - CSV content
+ * @returns Rows with the line each one starts on (1-based)
+ */
+export function parseCsv(text: string): { line: number; fields: string[] }[] {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '') rows.push({ line: rowLine, fields });
+    fields = [];
+    field = '';
+    rowLine = line;
+  };
+
+  const input = text.replace(/^﻿/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+        if (i + 1 < input.length && !',\r\n'.includes(input[i + 1])) {
+          throw new CsvParseError(line, 'unexpected character after closing quote');
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new CsvParseError(rowLine, 'unterminated quoted field');
+  }
+  endRow();
+  return rows;
+}
+
+/**
+ * Format rows as CSV
+ * @param rows - Rows of fields; undefined and null become empty fields
+ */
+export function formatCsv(rows: readonly (readonly unknown[])[]): string {
+  return rows.map(row => row.map(formatField).join(',')).join('\r\n') + '\r\n';
+}
+
+function formatField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,65 @@
+/**
+ * Log Settings
+ *
+ * Levels, formats, sinks and capture modes the logger understands, and the settings it is
+ * configured with. Kept apart from logger.ts so the configuration schema can name the allowed
+ * values without creating the logger: test-config.ts resolves and validates the LOG_* keys,
+ * then hands the result to `logger.configure()`.
+ */
+
+import type { RedactionRules } from './redactor';
+
+/**
+ * Enum for different log levels
+ */
+export enum LogLevel {
+  INFO = 'INFO',
+  WARN = 'WARN',
+  ERROR = 'ERROR',
+  DEBUG = 'DEBUG'
+}
+
+/** Levels from most to least verbose */
+export const LOG_LEVELS: readonly LogLevel[] = [LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARN, LogLevel.ERROR];
+
+/**
+ * Format of the log files: `[timestamp] [LEVEL] message` lines, or one JSON object per line
+ */
+export const LOG_FORMATS = ['text', 'json'] as const;
+export type LogFormat = typeof LOG_FORMATS[number];
+
+/** Built-in sinks that LOG_SINKS can select */
+export const BUILT_IN_LOG_SINKS = ['console', 'file', 'jsonl'] as const;
+export type BuiltInLogSink = typeof BUILT_IN_LOG_SINKS[number];
+
+/**
+ * When a test's captured log lines are attached to the report:
+ * always, never, or only when the test did not end as expected
+ */
+export const LOG_CAPTURE_MODES = ['on', 'off', 'retain-on-failure'] as const;
+export type LogCaptureMode = typeof LOG_CAPTURE_MODES[number];
+
+/**
+ * How many rotated run logs to keep
+ */
+export interface LogRetention {
+  /** Number of previous runs kept (0 keeps none) */
+  runs: number;
+  /** Rotated runs older than this are deleted even within `runs` */
+  maxAgeDays?: number;
+}
+
+/**
+ * Settings the logger is configured with (LOG_LEVEL, LOG_FORMAT, LOG_SINKS, LOG_DIR,
+ * LOG_RETENTION_RUNS / LOG_RETENTION_DAYS and LOG_REDACTION / LOG_REDACT_KEYS / LOG_REDACT_PATTERNS)
+ */
+export interface LogSettings {
+  level: LogLevel;
+  format: LogFormat;
+  sinks: BuiltInLogSink[];
+  /** Directory of the run and error logs; default test-results/logs */
+  dir?: string;
+  retention: LogRetention;
+  /** Key and value rules added to the default ones */
+  redaction: RedactionRules;
+}
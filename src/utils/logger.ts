@@ -1,22 +1,248 @@
 /**
  * Logger Utility
- * 
+ *
  * This utility provides centralized logging functionality for the framework.
- * It supports different log levels (INFO, WARN, ERROR, DEBUG) and formats messages with timestamps.
- * All logs are written to console with appropriate formatting.
+ * It supports different log levels (DEBUG, INFO, WARN, ERROR) and formats messages with timestamps.
+ * Entries below LOG_LEVEL (default INFO) are dropped; the rest go to every configured sink.
+ *
+ * The LOG_* settings are resolved and validated with the rest of the configuration (see
+ * src/config/test-config.ts) and applied with `configure()`; until then the defaults below apply.
+ *
+ * Sinks: LOG_SINKS picks the built-in ones (default `console,file`). `console` prints text
+ * lines; `file` writes the run log `test_run.log` and the persistent `test_error.log` (errors
+ * only) in LOG_DIR (default test-results/logs); `jsonl` writes the run as JSON lines to
+ * `test_run.jsonl` beside it, whatever LOG_FORMAT says. Other sinks, e.g. a MemorySink in
+ * unit tests, can be added with `addSink()`.
+ *
+ * With LOG_FORMAT=json the run and error log files are written as JSON lines. Each entry
+ * carries the current LogContext: the test title, worker index and retry set by the log
+ * fixtures, and the correlation ID of the API request being made (see BaseAPI).
+ *
+ * Every message is passed through the Redactor first (see src/utils/redactor.ts), so secrets
+ * and personal data are masked in all sinks and captures; `redact()` does the same for
+ * report attachments.
+ *
+ * `capture()` additionally collects the lines written from then on; the log fixtures use it to
+ * attach each test's own lines to the report as `logs.txt` (see LOG_CAPTURE).
+ *
+ * Retention: each test run starts a new `test_run.log`; the previous one is rotated to
+ * `test_run.1.log`, `test_run.2.log` and so on (`test_run.jsonl` likewise). LOG_RETENTION_RUNS (default 2) rotated runs are
+ * kept, and with LOG_RETENTION_DAYS rotated runs older than that are deleted as well. A run starts
+ * with the first entry written, or with `startRun()` (the global setup starts it before the workers
+ * launch); importing the logger creates no files. Worker processes append to the run file started
+ * by the Playwright runner (passed on in LOG_RUN_FILE).
  */
 
-/**
- * Enum for different log levels
- */
 import fs from 'fs';
 import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { DEFAULT_REDACTION_KEYS, DEFAULT_REDACTION_PATTERNS, Redactor } from './redactor';
+import { RESULTS_DIR } from './paths';
+import { BuiltInLogSink, LOG_LEVELS, LogFormat, LogLevel, LogRetention, LogSettings } from './log-settings';
+
+export {
+  BUILT_IN_LOG_SINKS, BuiltInLogSink, LOG_CAPTURE_MODES, LOG_FORMATS, LOG_LEVELS, LogCaptureMode, LogFormat, LogLevel, LogRetention, LogSettings
+} from './log-settings';
+
+/**
+ * Whether an entry of `level` passes a `threshold`
+ */
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * Fields attached to every entry logged while they are in scope
+ */
+export interface LogContext {
+  /** Title path of the running test */
+  test?: string;
+  workerIndex?: number;
+  retry?: number;
+  /** ID of the API request being made; also sent as the X-Correlation-Id header */
+  correlationId?: string;
+}
+
+/**
+ * Lines written to the run log while a capture is active
+ */
+export interface LogCapture {
+  readonly lines: readonly string[];
+  /** Stop collecting and return the collected lines */
+  stop(): string[];
+}
+
+/**
+ * A single log entry, as written in JSON format
+ */
+export interface LogEntry extends LogContext {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+}
+
+/**
+ * Render an entry as a log line
+ * @param entry - Log entry
+ * @param format - 'text' for `[timestamp] [LEVEL] message`, 'json' for a JSON object
+ */
+export function formatLogEntry(entry: LogEntry, format: LogFormat): string {
+  return format === 'json' ? JSON.stringify(entry) : `[${entry.timestamp}] [${entry.level}] ${entry.message}`;
+}
+
+/**
+ * A destination for log entries. Sinks receive every entry that passes LOG_LEVEL and
+ * must not throw.
+ */
+export interface LogSink {
+  write(entry: LogEntry): void;
+}
+
+/**
+ * Prints text lines to the console, using console.error/warn/debug for those levels
+ */
+export class ConsoleSink implements LogSink {
+  write(entry: LogEntry): void {
+    const line = formatLogEntry(entry, 'text');
+    switch (entry.level) {
+      case LogLevel.ERROR:
+        console.error(line);
+        break;
+      case LogLevel.WARN:
+        console.warn(line);
+        break;
+      case LogLevel.DEBUG:
+        console.debug(line);
+        break;
+      default:
+        console.log(line);
+    }
+  }
+}
+
+/**
+ * Appends entries to a file, optionally only from a minimum level
+ */
+export class FileSink implements LogSink {
+  constructor(
+    readonly filePath: string,
+    readonly format: LogFormat = 'text',
+    private readonly minLevel: LogLevel = LogLevel.DEBUG
+  ) { }
+
+  write(entry: LogEntry): void {
+    if (!isLevelEnabled(entry.level, this.minLevel)) return;
+    try {
+      fs.appendFileSync(this.filePath, formatLogEntry(entry, this.format) + '\n');
+    } catch (e) {
+      // swallow logging errors so they don't affect tests
+    }
+  }
+}
+
+/**
+ * Appends entries to a file as JSON lines
+ */
+export class JsonlSink extends FileSink {
+  constructor(filePath: string, minLevel: LogLevel = LogLevel.DEBUG) {
+    super(filePath, 'json', minLevel);
+  }
+}
+
+/**
+ * Keeps entries in memory, for asserting on what was logged in unit tests
+ */
+export class MemorySink implements LogSink {
+  readonly entries: LogEntry[] = [];
+
+  write(entry: LogEntry): void {
+    this.entries.push(entry);
+  }
+
+  /** Messages of the entries received so far */
+  get messages(): string[] {
+    return this.entries.map(entry => entry.message);
+  }
+
+  clear(): void {
+    this.entries.length = 0;
+  }
+}
+
+const RUN_LOG_NAME = 'test_run.log';
+/** Written by the `jsonl` sink next to the run log, and rotated with it */
+const RUN_JSONL_NAME = 'test_run.jsonl';
+const ROTATED_RUN_LOG = /^test_run\.(\d+)\.(log|jsonl)$/;
+
+/**
+ * Rotate the run logs in a directory: `test_run.log` becomes `test_run.1.log`, older runs
+ * move up one number, and runs beyond the retention are deleted. `test_run.jsonl` is
+ * rotated the same way.
+ * @param logDir - Directory holding the run logs
+ * @param retention - Runs to keep, by count and optionally by age
+ */
+export function rotateRunLogs(logDir: string, retention: LogRetention): void {
+  const rotated = (n: number, extension: string) => path.join(logDir, `test_run.${n}.${extension}`);
+  const files = fs.readdirSync(logDir)
+    .map(file => ROTATED_RUN_LOG.exec(file))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => ({ n: Number(match[1]), extension: match[2] }))
+    .sort((a, b) => b.n - a.n);
+
+  // Highest number first, so each target is free by the time it is moved into
+  for (const { n, extension } of files) {
+    if (n >= retention.runs) {
+      removeFile(rotated(n, extension));
+    } else {
+      moveFile(rotated(n, extension), rotated(n + 1, extension));
+    }
+  }
+  for (const name of [RUN_LOG_NAME, RUN_JSONL_NAME]) {
+    const current = path.join(logDir, name);
+    if (!fs.existsSync(current)) continue;
+    if (retention.runs > 0) {
+      moveFile(current, rotated(1, path.extname(name).slice(1)));
+    } else {
+      removeFile(current);
+    }
+  }
+
+  if (retention.maxAgeDays !== undefined) {
+    const cutoff = Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000;
+    for (const file of fs.readdirSync(logDir).filter(name => ROTATED_RUN_LOG.test(name))) {
+      const filePath = path.join(logDir, file);
+      if (fs.statSync(filePath).mtimeMs < cutoff) removeFile(filePath);
+    }
+  }
+}
+
+/** Rename a file, falling back to copy and delete (e.g. across devices or when locked) */
+function moveFile(from: string, to: string): void {
+  try {
+    if (fs.existsSync(to)) fs.unlinkSync(to);
+    fs.renameSync(from, to);
+  } catch (e) {
+    // best-effort: fallback to copy+unlink
+    try {
+      fs.writeFileSync(to, fs.readFileSync(from));
+      fs.unlinkSync(from);
+    } catch (err) {
+      // ignore
+    }
+  }
+}
 
-export enum LogLevel {
-  INFO = 'INFO',
-  WARN = 'WARN',
-  ERROR = 'ERROR',
-  DEBUG = 'DEBUG'
+function removeFile(filePath: string): void {
+  try {
+    fs.unlinkSync(filePath);
+  } catch (e) {
+    // ignore
+  }
+}
+
+function getEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
 }
 
 /**
@@ -24,28 +250,41 @@ export enum LogLevel {
  */
 export class Logger {
   private static instance: Logger;
-  private logDir: string = '';
+  private logDir: string = path.join(RESULTS_DIR, 'logs');
   private runLogPath: string | null = null;
   private errorLogPath: string = '';
+  private format: LogFormat = 'text';
+  private threshold: LogLevel = LogLevel.INFO;
+  private retention: LogRetention = { runs: 2 };
+  private builtInSinks: BuiltInLogSink[] = ['console', 'file'];
+  private sinks: LogSink[] = [];
+  private consoleSink?: ConsoleSink;
+  private runSink?: FileSink;
+  private errorSink?: FileSink;
+  private jsonlSink?: JsonlSink;
+  private testContext: LogContext = {};
+  private readonly scopedContext = new AsyncLocalStorage<LogContext>();
+  private readonly captures = new Set<string[]>();
+  /** Masks secrets and personal data in every entry; add rules or known secrets here */
+  public readonly redactor: Redactor = new Redactor();
   /**
    * Private constructor to implement singleton pattern
    */
-  private constructor() { }
+  private constructor() {
+    this.configureConsoleSink();
+  }
 
   /**
-   * Initialize logging directory and error log path.
-   * Does not create or select a run file automatically; call `startRun()` to begin a run.
+   * Create the logging directory and set the error log path.
+   * Does not create or select a run file; see `startRun()`.
    */
   private initPaths(): void {
-    if (!this.logDir) {
-      this.logDir = path.resolve(__dirname, '..', 'logging');
-      try {
-        if (!fs.existsSync(this.logDir)) {
-          fs.mkdirSync(this.logDir, { recursive: true });
-        }
-      } catch (e) {
-        // ignore directory creation errors; file writes will fail later if necessary
+    try {
+      if (!fs.existsSync(this.logDir)) {
+        fs.mkdirSync(this.logDir, { recursive: true });
       }
+    } catch (e) {
+      // ignore directory creation errors; file writes will fail later if necessary
     }
     this.errorLogPath = path.join(this.logDir, 'test_error.log');
   }
@@ -57,17 +296,31 @@ export class Logger {
   public static getInstance(): Logger {
     if (!Logger.instance) {
       Logger.instance = new Logger();
-      Logger.instance.initPaths();
-      // Automatically start a new run on first instantiation and rotate older runs
-      try {
-        Logger.instance.startRun();
-      } catch (e) {
-        // swallow errors during auto-start to avoid breaking test runs
-      }
     }
     return Logger.instance;
   }
 
+  /**
+   * Apply the resolved LOG_* settings (called by test-config.ts once the configuration is
+   * validated). A run that has already started keeps its file; a new directory applies from
+   * the next run.
+   * @param settings - Level, format, sinks, directory, retention and extra redaction rules
+   */
+  public configure(settings: LogSettings): void {
+    this.threshold = settings.level;
+    this.format = settings.format;
+    this.builtInSinks = [...settings.sinks];
+    this.retention = { ...settings.retention };
+    if (settings.dir) this.logDir = path.resolve(settings.dir);
+    this.redactor.setRules({
+      keys: [...DEFAULT_REDACTION_KEYS, ...settings.redaction.keys],
+      patterns: [...DEFAULT_REDACTION_PATTERNS, ...settings.redaction.patterns],
+      enabled: settings.redaction.enabled
+    });
+    this.configureConsoleSink();
+    this.configureFileSinks();
+  }
+
   /**
    * Get current timestamp in formatted string
    * @returns Formatted timestamp string
@@ -78,74 +331,156 @@ export class Logger {
   }
 
   /**
-   * Format log message with timestamp and level
-   * @param level - Log level
-   * @param message - Log message
-   * @returns Formatted log message
+   * Switch the format of the log files
+   * @param format - 'text' (default) or 'json' (JSON lines)
    */
-  private formatMessage(level: LogLevel, message: string): string {
-    return `[${this.getTimestamp()}] [${level}] ${message}`;
+  public setFormat(format: LogFormat): void {
+    this.format = format;
+    this.configureFileSinks();
   }
 
   /**
-   * Choose or create the current run log file. Does not overwrite existing content unless forceNew is true.
-   * If `test_run.log` is empty or does not exist, it will be used; otherwise the next numbered file is used.
+   * Change the minimum level that is logged
+   * @param level - Entries below this level are dropped
    */
-  public startRun(forceNew = false): void {
-    this.initPaths();
+  public setLevel(level: LogLevel): void {
+    this.threshold = level;
+  }
 
-    const current = path.join(this.logDir, 'test_run.log');
-    const prev1 = path.join(this.logDir, 'test_run.1.log');
-    const prev2 = path.join(this.logDir, 'test_run.2.log');
+  /**
+   * Minimum level that is logged (LOG_LEVEL, default INFO)
+   */
+  public get level(): LogLevel {
+    return this.threshold;
+  }
 
-    try {
-      // If current exists and we're not forcing reuse, rotate older runs
-      if (fs.existsSync(current) && !forceNew) {
-        // Move prev1 -> prev2 (overwrite)
-        if (fs.existsSync(prev1)) {
-          try {
-            if (fs.existsSync(prev2)) fs.unlinkSync(prev2);
-            fs.renameSync(prev1, prev2);
-          } catch (e) {
-            // best-effort: fallback to copy+unlink
-            try {
-              const data = fs.readFileSync(prev1);
-              fs.writeFileSync(prev2, data);
-              fs.unlinkSync(prev1);
-            } catch (err) {
-              // ignore
-            }
-          }
-        }
-
-        // Move current -> prev1
-        try {
-          if (fs.existsSync(prev1)) fs.unlinkSync(prev1);
-          fs.renameSync(current, prev1);
-        } catch (e) {
-          try {
-            const data = fs.readFileSync(current);
-            fs.writeFileSync(prev1, data);
-            fs.unlinkSync(current);
-          } catch (err) {
-            // ignore
-          }
-        }
+  /**
+   * Send entries to an additional sink
+   * @param sink - Sink to add, e.g. a MemorySink
+   * @returns The sink, for removing it later
+   */
+  public addSink<T extends LogSink>(sink: T): T {
+    this.sinks.push(sink);
+    return sink;
+  }
+
+  /**
+   * Stop sending entries to a sink
+   * @param sink - Sink added with `addSink()`, or one of the built-in sinks
+   */
+  public removeSink(sink: LogSink): void {
+    this.sinks = this.sinks.filter(s => s !== sink);
+    if (sink === this.consoleSink) this.consoleSink = undefined;
+    if (sink === this.runSink) this.runSink = undefined;
+    if (sink === this.errorSink) this.errorSink = undefined;
+    if (sink === this.jsonlSink) this.jsonlSink = undefined;
+  }
+
+  /**
+   * Attach test details to every following entry (set by the log fixtures before each test)
+   * @param context - Test title, worker index and retry
+   */
+  public setTestContext(context: LogContext): void {
+    this.testContext = { ...context };
+  }
+
+  /**
+   * Stop attaching test details (called after each test)
+   */
+  public clearTestContext(): void {
+    this.testContext = {};
+  }
+
+  /**
+   * Run a function with extra context attached to every entry it logs, including from async code it starts
+   * @param context - Fields to attach, e.g. `{ correlationId }`
+   * @param fn - Function to run
+   * @returns The function's result
+   */
+  public withContext<T>(context: LogContext, fn: () => T): T {
+    return this.scopedContext.run({ ...this.scopedContext.getStore(), ...context }, fn);
+  }
+
+  /**
+   * Context currently attached to entries: the test context merged with any `withContext()` scope
+   */
+  public get context(): LogContext {
+    return { ...this.testContext, ...this.scopedContext.getStore() };
+  }
+
+  /**
+   * Mask secrets and personal data the way log entries are masked, e.g. before attaching data to a report
+   * @param value - Text, object or array
+   * @returns A redacted copy
+   */
+  public redact<T>(value: T): T {
+    return this.redactor.redact(value);
+  }
+
+  /**
+   * Start collecting the lines written to the run log, in its format. Captures are
+   * independent: stopping one does not affect the others.
+   * @returns The capture; call `stop()` when done
+   */
+  public capture(): LogCapture {
+    const lines: string[] = [];
+    this.captures.add(lines);
+    return {
+      lines,
+      stop: () => {
+        this.captures.delete(lines);
+        return lines;
       }
+    };
+  }
 
-      // Create new current run file (overwrite if forceNew)
+  /**
+   * Path of the current run log file, or null before a run is started
+   */
+  public get runLogFile(): string | null {
+    return this.runLogPath;
+  }
+
+  /**
+   * Build the entry for a message and hand it to every sink and active capture
+   */
+  private write(level: LogLevel, message: string): void {
+    if (!isLevelEnabled(level, this.threshold)) return;
+    this.ensureRun();
+    const entry: LogEntry = { timestamp: this.getTimestamp(), level, message: this.redactor.redactText(message), ...this.context };
+    for (const sink of this.sinks) {
       try {
-        fs.writeFileSync(current, `=== Test run started: ${new Date().toISOString()} ===\n`);
+        sink.write(entry);
       } catch (e) {
-        // if write fails, fallback to error log
-        this.runLogPath = this.errorLogPath;
-        return;
+        // a failing sink must not affect tests or the other sinks
       }
+    }
+    if (this.captures.size > 0) {
+      const line = formatLogEntry(entry, this.format);
+      this.captures.forEach(lines => lines.push(line));
+    }
+  }
 
-      this.runLogPath = current;
+  /**
+   * Choose or create the current run log file. Unless forceNew is true, the existing
+   * `test_run.log` is rotated first (see LOG_RETENTION_RUNS / LOG_RETENTION_DAYS).
+   * Child processes started afterwards append to the same file.
+   */
+  public startRun(forceNew = false): void {
+    this.initPaths();
+
+    const current = path.join(this.logDir, RUN_LOG_NAME);
+    try {
+      if (!forceNew) {
+        rotateRunLogs(this.logDir, this.retention);
+      }
+      // Create new current run file (overwrite if forceNew)
+      fs.writeFileSync(current, `=== Test run started: ${new Date().toISOString()} ===\n`);
+      this.useRunFile(current);
+      process.env.LOG_RUN_FILE = current;
     } catch (e) {
-      // fallback: set to errorLogPath
-      this.runLogPath = this.errorLogPath;
+      // fallback: write the run to the error log
+      this.useRunFile(this.errorLogPath);
     }
   }
 
@@ -161,9 +496,7 @@ export class Logger {
    * @param message - Message to log
    */
   public info(message: string): void {
-    const msg = this.formatMessage(LogLevel.INFO, message);
-    console.log(msg);
-    this.appendToRun(msg);
+    this.write(LogLevel.INFO, message);
   }
 
   /**
@@ -171,9 +504,7 @@ export class Logger {
    * @param message - Message to log
    */
   public warn(message: string): void {
-    const msg = this.formatMessage(LogLevel.WARN, message);
-    console.warn(msg);
-    this.appendToRun(msg);
+    this.write(LogLevel.WARN, message);
   }
 
   /**
@@ -181,10 +512,7 @@ export class Logger {
    * @param message - Message to log
    */
   public error(message: string): void {
-    const msg = this.formatMessage(LogLevel.ERROR, message);
-    console.error(msg);
-    this.appendToRun(msg);
-    this.appendToErrorLog(msg);
+    this.write(LogLevel.ERROR, message);
   }
 
   /**
@@ -192,9 +520,7 @@ export class Logger {
    * @param message - Message to log
    */
   public debug(message: string): void {
-    const msg = this.formatMessage(LogLevel.DEBUG, message);
-    console.debug(msg);
-    this.appendToRun(msg);
+    this.write(LogLevel.DEBUG, message);
   }
 
   /**
@@ -202,32 +528,53 @@ export class Logger {
    * @param step - Test step description
    */
   public step(step: string): void {
-    const msg = this.formatMessage(LogLevel.INFO, `STEP: ${step}`);
-    console.log(msg);
-    this.appendToRun(msg);
+    this.write(LogLevel.INFO, `STEP: ${step}`);
   }
 
-  /** Append a message to the active run log file (if selected) */
-  private appendToRun(message: string): void {
-    try {
-      if (!this.runLogPath) this.startRun();
-      if (this.runLogPath) fs.appendFileSync(this.runLogPath, message + '\n');
-    } catch (e) {
-      // swallow logging errors so they don't affect tests
+  /** Join the run started by the parent process (Playwright runner), or start a new one */
+  private ensureRun(): void {
+    if (this.runLogPath) return;
+    const inherited = getEnv('LOG_RUN_FILE');
+    if (inherited && fs.existsSync(inherited)) {
+      this.initPaths();
+      this.useRunFile(inherited);
+    } else {
+      this.startRun();
     }
   }
 
-  /** Append an error message to the persistent error log */
-  private appendToErrorLog(message: string): void {
-    try {
-      if (!this.errorLogPath) this.initPaths();
-      fs.appendFileSync(this.errorLogPath, message + '\n');
-    } catch (e) {
-      // swallow
+  /** Select the run log file and point the file sinks at it */
+  private useRunFile(filePath: string): void {
+    this.runLogPath = filePath;
+    this.configureFileSinks();
+  }
+
+  /** (Re)create the built-in file sinks for the current run file and format */
+  private configureFileSinks(): void {
+    this.sinks = this.sinks.filter(sink => sink !== this.runSink && sink !== this.errorSink && sink !== this.jsonlSink);
+    this.runSink = this.errorSink = this.jsonlSink = undefined;
+    if (!this.runLogPath) return;
+    if (this.builtInSinks.includes('file')) {
+      this.runSink = new FileSink(this.runLogPath, this.format);
+      this.errorSink = new FileSink(this.errorLogPath, this.format, LogLevel.ERROR);
+      this.sinks.push(this.runSink, this.errorSink);
+    }
+    if (this.builtInSinks.includes('jsonl')) {
+      this.jsonlSink = this.addSink(new JsonlSink(path.join(path.dirname(this.runLogPath), RUN_JSONL_NAME)));
+    }
+  }
+
+  /** Add or remove the built-in console sink to match LOG_SINKS */
+  private configureConsoleSink(): void {
+    const wanted = this.builtInSinks.includes('console');
+    if (wanted && !this.consoleSink) {
+      this.consoleSink = new ConsoleSink();
+      this.sinks.unshift(this.consoleSink);
+    } else if (!wanted && this.consoleSink) {
+      this.removeSink(this.consoleSink);
     }
   }
 }
 
 // Export singleton instance
 export const logger = Logger.getInstance();
-
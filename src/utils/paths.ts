@@ -0,0 +1,17 @@
+/**
+ * Repository Paths
+ *
+ * The CLIs run compiled from dist/src/..., the tests from src/...; both resolve files of the
+ * checkout (the .env files, test-results) from the repository root found here, never from the
+ * working directory.
+ */
+
+import path from 'path';
+
+const COMPILED_ROOT = path.resolve(__dirname, '..', '..');
+
+/** Root of the checkout, whether this file runs from src/utils or dist/src/utils */
+export const REPO_ROOT = path.basename(COMPILED_ROOT) === 'dist' ? path.dirname(COMPILED_ROOT) : COMPILED_ROOT;
+
+/** Reports, logs and other run output */
+export const RESULTS_DIR = path.join(REPO_ROOT, 'test-results');
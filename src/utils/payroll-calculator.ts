@@ -0,0 +1,127 @@
+/**
+ * Payroll Calculator
+ *
+ * Reference (oracle) implementation of gross-to-net pay for a pay group, independent
+ * of the backend, so payroll responses can be asserted against computed values
+ * instead of hard-coded numbers.
+ *
+ * Rules:
+ * - Gross per period = annual salary / periods per year (WEEKLY 52, BIWEEKLY 26, MONTHLY 12)
+ * - Tax, benefits and deductions are percentages of the rounded period gross
+ * - Net = gross - tax - deductions + benefits (benefits are paid on top of salary)
+ * - All arithmetic is done in integer cents; every amount is rounded to the cent
+ *   independently (HALF_UP by default), and net is derived from the rounded amounts
+ *   so a breakdown always reconciles exactly
+ * - Salaries and rates may have at most two decimal places
+ */
+
+import type { PayGroup } from '../api/pay-group-api';
+
+/** Pay periods per year for each payment cycle */
+export const PERIODS_PER_YEAR: Readonly<Record<string, number>> = {
+  WEEKLY: 52,
+  BIWEEKLY: 26,
+  MONTHLY: 12
+};
+
+/**
+ * How half-cent results are rounded.
+ * HALF_UP rounds 0.5 away from zero; HALF_EVEN (banker's rounding) rounds 0.5 to the even cent.
+ */
+export type RoundingMode = 'HALF_UP' | 'HALF_EVEN';
+
+/**
+ * Pay group fields the calculation depends on. `paymentCycle` is a plain string so that
+ * unknown cycles reach the calculator and are rejected there.
+ */
+export type PayRates = Pick<PayGroup, 'baseTaxRate' | 'benefitRate' | 'deductionRate'> & { paymentCycle: string };
+
+/**
+ * Per-period pay, in currency units rounded to the cent
+ */
+export interface PayBreakdown {
+  paymentCycle: string;
+  periodsPerYear: number;
+  gross: number;
+  tax: number;
+  benefits: number;
+  deductions: number;
+  net: number;
+}
+
+/**
+ * Error thrown when the calculator is given input it cannot price
+ */
+export class PayrollCalculationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PayrollCalculationError';
+  }
+}
+
+/**
+ * Calculate one period's pay for an annual salary in a pay group
+ * @param annualSalary - Annual salary in currency units (non-negative, at most two decimals)
+ * @param payGroup - Pay group (or its rates and payment cycle)
+ * @param rounding - Rounding mode for half cents (default HALF_UP)
+ */
+export function calculatePay(annualSalary: number, payGroup: PayRates, rounding: RoundingMode = 'HALF_UP'): PayBreakdown {
+  const periodsPerYear = PERIODS_PER_YEAR[payGroup.paymentCycle];
+  if (periodsPerYear === undefined) {
+    throw new PayrollCalculationError(`Unknown paymentCycle: ${payGroup.paymentCycle}`);
+  }
+
+  const annualCents = toHundredths(annualSalary, 'annualSalary');
+  const grossCents = divideRounded(annualCents, periodsPerYear, rounding);
+
+  // Rates are percentages with two decimals, i.e. basis points: amount = gross * bp / 10000
+  const percentOf = (rate: number, field: string): number =>
+    divideRounded(grossCents * toHundredths(rate, field), 10000, rounding);
+
+  const taxCents = percentOf(payGroup.baseTaxRate, 'baseTaxRate');
+  const benefitCents = percentOf(payGroup.benefitRate, 'benefitRate');
+  const deductionCents = percentOf(payGroup.deductionRate, 'deductionRate');
+
+  return {
+    paymentCycle: payGroup.paymentCycle,
+    periodsPerYear,
+    gross: grossCents / 100,
+    tax: taxCents / 100,
+    benefits: benefitCents / 100,
+    deductions: deductionCents / 100,
+    net: (grossCents - taxCents - deductionCents + benefitCents) / 100
+  };
+}
+
+/**
+ * Divide two non-negative integers, rounding the quotient to an integer
+ * @param numerator - Non-negative integer
+ * @param denominator - Positive integer
+ * @param rounding - How to round an exact half
+ */
+export function divideRounded(numerator: number, denominator: number, rounding: RoundingMode = 'HALF_UP'): number {
+  const quotient = Math.floor(numerator / denominator);
+  const twiceRemainder = 2 * (numerator - quotient * denominator);
+  if (twiceRemainder > denominator) {
+    return quotient + 1;
+  }
+  if (twiceRemainder === denominator) {
+    return rounding === 'HALF_UP' || quotient % 2 === 1 ? quotient + 1 : quotient;
+  }
+  return quotient;
+}
+
+/**
+ * Convert a non-negative amount with at most two decimals to an integer number of hundredths
+ */
+function toHundredths(value: number, field: string): number {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new PayrollCalculationError(`${field} must be a non-negative number, got: ${value}`);
+  }
+  // toPrecision strips binary noise such as 19.99 * 100 = 1998.9999999999998
+  const scaled = Number((value * 100).toPrecision(15));
+  if (!Number.isSafeInteger(scaled)) {
+    throw new PayrollCalculationError(`${field} must have at most two decimal places, got: ${value}`);
+  }
+  return scaled;
+}
@@ -0,0 +1,179 @@
+/**
+ * Redactor
+ *
+ * Masks secrets and personal data before they reach log output or report attachments.
+ * Three kinds of rules are applied:
+ * - Key rules: values of fields whose name matches (JSON `"password": "..."`, objects, and
+ *   `key: value` / `key=value` in text). Defaults cover passwords, secrets, tokens, API keys,
+ *   authorization and cookie headers, emails, usernames and personal names (first, last,
+ *   middle and full name, also spelt with a space as in 'First name field'; not other names
+ *   such as groupName).
+ * - Value patterns: anything matching is masked wherever it appears (emails, bearer/basic
+ *   credentials and JWTs by default).
+ * - Secret values: literal values known to be secret, e.g. configured passwords and tokens.
+ *
+ * Configuration: LOG_REDACT_KEYS adds comma-separated key patterns, LOG_REDACT_PATTERNS adds
+ * value patterns separated by `;`, LOG_REDACTION=off turns redaction off (local debugging only).
+ */
+
+export const REDACTED = '[REDACTED]';
+
+/** Field names whose values are masked (case-insensitive, matched anywhere in the name) */
+export const DEFAULT_REDACTION_KEYS: readonly RegExp[] = [
+  /passw(or)?d/i,
+  /secret/i,
+  /token/i,
+  /api[-_]?key/i,
+  /authorization/i,
+  /cookie/i,
+  /e-?mail/i,
+  /user[-_]?name/i,
+  /(first|last|middle|full)[-_\s]?name/i
+];
+
+/** Values masked wherever they appear */
+export const DEFAULT_REDACTION_PATTERNS: readonly RegExp[] = [
+  /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/g,
+  /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g
+];
+
+/** Secret values shorter than this are not masked literally; they would mask ordinary text */
+const MIN_SECRET_LENGTH = 4;
+
+/**
+ * Rules for one Redactor
+ */
+export interface RedactionRules {
+  keys: readonly RegExp[];
+  patterns: readonly RegExp[];
+  enabled: boolean;
+}
+
+/**
+ * Masks sensitive values in text and in structured data
+ */
+export class Redactor {
+  private keys: RegExp[] = [];
+  private patterns: RegExp[] = [];
+  private readonly secrets = new Set<string>();
+  private enabled = true;
+
+  constructor(rules: Partial<RedactionRules> = {}) {
+    this.setRules(rules);
+  }
+
+  /**
+   * Default rules plus those from LOG_REDACT_KEYS / LOG_REDACT_PATTERNS; off with LOG_REDACTION=off
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): Redactor {
+    const list = (value: string | undefined, separator: string) =>
+      (value ?? '').split(separator).map(item => item.trim()).filter(Boolean);
+    return new Redactor({
+      keys: [...DEFAULT_REDACTION_KEYS, ...list(env.LOG_REDACT_KEYS, ',').map(key => new RegExp(key, 'i'))],
+      patterns: [...DEFAULT_REDACTION_PATTERNS, ...list(env.LOG_REDACT_PATTERNS, ';').map(pattern => new RegExp(pattern, 'g'))],
+      enabled: env.LOG_REDACTION?.trim().toLowerCase() !== 'off'
+    });
+  }
+
+  /**
+   * Replace the key and value rules, e.g. when the configuration is applied again. Rules added
+   * with `addKey()` / `addPattern()` are dropped; known secrets are kept.
+   * @param rules - New rules; missing ones fall back to the defaults
+   */
+  setRules(rules: Partial<RedactionRules>): void {
+    this.keys = [...(rules.keys ?? DEFAULT_REDACTION_KEYS)];
+    // Replacing needs global patterns
+    this.patterns = (rules.patterns ?? DEFAULT_REDACTION_PATTERNS).map(p => p.global ? p : new RegExp(p.source, p.flags + 'g'));
+    this.enabled = rules.enabled ?? true;
+  }
+
+  /**
+   * Mask a key's values from now on
+   * @param key - Pattern matched against field names, case-insensitively
+   */
+  addKey(key: RegExp | string): void {
+    this.keys.push(typeof key === 'string' ? new RegExp(key, 'i') : key);
+  }
+
+  /**
+   * Mask values matching a pattern from now on
+   */
+  addPattern(pattern: RegExp): void {
+    this.patterns.push(pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g'));
+  }
+
+  /**
+   * Mask every occurrence of a known secret from now on (e.g. a configured password)
+   * @param values - Secrets; empty and very short values are ignored
+   */
+  addSecrets(...values: (string | undefined)[]): void {
+    values.filter((v): v is string => !!v && v.length >= MIN_SECRET_LENGTH).forEach(v => this.secrets.add(v));
+  }
+
+  /**
+   * Turn redaction on or off
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Whether a field's value is masked
+   * @param key - Field, header or parameter name
+   */
+  isSensitiveKey(key: string): boolean {
+    return this.keys.some(rule => rule.test(key));
+  }
+
+  /**
+   * The value to show for a named field: masked when the name is sensitive
+   * @param key - Field name or description, e.g. 'Password field'
+   * @param value - Value entered or sent
+   */
+  redactField(key: string, value: string): string {
+    return this.enabled && this.isSensitiveKey(key) ? REDACTED : this.redactText(value);
+  }
+
+  /**
+   * Mask sensitive values in free text, including JSON embedded in it
+   * @param text - Log message or attachment body
+   */
+  redactText(text: string): string {
+    if (!this.enabled) return text;
+    let result = text;
+    for (const secret of this.secrets) {
+      result = result.split(secret).join(REDACTED);
+    }
+    for (const pattern of this.patterns) {
+      result = result.replace(pattern, REDACTED);
+    }
+    // JSON fields: "key": "value" | number | literal
+    result = result.replace(/"([^"\\]+)"(\s*:\s*)("(?:[^"\\]|\\.)*"|[^,}\]\s]+)/g,
+      (match, key: string, separator: string) => this.isSensitiveKey(key) ? `"${key}"${separator}"${REDACTED}"` : match);
+    // Prose, headers and query strings: key: value | key=value
+    result = result.replace(/\b([A-Za-z][\w-]*)(\s*[:=]\s*)([^\s,;&'"]+)/g,
+      (match, key: string, separator: string, value: string) =>
+        this.isSensitiveKey(key) && value !== REDACTED ? `${key}${separator}${REDACTED}` : match);
+    return result;
+  }
+
+  /**
+   * Copy of a value with sensitive fields and strings masked
+   * @param value - Object, array or string
+   */
+  redact<T>(value: T): T {
+    if (!this.enabled) return value;
+    return this.redactValue(value) as T;
+  }
+
+  private redactValue(value: unknown): unknown {
+    if (typeof value === 'string') return this.redactText(value);
+    if (Array.isArray(value)) return value.map(item => this.redactValue(item));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, field]) =>
+        [key, this.isSensitiveKey(key) && field !== null && field !== undefined ? REDACTED : this.redactValue(field)]));
+    }
+    return value;
+  }
+}
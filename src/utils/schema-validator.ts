@@ -0,0 +1,133 @@
+/**
+ * Schema Validator Utility
+ *
+ * A small runtime schema layer for API response bodies.
+ * Schemas describe each field's type so a response can be checked in one call,
+ * and a failure reports every missing or wrongly typed field instead of only the first.
+ */
+
+/**
+ * Supported field types
+ */
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+
+/**
+ * Rule for a single field
+ */
+export interface FieldRule {
+  type: FieldType;
+  optional?: boolean;
+  nullable?: boolean;
+  enum?: readonly string[];
+}
+
+/**
+ * Schema for an object type. Every key of T must be described.
+ */
+export interface ObjectSchema<T> {
+  name: string;
+  fields: { [K in keyof T]-?: FieldRule };
+}
+
+/**
+ * Error thrown when a value does not match its schema
+ */
+export class SchemaValidationError extends Error {
+  constructor(public readonly schemaName: string, public readonly issues: string[]) {
+    super(`${schemaName} failed schema validation:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+/**
+ * Check a value against a schema
+ * @param schema - Object schema
+ * @param value - Value to check
+ * @param path - Path prefix used in issue messages
+ * @returns List of issues (empty when valid)
+ */
+export function validate<T>(schema: ObjectSchema<T>, value: unknown, path: string = schema.name): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`${path}: expected object, got ${describe(value)}`];
+  }
+
+  const issues: string[] = [];
+  const record = value as Record<string, unknown>;
+  for (const key of Object.keys(schema.fields) as (keyof T & string)[]) {
+    const rule: FieldRule = schema.fields[key];
+    const fieldPath = `${path}.${key}`;
+    const fieldValue = record[key];
+
+    if (fieldValue === undefined) {
+      if (!rule.optional) issues.push(`${fieldPath}: missing (expected ${rule.type})`);
+      continue;
+    }
+    if (fieldValue === null) {
+      if (!rule.nullable) issues.push(`${fieldPath}: expected ${rule.type}, got null`);
+      continue;
+    }
+    if (!matchesType(rule.type, fieldValue)) {
+      issues.push(`${fieldPath}: expected ${rule.type}, got ${describe(fieldValue)}`);
+      continue;
+    }
+    if (rule.enum && !rule.enum.includes(fieldValue as string)) {
+      issues.push(`${fieldPath}: expected one of ${rule.enum.join(', ')}, got ${JSON.stringify(fieldValue)}`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Validate a value and return it typed, or throw SchemaValidationError
+ * @param schema - Object schema
+ * @param value - Value to parse
+ * @returns The value typed as T
+ */
+export function parse<T>(schema: ObjectSchema<T>, value: unknown): T {
+  const issues = validate(schema, value);
+  if (issues.length > 0) {
+    throw new SchemaValidationError(schema.name, issues);
+  }
+  return value as T;
+}
+
+/**
+ * Validate an array of values and return it typed, or throw SchemaValidationError
+ * listing the issues of every element
+ * @param schema - Schema for each element
+ * @param value - Value expected to be an array
+ * @returns The array typed as T[]
+ */
+export function parseArray<T>(schema: ObjectSchema<T>, value: unknown): T[] {
+  const name = `${schema.name}[]`;
+  if (!Array.isArray(value)) {
+    throw new SchemaValidationError(name, [`${name}: expected array, got ${describe(value)}`]);
+  }
+  const issues = value.flatMap((item, i) => validate(schema, item, `${schema.name}[${i}]`));
+  if (issues.length > 0) {
+    throw new SchemaValidationError(name, issues);
+  }
+  return value as T[];
+}
+
+function matchesType(type: FieldType, value: unknown): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && isNaN(value)) return 'NaN';
+  return typeof value;
+}
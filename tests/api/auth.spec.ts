@@ -0,0 +1,107 @@
+import { test, expect } from '@playwright/test';
+import { EmployeeApi } from '../../src/api/employee-api';
+import {
+    AuthError,
+    BasicAuth,
+    BearerTokenAuth,
+    OAuth2ClientCredentialsAuth,
+    createAuthStrategy
+} from '../../src/api/auth';
+import { PayrollMockServer } from '../../src/mock/payroll-mock-server';
+
+// These tests run against their own auth-enforcing mock server, whatever PAYROLL_API_MODE is
+const client = { clientId: 'payroll-tests', clientSecret: 's3cret' };
+const server = new PayrollMockServer({
+    auth: {
+        client,
+        basic: { username: 'hr.admin', password: 'hunter2' },
+        staticTokens: ['static-service-token']
+    }
+});
+
+test.beforeAll(async () => {
+    await server.start();
+});
+
+test.afterAll(async () => {
+    await server.stop();
+});
+
+test.beforeEach(() => {
+    OAuth2ClientCredentialsAuth.clearCache();
+});
+
+test.describe('API Authentication Strategies', () => {
+    test('TC-01: Request without credentials is rejected with 401', async ({ request }) => {
+        const employeeApi = new EmployeeApi(request, server.baseUrl, createAuthStrategy({ type: 'none' }));
+        const response = await employeeApi.getAllEmployees();
+        expect(response.status()).toBe(401);
+    });
+
+    test('TC-02: Basic auth with valid and invalid credentials', async ({ request }) => {
+        const validApi = new EmployeeApi(request, server.baseUrl, new BasicAuth('hr.admin', 'hunter2'));
+        expect((await validApi.getAllEmployees()).status()).toBe(200);
+
+        const invalidApi = new EmployeeApi(request, server.baseUrl, new BasicAuth('hr.admin', 'wrong'));
+        expect((await invalidApi.getAllEmployees()).status()).toBe(401);
+    });
+
+    test('TC-03: Static bearer token is accepted', async ({ request }) => {
+        const employeeApi = new EmployeeApi(request, server.baseUrl, new BearerTokenAuth('static-service-token'));
+        expect((await employeeApi.getAllEmployees()).status()).toBe(200);
+    });
+
+    test('TC-04: OAuth2 token is fetched once and shared across API clients', async ({ request }) => {
+        const before = server.tokenRequestCount;
+        const config = { type: 'oauth2' as const, tokenUrl: `${server.baseUrl}/oauth/token`, ...client };
+
+        const first = new EmployeeApi(request, server.baseUrl, createAuthStrategy(config));
+        const second = new EmployeeApi(request, server.baseUrl, createAuthStrategy(config));
+        expect((await first.getAllEmployees()).status()).toBe(200);
+        expect((await second.getAllEmployees()).status()).toBe(200);
+        expect((await first.getAllEmployees()).status()).toBe(200);
+
+        expect(server.tokenRequestCount - before).toBe(1);
+    });
+
+    test('TC-05: OAuth2 token is refreshed after a 401', async ({ request }) => {
+        const employeeApi = new EmployeeApi(request, server.baseUrl, new OAuth2ClientCredentialsAuth({
+            tokenUrl: `${server.baseUrl}/oauth/token`,
+            ...client
+        }));
+        expect((await employeeApi.getAllEmployees()).status()).toBe(200);
+        const before = server.tokenRequestCount;
+
+        // Simulate server-side expiry of the cached token
+        server.revokeTokens();
+
+        expect((await employeeApi.getAllEmployees()).status()).toBe(200);
+        expect(server.tokenRequestCount - before).toBe(1);
+    });
+
+    test('TC-06: OAuth2 with an invalid client secret fails with AuthError', async ({ request }) => {
+        const employeeApi = new EmployeeApi(request, server.baseUrl, new OAuth2ClientCredentialsAuth({
+            tokenUrl: `${server.baseUrl}/oauth/token`,
+            clientId: client.clientId,
+            clientSecret: 'wrong'
+        }));
+        await expect(employeeApi.getAllEmployees()).rejects.toThrow(AuthError);
+    });
+
+    test('TC-07: A caller-supplied Authorization header wins in any case and is not refreshed', async ({ request }) => {
+        const employeeApi = new EmployeeApi(request, server.baseUrl, new OAuth2ClientCredentialsAuth({
+            tokenUrl: `${server.baseUrl}/oauth/token`,
+            ...client
+        }));
+        expect((await employeeApi.getAllEmployees()).status()).toBe(200);
+        const before = server.tokenRequestCount;
+
+        for (const name of ['Authorization', 'authorization', 'AUTHORIZATION']) {
+            const response = await employeeApi.get('/employee', { headers: { [name]: 'Bearer not-a-token' } });
+            expect(response.status(), name).toBe(401);
+        }
+
+        expect(server.tokenRequestCount - before, 'no credential refresh').toBe(0);
+        expect((await employeeApi.getAllEmployees()).status(), 'cached token still used').toBe(200);
+    });
+});
@@ -0,0 +1,93 @@
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { CreatePayGroup, PayGroupApi } from '../../src/api/pay-group-api';
+import { testConfig } from '../../src/config/test-config';
+import { Cassette, CassetteFile, CassetteMismatchError } from '../../src/cassette/cassette';
+import { diffCassettes } from '../../src/cassette/cassette-diff';
+
+/** Base URL nothing listens on: a replaying client must never reach the network */
+const OFFLINE_BASE_URL = 'http://localhost:1/tw-payroll-system/api';
+
+function cassetteFile(interactions: CassetteFile['interactions']): CassetteFile {
+    return { version: 1, interactions };
+}
+
+const create: CreatePayGroup = { groupName: 'PG Cassette', paymentCycle: 'MONTHLY', baseTaxRate: 10, benefitRate: 5, deductionRate: 2 };
+const payGroup = { payGroupId: 7, ...create, createdAt: '2026-01-01T00:00:00Z' };
+
+test.describe('Cassettes - Record and Replay', () => {
+    test('TC-01: A recorded session replays without a backend, in order', async ({ request, testData }, testInfo) => {
+        const file = testInfo.outputPath('pay-group.json');
+        const data = testData.payGroup().build();
+        const steps = async (api: PayGroupApi) => {
+            const created = await api.createPayGroup(data);
+            const { payGroupId } = await created.json();
+            const fetched = await api.getPayGroup(payGroupId);
+            const deleted = await api.deletePayGroup(payGroupId);
+            const missing = await api.getPayGroup(payGroupId);
+            return [
+                { status: created.status(), body: await created.json() },
+                { status: fetched.status(), body: await fetched.json() },
+                { status: deleted.status() },
+                { status: missing.status(), body: await missing.json() }
+            ];
+        };
+
+        const recording = Cassette.open(file, 'record');
+        const recorded = await steps(new PayGroupApi(request, testConfig.api.baseUrl).useCassette(recording));
+        recording.save();
+
+        const replaying = Cassette.open(file, 'replay');
+        const replayed = await steps(new PayGroupApi(request, OFFLINE_BASE_URL).useCassette(replaying));
+
+        expect(recorded.map(r => r.status)).toEqual([201, 200, 204, 404]);
+        expect(replayed).toEqual(recorded);
+        expect(replaying.unused).toEqual([]);
+    });
+
+    test('TC-02: Requests match on method, path, query and body', async ({ request }, testInfo) => {
+        const interactions: CassetteFile['interactions'] = [
+            { request: { method: 'GET', url: '/tw-payroll-system/api/pay-groups?page=0&size=2' }, response: { status: 200, statusText: 'OK', headers: { 'content-type': 'application/json' }, body: [payGroup] } },
+            { request: { method: 'POST', url: '/tw-payroll-system/api/pay-groups', body: create }, response: { status: 201, statusText: 'Created', headers: { 'content-type': 'application/json' }, body: payGroup } }
+        ];
+        const api = (cassette: Cassette) => new PayGroupApi(request, OFFLINE_BASE_URL).useCassette(cassette);
+        const file = testInfo.outputPath('unused.json');
+
+        const strict = new Cassette(file, 'replay', cassetteFile(interactions));
+        expect((await api(strict).get('/pay-groups?size=2&page=0')).status()).toBe(200);
+        const { groupName, ...rates } = create;
+        expect((await api(strict).createPayGroup({ ...rates, groupName })).status()).toBe(201);
+
+        const bodyMismatch = new Cassette(file, 'replay', cassetteFile(interactions));
+        await expect(api(bodyMismatch).createPayGroup({ ...create, groupName: 'PG Other' }))
+            .rejects.toThrow(CassetteMismatchError);
+        await expect(api(bodyMismatch).get('/pay-groups?page=1&size=2')).rejects.toThrow(/Unused interactions for GET/);
+
+        const lenient = new Cassette(file, 'replay', cassetteFile(interactions), { match: ['method', 'path'] });
+        expect((await api(lenient).createPayGroup({ ...create, groupName: 'PG Other' })).status()).toBe(201);
+
+        const ignoring = new Cassette(file, 'replay', cassetteFile(interactions), { ignoreBodyFields: ['groupName'] });
+        expect((await api(ignoring).createPayGroup({ ...create, groupName: 'PG Other' })).status()).toBe(201);
+        expect(ignoring.unused.map(i => i.request.method)).toEqual(['GET']);
+    });
+
+    test('TC-03: Replaying a cassette that was never recorded fails with a hint', async ({}, testInfo) => {
+        expect(() => Cassette.open(testInfo.outputPath('missing.json'), 'replay'))
+            .toThrow(/No cassette to replay: .*missing\.json \(record it first with API_CASSETTE_MODE=record\)/);
+    });
+
+    test('TC-04: Diffs report changed statuses and bodies but not timestamps', async () => {
+        const get = { method: 'GET', url: '/tw-payroll-system/api/pay-groups/7' };
+        const before = cassetteFile([{ request: get, response: { status: 200, statusText: 'OK', headers: {}, body: payGroup } }]);
+        const retimed = cassetteFile([{ request: get, response: { status: 200, statusText: 'OK', headers: {}, body: { ...payGroup, createdAt: '2026-02-02T00:00:00Z' } } }]);
+        const changed = cassetteFile([
+            { request: get, response: { status: 200, statusText: 'OK', headers: {}, body: { ...payGroup, baseTaxRate: 12 } } },
+            { request: get, response: { status: 404, statusText: 'Not Found', headers: {}, body: { status: 404, message: 'gone' } } }
+        ]);
+
+        expect(diffCassettes('pay-group.json', before, retimed)).toEqual([]);
+        expect(diffCassettes('pay-group.json', before, changed)).toEqual([
+            { cassette: 'pay-group.json', interaction: 0, kind: 'body', message: 'GET /tw-payroll-system/api/pay-groups/7: $.baseTaxRate 10 -> 12' },
+            { cassette: 'pay-group.json', interaction: 1, kind: 'added', message: 'GET /tw-payroll-system/api/pay-groups/7 -> 404' }
+        ]);
+    });
+});
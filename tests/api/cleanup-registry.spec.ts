@@ -0,0 +1,49 @@
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { testConfig } from '../../src/config/test-config';
+import { createAuthStrategy } from '../../src/api/auth';
+import { EmployeeApi } from '../../src/api/employee-api';
+import { PayGroupApi } from '../../src/api/pay-group-api';
+import { CleanupRegistry } from '../../src/fixtures/cleanup-registry';
+
+test.describe('Test Data Cleanup Registry', () => {
+    test('TC-01: Cleanup deletes employees before the pay group they belong to', async ({ request, testData }) => {
+        // A registry of our own, so the cleanup can be run and checked inside the test
+        const registry = new CleanupRegistry();
+        const auth = createAuthStrategy(testConfig.api.auth);
+        const employeeApi = new EmployeeApi(request, testConfig.api.baseUrl, auth, testConfig.api.retry).useCleanupRegistry(registry);
+        const payGroupApi = new PayGroupApi(request, testConfig.api.baseUrl, auth, testConfig.api.retry).useCleanupRegistry(registry);
+
+        const payGroup = await payGroupApi.createPayGroupTyped(testData.payGroup().build());
+        const { employeeId } = await employeeApi.createEmployeeTyped(testData.employee().inPayGroup(payGroup.payGroupId).build());
+        expect(registry.tracked).toHaveLength(2);
+
+        const leftovers = await registry.cleanup();
+
+        expect(leftovers).toEqual([]);
+        expect(registry.tracked).toHaveLength(0);
+        expect((await employeeApi.getEmployee(employeeId)).status()).toBe(404);
+        expect((await payGroupApi.getPayGroup(payGroup.payGroupId)).status()).toBe(404);
+    });
+
+    test('TC-02: Entities deleted by the test are no longer tracked', async ({ employeeApi, cleanupRegistry, testData }) => {
+        const { employeeId } = await employeeApi.createEmployeeTyped(testData.employee().build());
+        expect(cleanupRegistry.tracked).toEqual([{ kind: 'employee', id: employeeId }]);
+
+        await employeeApi.deleteEmployee(employeeId);
+
+        expect(cleanupRegistry.tracked).toEqual([]);
+    });
+
+    test('TC-03: Failed deletions are reported as leftovers', async ({ request }) => {
+        const registry = new CleanupRegistry();
+        const employeeApi = new EmployeeApi(request, testConfig.api.baseUrl, createAuthStrategy(testConfig.api.auth), testConfig.api.retry);
+        registry.track({ kind: 'employee', id: 'E-GONE', remove: () => employeeApi.deleteEmployee('E-GONE') });
+        // A path the API rejects with 405, standing in for a deletion the backend refuses
+        registry.track({ kind: 'payGroup', id: -1, remove: () => employeeApi.delete('/pay-groups') });
+
+        const leftovers = await registry.cleanup();
+
+        // The 404 counts as already cleaned up; the refused deletion is a leftover
+        expect(leftovers.map(l => [l.kind, l.id])).toEqual([['payGroup', -1]]);
+    });
+});
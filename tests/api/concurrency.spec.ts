@@ -0,0 +1,72 @@
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { EmployeeApi } from '../../src/api/employee-api';
+import { PayrollMockServer } from '../../src/mock/payroll-mock-server';
+import {
+    UniqueConstraintError, expectNoDuplicates, findDuplicates, raceRequests
+} from '../../src/utils/concurrency';
+
+const PARALLEL = 8;
+
+test.describe('Concurrency - Unique Constraints Under Parallel Requests', () => {
+    test('TC-01: Only one of N parallel creates with the same employeeId succeeds', async ({ employeeApi, testData }) => {
+        const employeeId = testData.employeeId();
+        const payloads = Array.from({ length: PARALLEL }, () => testData.employee().with({ employeeId }).build());
+
+        const race = await raceRequests('employeeId', PARALLEL, i => employeeApi.createEmployee(payloads[i]));
+
+        const winner = race.expectSingleWinner();
+        expect((await employeeApi.getEmployeeTyped(employeeId)).email).toBe(payloads[winner.index].email);
+        expectNoDuplicates('employeeId', await employeeApi.collectEmployees(), employee => employee.employeeId);
+    });
+
+    test('TC-02: Only one of N parallel creates with the same email (in any case) succeeds', async ({ employeeApi, testData }) => {
+        const email = testData.employee().build().email;
+        const payloads = Array.from({ length: PARALLEL }, (_, i) =>
+            testData.employee().with({ email: i % 2 === 0 ? email : email.toUpperCase() }).build());
+
+        const race = await raceRequests('email', PARALLEL, i => employeeApi.createEmployee(payloads[i]));
+
+        race.expectSingleWinner();
+        const employees = await employeeApi.collectEmployees();
+        expect(employees.filter(employee => employee.email.toLowerCase() === email.toLowerCase())).toHaveLength(1);
+        expectNoDuplicates('email', employees, employee => employee.email.toLowerCase());
+    });
+
+    test('TC-03: Only one of N parallel creates with the same case-insensitive groupName succeeds', async ({ payGroupApi, testData }) => {
+        const groupName = testData.groupName();
+        const variants = [groupName, groupName.toLowerCase(), groupName.toUpperCase()];
+        const payloads = Array.from({ length: PARALLEL }, (_, i) =>
+            testData.payGroup().with({ groupName: variants[i % variants.length] }).build());
+
+        const race = await raceRequests('groupName', PARALLEL, i => payGroupApi.createPayGroups(payloads[i]));
+
+        race.expectSingleWinner();
+        expect(race.statusCounts).toEqual({ '201': 1, '409': PARALLEL - 1 });
+        expectNoDuplicates('groupName', await payGroupApi.getPayGroupsTyped(), payGroup => payGroup.groupName.toLowerCase());
+    });
+
+    test('TC-04: A backend that lets duplicates through is reported', async ({ request, testData }) => {
+        // Injected 201s stand in for a backend without a database-level constraint
+        const server = new PayrollMockServer();
+        await server.start();
+        try {
+            const api = new EmployeeApi(request, server.baseUrl);
+            server.injectFaults('POST', '/employee', [{ status: 201 }, { status: 201 }]);
+            const employee = testData.employee().build();
+
+            const race = await raceRequests('employeeId', 4, () => api.createEmployee(employee));
+
+            expect(race.succeeded).toHaveLength(3);
+            expect(() => race.expectSingleWinner()).toThrow(UniqueConstraintError);
+            expect(() => race.expectSingleWinner())
+                .toThrow('Unique constraint employeeId: expected 1 of 4 parallel requests to succeed and the rest to get 409, got 201 x3, 409 x1');
+        } finally {
+            await server.stop();
+        }
+
+        const rows = [{ id: 'E1' }, { id: 'E2' }, { id: 'E1' }, { id: 'E3' }, { id: 'E1' }];
+        expect(findDuplicates(rows, row => row.id)).toEqual({ E1: 3 });
+        expect(() => expectNoDuplicates('employeeId', rows, row => row.id))
+            .toThrow('Unique constraint employeeId: 1 duplicated value(s): E1 x3');
+    });
+});
@@ -0,0 +1,105 @@
+import fs from 'fs';
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { ConfigValidationError, validateConfig } from '../../src/config/config-schema';
+import { describeEnvironment, readProfile, resolveEnvironment, selectedProjects } from '../../src/config/env-profiles';
+import { REDACTED } from '../../src/utils/redactor';
+
+test.describe('Configuration - Profiles and Validation', () => {
+    test('TC-01: Layers merge as schema defaults < profile < .env < .env.<profile> < environment', async ({}, testInfo) => {
+        const envDir = testInfo.outputPath('env');
+        fs.mkdirSync(envDir, { recursive: true });
+        fs.writeFileSync(`${envDir}/.env`, 'API_TIMEOUT=1000\nDEFAULT_TIMEOUT=1000\nUI_USERNAME=from-dotenv\n');
+        fs.writeFileSync(`${envDir}/.env.qa`, 'API_TIMEOUT=2000\nUI_USERNAME=\n');
+
+        const resolved = resolveEnvironment('qa', envDir, { API_TIMEOUT: '3000', UI_BASE_URL: 'https://qa.example.test' });
+
+        expect(resolved.values.API_TIMEOUT).toBe('3000');
+        expect(resolved.sources.API_TIMEOUT).toBe('environment');
+        expect(resolved.values.DEFAULT_TIMEOUT).toBe('1000');
+        expect(resolved.sources.DEFAULT_TIMEOUT).toBe('.env');
+        // A blank value never hides a lower layer
+        expect(resolved.values.UI_USERNAME).toBe('from-dotenv');
+        expect(resolved.sources.MOCK_API_PORT).toBe('default');
+        // Shared environments get no URL defaults
+        expect(resolved.values.PAYROLL_API_BASE_URL).toBeUndefined();
+
+        const mock = resolveEnvironment('mock', envDir, {});
+        expect(mock.values.PAYROLL_API_MODE).toBe('mock');
+        expect(mock.sources.PAYROLL_API_MODE).toBe('profile mock');
+    });
+
+    test('TC-02: Validation reports every problem at once', async ({}, testInfo) => {
+        const resolved = resolveEnvironment('qa', testInfo.outputPath('none'), {
+            API_TIMEOUT: '2000O',
+            UI_BASE_URL: 'qa.example.test',
+            API_RETRY_STATUSES: '503,x,700',
+            API_AUTH_TYPE: 'basic',
+            API_CASSETTE_MATCH: 'method,headers',
+            API_CONTRACT_SPEC: 'openapi/missing.json'
+        });
+
+        const issues = validateConfig(resolved.values, ['ui', 'api'], resolved.sources);
+
+        expect(issues.map(issue => issue.key)).toEqual([
+            'UI_BASE_URL',
+            'UI_PASSWORD',
+            'PAYROLL_API_BASE_URL',
+            'API_TIMEOUT',
+            'API_AUTH_USERNAME',
+            'API_AUTH_PASSWORD',
+            'API_RETRY_STATUSES',
+            'API_CONTRACT_SPEC',
+            'API_CASSETTE_MATCH'
+        ]);
+        expect(issues[2].message).toBe('is required by the api project when PAYROLL_API_MODE=live');
+        expect(issues[3]).toEqual({ key: 'API_TIMEOUT', message: 'must be an integer, got "2000O"', source: 'environment' });
+        expect(issues[6].message).toBe('must be an integer, got "x"; must be at most 599, got 700');
+        expect(new ConfigValidationError(issues).message).toContain('  - API_CASSETTE_MATCH has unknown entries headers');
+        expect(() => readProfile({ TEST_ENV: 'prod' })).toThrow(ConfigValidationError);
+    });
+
+    test('TC-03: Keys are only required by the projects that run', async ({}, testInfo) => {
+        const resolved = resolveEnvironment('qa', testInfo.outputPath('none'), { TEST_PROJECTS: 'api', PAYROLL_API_BASE_URL: 'http://qa.example.test/api' });
+
+        expect(selectedProjects(resolved)).toEqual(['api']);
+        expect(validateConfig(resolved.values, ['api'])).toEqual([]);
+        expect(validateConfig(resolved.values, ['ui'])).toEqual([
+            { key: 'UI_BASE_URL', message: 'is required by the ui project' },
+            { key: 'UI_PASSWORD', message: 'is required by the ui project' }
+        ]);
+        // The mock server replaces the API base URL
+        expect(validateConfig({ ...resolved.values, PAYROLL_API_BASE_URL: undefined, PAYROLL_API_MODE: 'mock' }, ['api'])).toEqual([]);
+    });
+
+    test('TC-04: The resolved configuration is printed with secrets masked', async ({}, testInfo) => {
+        const resolved = resolveEnvironment('local', testInfo.outputPath('none'), {
+            UI_PASSWORD: 'hunter2-secret',
+            API_AUTH_TYPE: 'bearer',
+            API_AUTH_TOKEN: 'abc123'
+        });
+
+        const lines = describeEnvironment(resolved);
+
+        expect(lines.find(line => line.startsWith('UI_PASSWORD '))).toMatch(/^UI_PASSWORD +\[REDACTED\] +\(environment\)$/);
+        expect(lines.find(line => line.startsWith('API_AUTH_TOKEN '))).toContain(REDACTED);
+        expect(lines.find(line => line.startsWith('UI_BASE_URL '))).toMatch(/ https:\/\/the-internet\.herokuapp\.com +\(profile local\)$/);
+        expect(lines.join('\n')).not.toMatch(/hunter2-secret|abc123/);
+    });
+
+    test('TC-05: Logger settings are layered and validated like every other key', async ({}, testInfo) => {
+        const envDir = testInfo.outputPath('env');
+        fs.mkdirSync(envDir, { recursive: true });
+        fs.writeFileSync(`${envDir}/.env.qa`, 'LOG_LEVEL=bogus\nLOG_SINKS=console,syslog\nLOG_FORMAT=json\n');
+
+        const resolved = resolveEnvironment('qa', envDir, { LOG_RETENTION_RUNS: '-1', LOG_REDACTION: 'maybe' });
+
+        expect(resolved.sources.LOG_FORMAT).toBe('.env.qa');
+        expect(resolved.values.LOG_DIR).toBeUndefined();
+        expect(validateConfig(resolved.values, [], resolved.sources)).toEqual([
+            { key: 'LOG_LEVEL', message: 'must be one of debug, info, warn, error, got "bogus"', source: '.env.qa' },
+            { key: 'LOG_SINKS', message: 'has unknown entries syslog (expected console, file, jsonl)', source: '.env.qa' },
+            { key: 'LOG_RETENTION_RUNS', message: 'must be at least 0, got -1', source: 'environment' },
+            { key: 'LOG_REDACTION', message: 'must be one of on, off, got "maybe"', source: 'environment' }
+        ]);
+    });
+});
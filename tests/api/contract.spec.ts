@@ -0,0 +1,119 @@
+import path from 'path';
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { testConfig } from '../../src/config/test-config';
+import { createAuthStrategy } from '../../src/api/auth';
+import { PayGroupApi } from '../../src/api/pay-group-api';
+import { OpenApiContract } from '../../src/contract/openapi-contract';
+import { ContractRecorder, ContractViolationError } from '../../src/contract/contract-report';
+
+const CONTRACT = OpenApiContract.load(path.resolve(__dirname, '../../openapi/tw-payroll-system.json'));
+const API_PATH = '/tw-payroll-system/api';
+
+test.describe('OpenAPI Contract Conformance', () => {
+    let recorder: ContractRecorder;
+    let payGroupApi: PayGroupApi;
+
+    test.beforeEach(async ({ request, cleanupRegistry }) => {
+        recorder = new ContractRecorder(CONTRACT);
+        payGroupApi = new PayGroupApi(request, testConfig.api.baseUrl, createAuthStrategy(testConfig.api.auth), testConfig.api.retry)
+            .useCleanupRegistry(cleanupRegistry)
+            .useContract(recorder);
+    });
+
+    test('TC-01: Documented calls record no violations', async ({ testData }) => {
+        const payGroup = await payGroupApi.createPayGroupTyped(testData.payGroup().build());
+
+        await payGroupApi.getPayGroupTyped(payGroup.payGroupId);
+        await payGroupApi.getPayGroups({ paymentCycle: 'MONTHLY', sortBy: 'groupName', direction: 'desc', page: 0, size: 5 });
+        expect((await payGroupApi.getPayGroup(999999)).status()).toBe(404);
+        expect((await payGroupApi.deletePayGroup(payGroup.payGroupId)).status()).toBe(204);
+
+        expect(recorder.violations).toEqual([]);
+    });
+
+    test('TC-02: An undocumented status is recorded against its operation', async () => {
+        const response = await payGroupApi.getPayGroups('INVALID');
+
+        expect(response.status()).toBe(500);
+        expect(recorder.violations).toContainEqual(expect.objectContaining({
+            kind: 'undocumented-status',
+            operation: 'GET /pay-groups',
+            status: 500
+        }));
+        // The query parameter is outside the documented enum as well
+        expect(recorder.violations.map(v => v.kind)).toContain('request-parameter');
+    });
+
+    test('TC-03: A strict recorder fails the call on an undocumented status', async ({ request }) => {
+        const strictApi = new PayGroupApi(request, testConfig.api.baseUrl, createAuthStrategy(testConfig.api.auth), testConfig.api.retry)
+            .useContract(new ContractRecorder(CONTRACT, ['undocumented-status']));
+
+        const error = await strictApi.getPayGroups('INVALID').catch(e => e);
+
+        expect(error).toBeInstanceOf(ContractViolationError);
+        expect(error.violations.map((v: { kind: string }) => v.kind)).toEqual(['undocumented-status']);
+    });
+
+    test('TC-04: Response bodies and headers are checked against their schemas', () => {
+        const violations = CONTRACT.validate({
+            method: 'GET',
+            url: `http://localhost${API_PATH}/pay-groups`,
+            status: 200,
+            responseHeaders: { 'x-total-count': 'many' },
+            responseBody: [{ payGroupId: '1', groupName: 'Ops', paymentCycle: 'YEARLY', baseTaxRate: 10, benefitRate: 5, deductionRate: 2 }]
+        });
+
+        expect(violations.map(v => [v.kind, v.message])).toEqual([
+            ['response-header', 'header.X-Total-Count: expected integer, got string'],
+            ['response-body', '$[0].createdAt: is required'],
+            ['response-body', '$[0].payGroupId: expected integer, got string'],
+            ['response-body', '$[0].paymentCycle: "YEARLY" is not one of "WEEKLY", "BIWEEKLY", "MONTHLY"']
+        ]);
+    });
+
+    test('TC-05: Request bodies are checked against their schemas', () => {
+        const violations = CONTRACT.validate({
+            method: 'POST',
+            url: `http://localhost${API_PATH}/payroll-runs`,
+            requestBody: { payGroupId: 1, periodStart: '2026-02-30' },
+            status: 400,
+            responseHeaders: { 'content-type': 'application/json' },
+            responseBody: { status: 400, message: 'Validation failed' }
+        });
+
+        expect(violations.map(v => v.kind)).toEqual(['request-body', 'request-body']);
+        expect(violations.map(v => v.message)).toEqual([
+            '$request.periodEnd: is required',
+            '$request.periodStart: "2026-02-30" is not a valid date'
+        ]);
+    });
+
+    test('TC-06: Undocumented paths and methods are reported', () => {
+        const exchange = { status: 404, responseHeaders: {} };
+
+        const unknownPath = CONTRACT.validate({ ...exchange, method: 'GET', url: `http://localhost${API_PATH}/departments` });
+        const unknownMethod = CONTRACT.validate({ ...exchange, method: 'DELETE', url: `http://localhost${API_PATH}/pay-groups` });
+        const outsideServer = CONTRACT.validate({ ...exchange, method: 'GET', url: 'http://localhost/pay-groups' });
+
+        expect(unknownPath.map(v => v.kind)).toEqual(['undocumented-path']);
+        expect(unknownMethod.map(v => v.kind)).toEqual(['undocumented-method']);
+        expect(outsideServer.map(v => v.kind)).toEqual(['undocumented-path']);
+    });
+
+    test('TC-07: Request bodies are checked as sent, after JSON serialisation', async ({ request, testData }) => {
+        const strictApi = new PayGroupApi(request, testConfig.api.baseUrl, createAuthStrategy(testConfig.api.auth), testConfig.api.retry)
+            .useContract(new ContractRecorder(CONTRACT, ['request-body']));
+        const payGroup = await payGroupApi.createPayGroupTyped(testData.payGroup().build());
+
+        // JSON drops keys holding undefined, so the backend never sees benefitRate
+        const response = await strictApi.updatePayGroups(payGroup.payGroupId, { benefitRate: undefined, deductionRate: 5 });
+        expect(response.status()).toBe(200);
+
+        // NaN goes over the wire as null
+        await payGroupApi.updatePayGroups(payGroup.payGroupId, { baseTaxRate: NaN });
+        expect(recorder.violations).toContainEqual(expect.objectContaining({
+            kind: 'request-body',
+            message: expect.stringContaining('$request.baseTaxRate: expected number, got null')
+        }));
+    });
+});
@@ -0,0 +1,132 @@
+import path from 'path';
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { TestDataFactory } from '../../src/data/test-data-factory';
+import { CsvParseError, formatCsv, parseCsv } from '../../src/utils/csv';
+import {
+    EmployeeImportError, EmployeeImportRow, formatImportReport, importEmployees, parseEmployeeCsv, parseEmployeeJson, readEmployeeFile
+} from '../../src/bulk/employee-import';
+import { EMPLOYEE_CSV_COLUMNS, employeesToCsv, exportEmployeesToFile } from '../../src/bulk/employee-export';
+
+const BULK_DIR = path.resolve(__dirname, 'bulk');
+
+/**
+ * Give the fixture rows fresh employeeIds and emails so every run creates new employees.
+ * Rows sharing an employeeId or email (in any case) still share it afterwards.
+ */
+function withUniqueIds(rows: EmployeeImportRow[], testData: TestDataFactory): EmployeeImportRow[] {
+    const ids = new Map<unknown, string>();
+    const prefixes = new Map<string, string>();
+    return rows.map(({ row, data }) => {
+        if (!ids.has(data.employeeId)) ids.set(data.employeeId, testData.employeeId());
+        const email = String(data.email);
+        if (!prefixes.has(email.toLowerCase())) prefixes.set(email.toLowerCase(), testData.employeeId().toLowerCase());
+        return { row, data: { ...data, employeeId: ids.get(data.employeeId), email: `${prefixes.get(email.toLowerCase())}.${email}` } };
+    });
+}
+
+test.describe('Employee API - Bulk Import and Export', () => {
+    test('TC-01: CSV and JSON files are read into the same rows', async () => {
+        const fromCsv = readEmployeeFile(path.join(BULK_DIR, 'employees.csv'));
+        const fromJson = readEmployeeFile(path.join(BULK_DIR, 'employees.json'));
+
+        expect(fromCsv).toEqual(fromJson);
+        expect(fromCsv[0].data).toMatchObject({ designation: 'Engineer, Senior', payGroupId: 1, annualSalary: 98000 });
+        expect(fromCsv[1].data.designation).toBe('Rear Admiral "Amazing Grace"');
+        expect(fromCsv[2].data).not.toHaveProperty('annualSalary');
+
+        const tricky = [['a,b', 'say "hi"', 'two\nlines', ''], ['plain', '', 'x', 'é']];
+        expect(parseCsv(formatCsv(tricky)).map(row => row.fields)).toEqual(tricky);
+        expect(() => parseCsv('a,"b\nc')).toThrow(CsvParseError);
+    });
+
+    test('TC-02: Every valid row is created with bounded concurrency', async ({ employeeApi, payGroupApi, testData }) => {
+        const rows = withUniqueIds(readEmployeeFile(path.join(BULK_DIR, 'employees.csv')), testData);
+
+        const report = await importEmployees(employeeApi, payGroupApi, rows, { concurrency: 2 });
+
+        expect(report.counts).toEqual({ created: 4, conflict: 0, invalid: 0, failed: 0 });
+        expect(report.rows.map(result => [result.row, result.outcome, result.status])).toEqual([
+            [1, 'created', 201], [2, 'created', 201], [3, 'created', 201], [4, 'created', 201]
+        ]);
+        for (const { data } of rows) {
+            expect(await employeeApi.getEmployeeTyped(String(data.employeeId))).toMatchObject(data);
+        }
+    });
+
+    test('TC-03: Invalid rows and duplicates within the file are reported and not sent', async ({ employeeApi, payGroupApi, testData }) => {
+        const rows = withUniqueIds(readEmployeeFile(path.join(BULK_DIR, 'invalid-employees.csv')), testData);
+
+        const report = await importEmployees(employeeApi, payGroupApi, rows);
+
+        expect(report.rows.map(result => result.outcome)).toEqual([
+            'created', 'invalid', 'invalid', 'invalid', 'invalid', 'invalid', 'invalid', 'conflict', 'conflict'
+        ]);
+        expect(report.rows.filter(result => result.outcome !== 'created').every(result => result.status === undefined)).toBe(true);
+        const errors = report.rows.map(result => result.errors.join('; '));
+        expect(errors[1]).toContain('email: invalid address');
+        expect(errors[2]).toContain('joiningDate: expected a valid YYYY-MM-DD date, got "2023-02-29"');
+        expect(errors[3]).toBe('payGroupId: pay group 999 does not exist');
+        expect(errors[4]).toContain('payGroupId: expected integer, got string');
+        expect(errors[5]).toBe('annualSalary: must not be negative, got -1');
+        expect(errors[6]).toContain('firstName: missing');
+        expect(errors[7]).toMatch(/^employeeId \S+ duplicates row 1$/);
+        expect(errors[8]).toMatch(/^email \S+ duplicates row 1$/);
+
+        const created = new Set((await employeeApi.collectEmployees()).map(employee => employee.employeeId));
+        expect(rows.filter(({ data }) => created.has(String(data.employeeId))).map(({ row }) => row)).toEqual([1, 8]);
+        expect(formatImportReport(report)[0]).toBe('9 row(s): 1 created, 2 conflict, 6 invalid, 0 failed');
+    });
+
+    test('TC-04: Rows the API rejects keep its status and message', async ({ employeeApi, payGroupApi, testData }) => {
+        const rows = withUniqueIds(parseEmployeeJson(JSON.stringify([testData.employee().build(), testData.employee().build()])), testData);
+        await importEmployees(employeeApi, payGroupApi, rows.slice(0, 1));
+
+        const report = await importEmployees(employeeApi, payGroupApi, rows);
+
+        expect(report.rows.map(result => [result.outcome, result.status])).toEqual([['conflict', 409], ['created', 201]]);
+        expect(report.rows[0].errors[0].toLowerCase()).toContain('conflict');
+    });
+
+    test('TC-05: An export can be imported again and round-trips the data', async ({ employeeApi, payGroupApi, testData }, testInfo) => {
+        const rows = withUniqueIds(readEmployeeFile(path.join(BULK_DIR, 'employees.json')), testData);
+        await importEmployees(employeeApi, payGroupApi, rows);
+        const file = testInfo.outputPath('employees.csv');
+
+        await exportEmployeesToFile(employeeApi, file);
+
+        const exported = readEmployeeFile(file);
+        const ids = rows.map(({ data }) => data.employeeId);
+        const ours = exported.filter(({ data }) => ids.includes(data.employeeId)).map(({ data }) => data);
+        const byId = (a: Record<string, unknown>, b: Record<string, unknown>) => String(a.employeeId).localeCompare(String(b.employeeId));
+        // The API may fill in fields left out of the file, such as annualSalary
+        expect(ours).toMatchObject(rows.map(({ data }) => data).sort(byId));
+
+        const again = await importEmployees(employeeApi, payGroupApi, exported.filter(({ data }) => ids.includes(data.employeeId)));
+        expect(again.counts).toEqual({ created: 0, conflict: 4, invalid: 0, failed: 0 });
+    });
+
+    test('TC-06: Exports have a stable column order and row order', async ({ employeeApi, testData }) => {
+        await employeeApi.createEmployeeTyped(testData.employee().build());
+        await employeeApi.createEmployeeTyped(testData.employee().build());
+        const employees = await employeeApi.collectEmployees();
+
+        const csv = employeesToCsv(employees);
+
+        expect(csv).toBe(employeesToCsv([...employees].reverse()));
+        const lines = parseCsv(csv);
+        expect(lines[0].fields).toEqual([
+            'employeeId', 'firstName', 'lastName', 'email', 'department', 'designation',
+            'payGroupId', 'joiningDate', 'annualSalary', 'status', 'createdAt', 'updatedAt'
+        ]);
+        expect(EMPLOYEE_CSV_COLUMNS).toEqual(lines[0].fields);
+        const exportedIds = lines.slice(1).map(line => line.fields[0]);
+        expect(exportedIds).toEqual([...exportedIds].sort());
+    });
+
+    test('TC-07: Files that cannot be read as a whole are rejected', async () => {
+        expect(() => parseEmployeeCsv('employeeId,nickname\nE1,Al\n')).toThrow('Unknown CSV column(s): nickname');
+        expect(() => parseEmployeeCsv('employeeId,firstName\nE1\n')).toThrow('CSV line 2: expected 2 fields, got 1');
+        expect(() => parseEmployeeJson('{"employeeId": "E1"}')).toThrow('JSON import file must contain an array of employees');
+        expect(() => readEmployeeFile('employees.xlsx')).toThrow(EmployeeImportError);
+    });
+});
@@ -0,0 +1,92 @@
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { EmployeeApi, Employee } from '../../src/api/employee-api';
+import { TestDataFactory } from '../../src/data/test-data-factory';
+import { checkProperty } from '../../src/data/property';
+import {
+    EMPLOYEE_LIFECYCLE, INITIAL_STATUS, LIFECYCLE_ACTIONS, LifecycleAction, coveringWalks, lifecycleWalks, predictWalk
+} from '../../src/data/employee-lifecycle';
+
+/**
+ * Send a walk to a new employee and compare every response with the model: allowed actions
+ * return 200 with the predicted status and a later updatedAt; forbidden ones return 409 and
+ * leave the stored employee untouched.
+ */
+async function checkWalk(employeeApi: EmployeeApi, testData: TestDataFactory, walk: LifecycleAction[]): Promise<void> {
+    let previous: Employee = await employeeApi.createEmployeeTyped(testData.employee().build());
+    expect(previous.status).toBe(INITIAL_STATUS);
+
+    for (const [i, step] of predictWalk(walk).entries()) {
+        const label = `step ${i + 1}: ${step.action} from ${step.from}`;
+        if (step.to) {
+            // Keep timestamps of consecutive updates apart
+            await new Promise(resolve => setTimeout(resolve, 5));
+        }
+
+        const response = await employeeApi.transition(previous.employeeId, step.action);
+        const current = await employeeApi.getEmployeeTyped(previous.employeeId);
+
+        if (step.to) {
+            expect(response.status(), `${label} is allowed`).toBe(200);
+            expect((await response.json()).status, label).toBe(step.to);
+            expect(current.status, label).toBe(step.to);
+            expect(Date.parse(current.updatedAt), `${label} moves updatedAt forward`).toBeGreaterThan(Date.parse(previous.updatedAt));
+        } else {
+            expect(response.status(), `${label} is forbidden`).toBe(409);
+            expect(current, `${label} leaves the employee unchanged`).toEqual(previous);
+        }
+        previous = current;
+    }
+}
+
+test.describe('Employee API - Lifecycle Transitions', () => {
+    test('TC-01: An employee goes on leave, is reactivated and is terminated', async ({ employeeApi, testData }) => {
+        const employee = await employeeApi.createEmployeeTyped(testData.employee().build());
+
+        expect((await (await employeeApi.leave(employee.employeeId)).json()).status).toBe('ON_LEAVE');
+        expect((await (await employeeApi.reactivate(employee.employeeId)).json()).status).toBe('ACTIVE');
+        expect((await (await employeeApi.terminate(employee.employeeId)).json()).status).toBe('TERMINATED');
+
+        const response = await employeeApi.reactivate(employee.employeeId);
+        expect(response.status()).toBe(409);
+        expect(JSON.stringify(await response.json()).toLowerCase()).toContain('conflict');
+    });
+
+    test('TC-02: A PUT that changes the status follows the same transitions', async ({ employeeApi, testData }) => {
+        const employee = await employeeApi.createEmployeeTyped(testData.employee().build());
+
+        expect((await employeeApi.updateStatus(employee.employeeId, 'ACTIVE')).status(), 'keeping the status').toBe(200);
+        expect((await employeeApi.updateStatus(employee.employeeId, 'BOGUS' as never)).status(), 'unknown status').toBe(400);
+        expect((await employeeApi.updateStatus(employee.employeeId, 'TERMINATED')).status()).toBe(200);
+        expect((await employeeApi.updateStatus(employee.employeeId, 'ON_LEAVE')).status(), 'leaving TERMINATED').toBe(409);
+        expect((await employeeApi.getEmployeeTyped(employee.employeeId)).status).toBe('TERMINATED');
+    });
+
+    test('TC-03: Every action on an unknown employee returns 404', async ({ employeeApi, testData }) => {
+        const employeeId = testData.employeeId();
+
+        for (const action of LIFECYCLE_ACTIONS) {
+            expect((await employeeApi.transition(employeeId, action)).status(), action).toBe(404);
+        }
+    });
+
+    test('TC-04: Random walks match the lifecycle model', async ({ employeeApi, testData }) => {
+        await checkProperty(lifecycleWalks(), walk => checkWalk(employeeApi, testData, walk), { seed: testData.seed, runs: 15 });
+    });
+
+    test('TC-05: The covering walks try every action in every status', async () => {
+        const tried = coveringWalks().flatMap(walk => predictWalk(walk).map(step => `${step.from}:${step.action}`));
+
+        const expected = Object.keys(EMPLOYEE_LIFECYCLE).flatMap(status => LIFECYCLE_ACTIONS.map(action => `${status}:${action}`));
+        expect(new Set(tried)).toEqual(new Set(expected));
+        expect(lifecycleWalks().shrink(['leave', 'terminate'])).toEqual([['terminate'], ['leave']]);
+    });
+});
+
+// One test per generated walk, so a failure names the walk that broke
+test.describe('Employee API - Lifecycle Model Walks', () => {
+    for (const [i, walk] of coveringWalks().entries()) {
+        test(`TC-${String(i + 1).padStart(2, '0')}: ${walk.join(' > ')}`, async ({ employeeApi, testData }) => {
+            await checkWalk(employeeApi, testData, walk);
+        });
+    }
+});
@@ -1,36 +1,24 @@
-import { test, expect } from '@playwright/test';
-import { testConfig } from '../../src/config/test-config';
-import { EmployeeApi, CreateEmployeeRequest, Employee } from '../../src/api/employee-api';
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { EmployeeApi, CreateEmployeeRequest, Employee, EmployeeQuery, EmployeeSchema } from '../../src/api/employee-api';
+import { ApiError, ErrorBodySchema } from '../../src/api/base-api';
+import { SchemaValidationError, validate } from '../../src/utils/schema-validator';
+import { PayrollMockServer } from '../../src/mock/payroll-mock-server';
+import { TestDataFactory } from '../../src/data/test-data-factory';
 
 let employeeApi: EmployeeApi;
+let testData: TestDataFactory;
 
-test.beforeEach(async ({ request }) => {
-    employeeApi = new EmployeeApi(request, testConfig.api.baseUrl);
+// Employees created through the fixture are deleted after each test;
+// test data is seeded per test and reproducible via TEST_DATA_SEED
+test.beforeEach(async ({ employeeApi: api, testData: factory }) => {
+    employeeApi = api;
+    testData = factory;
 });
 
 test.describe('Employee API - Create Employee', () => {
-    // Helper function to generate unique test data
-    const generateUniqueEmployee = (suffix: string): CreateEmployeeRequest => {
-        // Get today's date in YYYY-MM-DD format
-        const today = new Date().toISOString().split('T')[0];
-        // Generate a short unique ID (e.g., E12345) instead of long timestamp
-        const uniqueId = `E${Math.floor(Math.random() * 90000) + 10000}`;
-        
-        return {
-            employeeId: uniqueId,
-            firstName: 'John',
-            lastName: 'Doe',
-            department: 'Engineering',
-            designation: 'Software Engineer',
-            email: `test.${uniqueId.toLowerCase()}.${Date.now()}@example.com`,
-            payGroupId: 1,
-            joiningDate: today
-        };
-    };
-
     test('TC-01: Create an employee and validate successful creation', async () => {
         // Arrange: Prepare employee data
-        const employeeData = generateUniqueEmployee('tc01');
+        const employeeData = testData.employee().build();
 
         // Act: Create employee
         const response = await employeeApi.createEmployee(employeeData);
@@ -59,38 +47,23 @@ test.describe('Employee API - Create Employee', () => {
         expect(createdEmployee.updatedAt).toBeDefined();
 
         // Validate field types
-        expect(typeof createdEmployee.employeeId).toBe('string');
-        expect(typeof createdEmployee.firstName).toBe('string');
-        expect(typeof createdEmployee.lastName).toBe('string');
-        expect(typeof createdEmployee.department).toBe('string');
-        expect(typeof createdEmployee.designation).toBe('string');
-        expect(typeof createdEmployee.email).toBe('string');
-        expect(typeof createdEmployee.payGroupId).toBe('number');
-        expect(typeof createdEmployee.status).toBe('string');
-        expect(typeof createdEmployee.joiningDate).toBe('string');
-        expect(typeof createdEmployee.createdAt).toBe('string');
-        expect(typeof createdEmployee.updatedAt).toBe('string');
+        expect(validate(EmployeeSchema, createdEmployee)).toEqual([]);
 
         // Optional: Verify employee can be retrieved
-        const getResponse = await employeeApi.getEmployee(employeeData.employeeId);
-        expect(getResponse.status()).toBe(200);
-        const retrievedEmployee: Employee = await getResponse.json();
+        const retrievedEmployee: Employee = await employeeApi.getEmployeeTyped(employeeData.employeeId);
         expect(retrievedEmployee.employeeId).toBe(employeeData.employeeId);
     });
 
     test('TC-02: Try to create employee with same employee ID - expect 409 conflict', async () => {
         // Arrange: Create an employee first
-        const employeeData = generateUniqueEmployee('tc02');
+        const employeeData = testData.employee().build();
         const firstResponse = await employeeApi.createEmployee(employeeData);
         expect(firstResponse.status()).toBe(201);
 
         // Act: Try to create another employee with the same employeeId
-        const duplicateEmployee = {
-            ...employeeData,
-            firstName: 'Jane',  // Different first name
-            lastName: 'Smith',  // Different last name
-            email: `jane.smith.${Date.now()}@example.com`  // Different email
-        };
+        const duplicateEmployee = testData.employee()
+            .with({ employeeId: employeeData.employeeId })  // Same employee ID, different name and email
+            .build();
         const duplicateResponse = await employeeApi.createEmployee(duplicateEmployee);
 
         // Assert: Verify 409 Conflict response
@@ -112,23 +85,14 @@ test.describe('Employee API - Create Employee', () => {
 
     test('TC-03: Try to create employee with email associated with another employee - expect 409 conflict', async () => {
         // Arrange: Create an employee first
-        const employeeData = generateUniqueEmployee('tc03');
+        const employeeData = testData.employee().build();
         const firstResponse = await employeeApi.createEmployee(employeeData);
         expect(firstResponse.status()).toBe(201);
 
         // Act: Try to create another employee with different employeeId but same email
-        const today = new Date().toISOString().split('T')[0];
-        const uniqueId = `E${Math.floor(Math.random() * 90000) + 10000}`;
-        const duplicateEmailEmployee: CreateEmployeeRequest = {
-            employeeId: uniqueId,  // Different employee ID
-            firstName: 'Jane',
-            lastName: 'Smith',
-            department: 'Marketing',
-            designation: 'Marketing Manager',
-            email: employeeData.email,  // Same email as first employee
-            payGroupId: 1,
-            joiningDate: today
-        };
+        const duplicateEmailEmployee: CreateEmployeeRequest = testData.employee()
+            .with({ email: employeeData.email })  // Same email as first employee
+            .build();
         const duplicateResponse = await employeeApi.createEmployee(duplicateEmailEmployee);
 
         // Assert: Verify 409 Conflict response
@@ -150,18 +114,7 @@ test.describe('Employee API - Create Employee', () => {
 
     test('TC-04: Create employee with missing payGroupId - expect 400 validation error', async () => {
         // Arrange: Create employee data without payGroupId
-        const today = new Date().toISOString().split('T')[0];
-        const uniqueId = `E${Math.floor(Math.random() * 90000) + 10000}`;
-        const invalidEmployeeData: any = {
-            employeeId: uniqueId,
-            firstName: 'John',
-            lastName: 'Doe',
-            department: 'Engineering',
-            designation: 'Software Engineer',
-            email: `test.${uniqueId.toLowerCase()}.${Date.now()}@example.com`,
-            // payGroupId is intentionally missing
-            joiningDate: today
-        };
+        const invalidEmployeeData = testData.employee().invalid('missingPayGroupId').build();
 
         // Act: Try to create employee without payGroupId
         const response = await employeeApi.createEmployee(invalidEmployeeData);
@@ -186,26 +139,9 @@ test.describe('Employee API - Create Employee', () => {
 });
 
 test.describe('Employee API - Update Employee', () => {
-    // Helper function to generate unique test data
-    const generateUniqueEmployee = (suffix: string): CreateEmployeeRequest => {
-        const today = new Date().toISOString().split('T')[0];
-        const uniqueId = `E${Math.floor(Math.random() * 90000) + 10000}`;
-        
-        return {
-            employeeId: uniqueId,
-            firstName: 'John',
-            lastName: 'Doe',
-            department: 'Engineering',
-            designation: 'Software Engineer',
-            email: `test.${uniqueId.toLowerCase()}.${Date.now()}@example.com`,
-            payGroupId: 1,
-            joiningDate: today
-        };
-    };
-
     test('TC-01: Update an employee and validate successful update with updatedAt change', async () => {
         // Arrange: Create an employee first
-        const employeeData = generateUniqueEmployee('update-tc01');
+        const employeeData = testData.employee().build();
         const createResponse = await employeeApi.createEmployee(employeeData);
         expect(createResponse.status()).toBe(201);
         
@@ -221,7 +157,7 @@ test.describe('Employee API - Update Employee', () => {
             lastName: 'Smith',
             department: 'Marketing',
             designation: 'Marketing Manager',
-            email: `updated.${createdEmployee.employeeId.toLowerCase()}.${Date.now()}@example.com`,
+            email: `updated.${createdEmployee.email}`,
             payGroupId: 2,
             joiningDate: createdEmployee.joiningDate,
             status: 'ACTIVE'
@@ -268,14 +204,14 @@ test.describe('Employee API - Update Employee', () => {
 
     test('TC-02: API returns 404 if employee does not exist', async () => {
         // Arrange: Generate a non-existent employee ID
-        const nonExistentEmployeeId = `E99999`;
+        const nonExistentEmployeeId = testData.employeeId();
         
         const updateData = {
             firstName: 'Jane',
             lastName: 'Smith',
             department: 'Marketing',
             designation: 'Marketing Manager',
-            email: `test.nonexistent.${Date.now()}@example.com`
+            email: `nonexistent.${nonExistentEmployeeId.toLowerCase()}@example.com`
         };
 
         // Act: Try to update a non-existent employee
@@ -286,7 +222,7 @@ test.describe('Employee API - Update Employee', () => {
         
         // Assert: Verify error response
         const errorBody = await response.json();
-        expect(errorBody).toBeDefined();
+        expect(validate(ErrorBodySchema, errorBody)).toEqual([]);
         
         // Check for error message patterns
         const bodyString = JSON.stringify(errorBody).toLowerCase();
@@ -299,8 +235,8 @@ test.describe('Employee API - Update Employee', () => {
 
     test('TC-03: API prevents editing to an email already used by another employee', async () => {
         // Arrange: Create two employees
-        const employee1Data = generateUniqueEmployee('update-tc03-emp1');
-        const employee2Data = generateUniqueEmployee('update-tc03-emp2');
+        const employee1Data = testData.employee().build();
+        const employee2Data = testData.employee().build();
         
         const createResponse1 = await employeeApi.createEmployee(employee1Data);
         expect(createResponse1.status()).toBe(201);
@@ -346,3 +282,167 @@ test.describe('Employee API - Update Employee', () => {
     });
 });
 
+
+//-------------------------------------------------------- Typed Responses-------------------------------------------------------------------//
+
+test.describe('Employee API - Typed Response Errors', () => {
+    test('TC-01: A malformed body lists every missing or wrongly typed field', async ({ request }) => {
+        // The real backend never sends this; the mock serves it as an injected 200
+        const server = new PayrollMockServer();
+        await server.start();
+        try {
+            const api = new EmployeeApi(request, server.baseUrl);
+            const employee = testData.employee().build();
+            const { firstName, ...withoutFirstName } = employee;
+            server.injectFaults('GET', `/employee/${employee.employeeId}`, [{
+                status: 200,
+                body: { ...withoutFirstName, payGroupId: 'one', status: 'RETIRED', createdAt: null }
+            }]);
+
+            const error = await api.getEmployeeTyped(employee.employeeId).catch(e => e);
+
+            expect(error).toBeInstanceOf(SchemaValidationError);
+            expect(error.schemaName).toBe('Employee');
+            expect(error.issues).toEqual([
+                'Employee.firstName: missing (expected string)',
+                'Employee.payGroupId: expected integer, got string',
+                'Employee.status: expected one of ACTIVE, ON_LEAVE, TERMINATED, got "RETIRED"',
+                'Employee.createdAt: expected string, got null',
+                'Employee.updatedAt: missing (expected string)'
+            ]);
+            expect(error.message).toContain('Employee failed schema validation:\n  - Employee.firstName: missing');
+        } finally {
+            await server.stop();
+        }
+    });
+
+    test('TC-02: A 4xx status throws ApiError with the status and error body', async () => {
+        const employeeId = testData.employeeId();
+
+        const error = await employeeApi.getEmployeeTyped(employeeId).catch(e => e);
+
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error.status).toBe(404);
+        expect(error.url).toContain(`/employee/${employeeId}`);
+        expect(validate(ErrorBodySchema, error.body)).toEqual([]);
+        expect(error.message).toMatch(new RegExp(`^Request to \\S+/employee/${employeeId} failed with status 404: \\{`));
+    });
+});
+
+//-------------------------------------------------------- List Options-------------------------------------------------------------------//
+
+test.describe('Employee API - Filtering, Sorting and Pagination', () => {
+    /**
+     * Create employees in a department of their own, so other tests running in parallel do not
+     * show up in the results
+     */
+    async function createInNewDepartment(joiningDates: string[]): Promise<{ department: string; employees: Employee[] }> {
+        const department = `DEPT-${testData.random.string(8)}`;
+        const employees: Employee[] = [];
+        for (const [i, joiningDate] of joiningDates.entries()) {
+            employees.push(await employeeApi.createEmployeeTyped(
+                testData.employee().with({ department, joiningDate }).inPayGroup(i % 2 === 0 ? 1 : 2).build()));
+        }
+        return { department, employees };
+    }
+
+    test('TC-01: Filter by department, status, payGroupId and joining-date range', async () => {
+        const { department, employees } = await createInNewDepartment(['2023-01-10', '2023-06-01', '2024-01-10', '2024-06-01', '2025-01-10']);
+        await employeeApi.leave(employees[2].employeeId);
+        const ids = async (query: EmployeeQuery) =>
+            (await employeeApi.getAllEmployeesTyped({ department, sortBy: 'employeeId', ...query })).map(employee => employee.employeeId);
+        const sortedIds = (list: Employee[]) => list.map(employee => employee.employeeId).sort((a, b) => a.localeCompare(b));
+
+        expect(await ids({})).toEqual(sortedIds(employees));
+        expect(await ids({ department: department.toLowerCase() }), 'department is case-insensitive').toEqual(sortedIds(employees));
+        expect(await ids({ status: 'ON_LEAVE' })).toEqual([employees[2].employeeId]);
+        expect(await ids({ payGroupId: 2 })).toEqual(sortedIds([employees[1], employees[3]]));
+        expect(await ids({ joiningDateFrom: '2023-06-01', joiningDateTo: '2024-06-01' }), 'range is inclusive')
+            .toEqual(sortedIds(employees.slice(1, 4)));
+        expect(await ids({ payGroupId: 1, status: 'ACTIVE', joiningDateFrom: '2024-01-01' })).toEqual([employees[4].employeeId]);
+    });
+
+    test('TC-02: Sort by joiningDate descending and page through results', async () => {
+        const { department, employees } = await createInNewDepartment(['2024-03-01', '2024-01-01', '2024-05-01', '2024-02-01', '2024-04-01']);
+        const byDateDesc = [...employees].sort((a, b) => b.joiningDate.localeCompare(a.joiningDate)).map(employee => employee.employeeId);
+        const page = (page: number) => employeeApi.getAllEmployees({ department, sortBy: 'joiningDate', direction: 'desc', page, size: 2 });
+
+        const pages = [await page(0), await page(1), await page(2), await page(3)];
+
+        const bodies: Employee[][] = await Promise.all(pages.map(response => response.json()));
+        expect(bodies.map(body => body.map(employee => employee.employeeId)))
+            .toEqual([byDateDesc.slice(0, 2), byDateDesc.slice(2, 4), byDateDesc.slice(4), []]);
+        pages.forEach(response => expect(response.headers()['x-total-count'], 'count before paging').toBe('5'));
+    });
+
+    test('TC-03: iterateEmployees walks every page and stops at the last one', async () => {
+        const { department, employees } = await createInNewDepartment(['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04']);
+        const requested: (number | undefined)[] = [];
+        const getAllEmployees = employeeApi.getAllEmployees.bind(employeeApi);
+        employeeApi.getAllEmployees = async (query?: EmployeeQuery) => {
+            requested.push(query?.page);
+            return await getAllEmployees(query);
+        };
+        const walk = async (pageSize: number, query: EmployeeQuery = {}) => {
+            requested.length = 0;
+            const ids: string[] = [];
+            for await (const employee of employeeApi.iterateEmployees({ department, ...query }, pageSize)) {
+                ids.push(employee.employeeId);
+            }
+            return ids;
+        };
+        const sortedIds = employees.map(employee => employee.employeeId).sort((a, b) => a.localeCompare(b));
+
+        expect(await walk(2), 'page size dividing the total').toEqual(sortedIds);
+        expect(requested).toEqual([0, 1]);
+        expect(await walk(3), 'short last page').toEqual(sortedIds);
+        expect(requested).toEqual([0, 1]);
+        expect(await walk(1)).toEqual(sortedIds);
+        expect(requested).toEqual([0, 1, 2, 3]);
+        expect(await walk(10, { sortBy: 'joiningDate', direction: 'desc' }), 'explicit sort is kept')
+            .toEqual(employees.map(employee => employee.employeeId).reverse());
+        expect(await walk(2, { status: 'TERMINATED' }), 'no matches').toEqual([]);
+        expect(requested).toEqual([0]);
+    });
+
+    test('TC-04: Invalid list options return 400', async () => {
+        for (const query of [
+            { status: 'RETIRED' },
+            { joiningDateFrom: '2024-02-30' },
+            { sortBy: 'salary' as keyof Employee },
+            { page: -1, size: 10 },
+            { page: 0, size: 0 }
+        ]) {
+            const response = await employeeApi.getAllEmployees(query);
+            expect(response.status(), JSON.stringify(query)).toBe(400);
+            expect(validate(ErrorBodySchema, await response.json())).toEqual([]);
+        }
+    });
+
+    test('TC-05: iterateEmployees fails instead of looping when the backend ignores paging', async ({ request }) => {
+        // A backend without paging answers every page with the whole list and no X-Total-Count
+        const server = new PayrollMockServer();
+        await server.start();
+        try {
+            const api = new EmployeeApi(request, server.baseUrl);
+            const everyone = await Promise.all([1, 2, 3, 4].map(() => api.createEmployeeTyped(testData.employee().build())));
+            const unpaged = (count: number) => Array.from({ length: count }, () => ({ status: 200, body: everyone }));
+            const walk = async (pageSize: number, ids: string[] = []) => {
+                for await (const employee of api.iterateEmployees({}, pageSize)) ids.push(employee.employeeId);
+                return ids;
+            };
+
+            server.injectFaults('GET', '/employee', unpaged(2));
+            const ids: string[] = [];
+            await expect(walk(4, ids)).rejects
+                .toThrow(`Employee list ignores paging: page 1 starts with ${everyone[0].employeeId} again, like page 0`);
+            expect(ids, 'the full page is read once').toEqual(everyone.map(employee => employee.employeeId));
+
+            server.injectFaults('GET', '/employee', unpaged(1));
+            await expect(walk(3)).rejects.toThrow('Employee list ignores paging: page 0 has 4 employees, more than the requested 3');
+            expect(server.pendingFaultCount).toBe(0);
+        } finally {
+            await server.stop();
+        }
+    });
+});
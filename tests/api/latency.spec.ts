@@ -0,0 +1,71 @@
+import path from 'path';
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { OpenApiContract } from '../../src/contract/openapi-contract';
+import { EndpointTemplates, LatencyBudgetError, LatencyRecorder, latencyStats, percentile } from '../../src/perf/latency';
+import { LatencyReport, compareLatencyReports } from '../../src/perf/latency-report';
+
+const TEMPLATES = new EndpointTemplates(OpenApiContract.load(path.resolve(__dirname, '../../openapi/tw-payroll-system.json')));
+
+test.describe('API Performance - Latency Budgets', () => {
+    test('TC-01: Percentiles use the nearest rank', async () => {
+        const durations = [120, 15, 30, 45, 60, 75, 90, 105, 10, 20];
+
+        expect(percentile(durations, 50)).toBe(45);
+        expect(percentile(durations, 95)).toBe(120);
+        expect(latencyStats(durations)).toEqual({ count: 10, p50: 45, p95: 120, max: 120, mean: 57 });
+    });
+
+    test('TC-02: Samples are grouped by the documented path template', async () => {
+        expect(TEMPLATES.endpoint('get', '/employee/E4K9ZQ2')).toBe('GET /employee/{employeeId}');
+        expect(TEMPLATES.endpoint('delete', '/pay-groups/42')).toBe('DELETE /pay-groups/{id}');
+        expect(new EndpointTemplates().endpoint('put', '/reports/2024/07')).toBe('PUT /reports/{id}/{id}');
+    });
+
+    test('TC-03: Requests made through the fixtures are timed and held to the declared budget', async ({ payGroupApi, latency }) => {
+        latency.expectLatency('GET /pay-groups', { p95: 5000 });
+
+        expect((await payGroupApi.getPayGroups()).status()).toBe(200);
+        expect((await payGroupApi.getPayGroups({ page: 0, size: 5 })).status()).toBe(200);
+
+        expect(latency.stats('GET /pay-groups')).toEqual(expect.objectContaining({ count: 2 }));
+        expect(() => latency.checkBudgets()).not.toThrow();
+    });
+
+    test('TC-04: Exceeded budgets fail in enforce mode and only warn in warn mode', async () => {
+        const record = (recorder: LatencyRecorder) => {
+            [40, 50, 900].forEach(ms => recorder.record('GET', '/employee/E1', 200, ms));
+            recorder.expectLatency('/employee/{employeeId}', { p50: 100, max: 500 });
+            recorder.expectLatency('POST /employee', { p95: 100 });
+        };
+
+        const enforcing = new LatencyRecorder(TEMPLATES, 'enforce');
+        record(enforcing);
+        expect(() => enforcing.checkBudgets()).toThrow(LatencyBudgetError);
+        expect(() => enforcing.checkBudgets()).toThrow(
+            'Latency budget exceeded:\n' +
+            '  /employee/{employeeId}: max 900ms > 500ms (3 request(s))\n' +
+            '  POST /employee: no requests recorded'
+        );
+
+        const warning = new LatencyRecorder(TEMPLATES, 'warn');
+        record(warning);
+        expect(() => warning.checkBudgets()).not.toThrow();
+    });
+
+    test('TC-05: Comparing reports gives the p95 change per endpoint', async () => {
+        const report = (endpoints: LatencyReport['endpoints']): LatencyReport =>
+            ({ generatedAt: '', profile: 'mock', baseUrl: '', total: 0, endpoints });
+        const stats = (p95: number) => ({ count: 10, p50: p95 / 2, p95, max: p95, mean: p95 / 2 });
+
+        const changes = compareLatencyReports(
+            report({ 'GET /pay-groups': stats(200), 'DELETE /pay-groups/{id}': stats(80) }),
+            report({ 'GET /pay-groups': stats(250), 'POST /pay-groups': stats(90) })
+        );
+
+        expect(changes.map(({ endpoint, p95ChangePct }) => ({ endpoint, p95ChangePct }))).toEqual([
+            { endpoint: 'DELETE /pay-groups/{id}', p95ChangePct: undefined },
+            { endpoint: 'GET /pay-groups', p95ChangePct: 25 },
+            { endpoint: 'POST /pay-groups', p95ChangePct: undefined }
+        ]);
+    });
+});
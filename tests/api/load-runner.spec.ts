@@ -0,0 +1,77 @@
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { testConfig } from '../../src/config/test-config';
+import { createAuthStrategy } from '../../src/api/auth';
+import { EmployeeApi } from '../../src/api/employee-api';
+import { PayGroupApi } from '../../src/api/pay-group-api';
+import { TestDataFactory } from '../../src/data/test-data-factory';
+import { latencyHistogram } from '../../src/perf/latency';
+import { LoadClientsFactory, formatLoadResult, runLoad } from '../../src/perf/load-runner';
+import { LoadScenario, browsePayGroups, createEmployees } from '../../src/perf/load-scenarios';
+
+test.describe('API Performance - Load Runner', () => {
+    let clientsFor: LoadClientsFactory;
+
+    test.beforeEach(async ({ request, cleanupRegistry, testData }) => {
+        const retry = { ...testConfig.api.retry, maxAttempts: 1 };
+        clientsFor = (vu: number) => ({
+            employeeApi: new EmployeeApi(request, testConfig.api.baseUrl, createAuthStrategy(testConfig.api.auth), retry)
+                .useCleanupRegistry(cleanupRegistry),
+            payGroupApi: new PayGroupApi(request, testConfig.api.baseUrl, createAuthStrategy(testConfig.api.auth), retry)
+                .useCleanupRegistry(cleanupRegistry),
+            testData: new TestDataFactory(testData.seed + vu)
+        });
+    });
+
+    test('TC-01: Virtual users create employees concurrently and every request is counted', async ({ cleanupRegistry }) => {
+        const result = await runLoad(createEmployees(), { kind: 'vus', vus: 5, durationMs: 500 }, clientsFor);
+
+        expect(result.iterations).toBeGreaterThan(5);
+        expect(result.failedIterations).toBe(0);
+        expect(result.statusCodes).toEqual({ '201': result.iterations });
+        expect(Object.keys(result.endpoints)).toEqual(['POST /employee']);
+        expect(result.histogram.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(result.requests);
+        expect(result.throughput).toBeGreaterThan(0);
+        expect(cleanupRegistry.tracked.filter(entity => entity.kind === 'employee')).toHaveLength(result.iterations);
+    });
+
+    test('TC-02: An arrival rate starts iterations on schedule and drops them when all users are busy', async () => {
+        const slow: LoadScenario = {
+            name: 'slow',
+            description: 'waits 250ms',
+            iteration: () => new Promise(resolve => setTimeout(resolve, 250))
+        };
+
+        const result = await runLoad(slow, { kind: 'rate', perSecond: 20, maxVus: 2, durationMs: 1000 }, clientsFor);
+
+        expect(result.iterations + result.droppedIterations).toBe(20);
+        expect(result.iterations).toBeLessThanOrEqual(10);
+        expect(result.droppedIterations).toBeGreaterThan(0);
+    });
+
+    test('TC-03: Failed iterations and error statuses are reported by reason and status code', async () => {
+        const scenario = browsePayGroups();
+        const result = await runLoad({
+            ...scenario,
+            iteration: async clients => {
+                await scenario.iteration(clients);
+                const response = await clients.payGroupApi.getPayGroup(999999);
+                if (!response.ok()) throw new Error(`GET /pay-groups/{id} returned ${response.status()}`);
+            }
+        }, { kind: 'vus', vus: 2, durationMs: 300 }, clientsFor);
+
+        expect(result.errorRate).toBe(100);
+        expect(result.errors).toEqual({ 'GET /pay-groups/{id} returned 404': result.iterations });
+        expect(result.statusCodes['404']).toBe(result.iterations);
+        expect(result.requests).toBe(3 * result.iterations);
+        expect(result.httpErrorRate).toBe(33.3);
+        expect(formatLoadResult(result)).toContain(`  failed x${result.iterations}: GET /pay-groups/{id} returned 404`);
+    });
+
+    test('TC-04: The latency histogram counts each sample in the first bucket that holds it', async () => {
+        expect(latencyHistogram([3, 10, 11, 80, 120000], [10, 100])).toEqual([
+            { le: 10, count: 2 },
+            { le: 100, count: 2 },
+            { le: '+Inf', count: 1 }
+        ]);
+    });
+});
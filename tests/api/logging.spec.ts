@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { CORRELATION_ID_HEADER } from '../../src/api/base-api';
+import { shouldAttachLogs } from '../../src/fixtures/log-fixtures';
+import { testConfig } from '../../src/config/test-config';
+import { LogEntry, LogLevel, MemorySink, logger, rotateRunLogs } from '../../src/utils/logger';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/** JSON entries in the current run log that belong to one request */
+function entriesFor(correlationId: string): LogEntry[] {
+    return fs.readFileSync(logger.runLogFile!, 'utf8')
+        .split('\n')
+        .filter(line => line.startsWith('{'))
+        .map(line => JSON.parse(line) as LogEntry)
+        .filter(entry => entry.correlationId === correlationId);
+}
+
+test.describe('Logging - Correlation IDs, Capture, Levels, Sinks and Retention', () => {
+    test('TC-01: Every API call sends its own correlation ID, echoed by the backend', async ({ payGroupApi }) => {
+        const first = await payGroupApi.getPayGroups();
+        const second = await payGroupApi.getPayGroups();
+
+        const firstId = first.headers()[CORRELATION_ID_HEADER.toLowerCase()];
+        const secondId = second.headers()[CORRELATION_ID_HEADER.toLowerCase()];
+        expect(firstId).toMatch(UUID);
+        expect(secondId).toMatch(UUID);
+        expect(firstId).not.toBe(secondId);
+    });
+
+    test('TC-02: A correlation ID supplied by the caller is kept', async ({ payGroupApi }) => {
+        const response = await payGroupApi.get('/pay-groups', { headers: { [CORRELATION_ID_HEADER]: 'trace-tc-02' } });
+
+        expect(response.headers()[CORRELATION_ID_HEADER.toLowerCase()]).toBe('trace-tc-02');
+    });
+
+    test('TC-03: JSON log entries carry the test, worker, retry and correlation ID', async ({ payGroupApi }, testInfo) => {
+        logger.setFormat('json');
+        let correlationId: string;
+        try {
+            const response = await payGroupApi.getPayGroups();
+            correlationId = response.headers()[CORRELATION_ID_HEADER.toLowerCase()];
+        } finally {
+            logger.setFormat('text');
+        }
+
+        const entries = entriesFor(correlationId);
+        expect(entries.map(e => e.message)).toEqual(expect.arrayContaining([
+            expect.stringMatching(/^STEP: GET Request to: .*\/pay-groups$/),
+            expect.stringMatching(/^Response Status: 200 \(\d+ms\)$/)
+        ]));
+        for (const entry of entries) {
+            expect(entry).toMatchObject({
+                test: testInfo.titlePath.slice(1).join(' > '),
+                workerIndex: testInfo.workerIndex,
+                retry: testInfo.retry
+            });
+            expect(Date.parse(entry.timestamp)).not.toBeNaN();
+        }
+    });
+
+    test('TC-04: The correlation ID is only attached while its request is in flight', async ({ payGroupApi }) => {
+        await payGroupApi.getPayGroups();
+
+        expect(logger.context.correlationId).toBeUndefined();
+        expect(logger.context.test).toContain('TC-04');
+        expect(logger.withContext({ correlationId: 'outer' }, () =>
+            logger.withContext({ retry: 9 }, () => logger.context)
+        )).toMatchObject({ correlationId: 'outer', retry: 9 });
+    });
+
+    test('TC-05: A capture collects only the lines logged while it is active', async ({ payGroupApi }) => {
+        logger.info('before capture');
+        const capture = logger.capture();
+        const response = await payGroupApi.getPayGroups();
+        const lines = capture.stop();
+        logger.info('after capture');
+
+        const correlationId = response.headers()[CORRELATION_ID_HEADER.toLowerCase()];
+        expect(lines.some(line => /Response Status: 200 \(\d+ms\)$/.test(line))).toBe(true);
+        expect(lines.join('\n')).not.toContain('before capture');
+        expect(lines.join('\n')).not.toContain('after capture');
+        expect(capture.lines).toHaveLength(lines.length);
+        expect(correlationId).toMatch(UUID);
+    });
+
+    test('TC-06: LOG_CAPTURE decides which tests get a logs.txt attachment', async () => {
+        const passed = { status: 'passed', expectedStatus: 'passed' } as const;
+        const failed = { status: 'failed', expectedStatus: 'passed' } as const;
+        const expectedFailure = { status: 'failed', expectedStatus: 'failed' } as const;
+
+        expect([passed, failed].map(info => shouldAttachLogs('on', info))).toEqual([true, true]);
+        expect([passed, failed].map(info => shouldAttachLogs('off', info))).toEqual([false, false]);
+        expect([passed, failed, expectedFailure].map(info => shouldAttachLogs('retain-on-failure', info)))
+            .toEqual([false, true, false]);
+    });
+
+    test('TC-07: Sinks only receive entries at or above the log level', async () => {
+        const memory = logger.addSink(new MemorySink());
+        const level = logger.level;
+        try {
+            logger.setLevel(LogLevel.WARN);
+            logger.debug('tc-07 debug');
+            logger.info('tc-07 info');
+            logger.warn('tc-07 warn');
+            logger.error('tc-07 error');
+        } finally {
+            logger.setLevel(level);
+            logger.removeSink(memory);
+        }
+        logger.warn('tc-07 after removal');
+
+        expect(memory.messages).toEqual(['tc-07 warn', 'tc-07 error']);
+        expect(memory.entries[0]).toMatchObject({ level: LogLevel.WARN, test: expect.stringContaining('TC-07') });
+    });
+
+    test('TC-08: Rotation keeps the configured number of runs and drops old ones', async ({}, testInfo) => {
+        const dir = testInfo.outputPath('logs');
+        fs.mkdirSync(dir, { recursive: true });
+        const write = (name: string, ageDays = 0) => {
+            const file = path.join(dir, name);
+            fs.writeFileSync(file, name);
+            const time = new Date(Date.now() - ageDays * 24 * 60 * 60 * 1000);
+            fs.utimesSync(file, time, time);
+        };
+        const contents = () => Object.fromEntries(fs.readdirSync(dir).sort().map(name => [name, fs.readFileSync(path.join(dir, name), 'utf8')]));
+
+        ['test_run.log', 'test_run.1.log', 'test_run.2.log', 'test_run.3.log'].forEach(name => write(name));
+        rotateRunLogs(dir, { runs: 3 });
+        expect(contents()).toEqual({ 'test_run.1.log': 'test_run.log', 'test_run.2.log': 'test_run.1.log', 'test_run.3.log': 'test_run.2.log' });
+
+        write('test_run.log');
+        write('test_run.1.log', 10);
+        rotateRunLogs(dir, { runs: 3, maxAgeDays: 7 });
+        expect(Object.keys(contents())).toEqual(['test_run.1.log', 'test_run.3.log']);
+
+        write('test_run.jsonl');
+        rotateRunLogs(dir, { runs: 1 });
+        expect(contents()).toEqual({ 'test_run.1.jsonl': 'test_run.jsonl' });
+
+        rotateRunLogs(dir, { runs: 0 });
+        expect(contents()).toEqual({});
+    });
+
+    test('TC-09: The resolved settings decide which built-in sinks are written', async () => {
+        const runLog = () => fs.readFileSync(logger.runLogFile!, 'utf8');
+        const jsonlFile = path.join(path.dirname(logger.runLogFile!), 'test_run.jsonl');
+        expect(logger.level).toBe(testConfig.logging.level);
+        try {
+            logger.configure({ ...testConfig.logging, sinks: ['console'] });
+            logger.info('tc-09 console only');
+            logger.configure({ ...testConfig.logging, sinks: ['jsonl'] });
+            logger.info('tc-09 jsonl only');
+        } finally {
+            logger.configure(testConfig.logging);
+        }
+        logger.info('tc-09 file again');
+
+        expect(runLog()).not.toMatch(/tc-09 (console|jsonl) only/);
+        expect(runLog()).toContain('tc-09 file again');
+        const jsonl = fs.readFileSync(jsonlFile, 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line) as LogEntry);
+        expect(jsonl.map(entry => entry.message)).toContain('tc-09 jsonl only');
+        expect(jsonl.map(entry => entry.message)).not.toContain('tc-09 file again');
+    });
+
+    test('TC-10: Configuring again replaces the extra redaction rules instead of adding to them', async () => {
+        try {
+            logger.configure({ ...testConfig.logging, redaction: { enabled: true, keys: [/ssn/i], patterns: [/EMP-\d{4}/g] } });
+            expect(logger.redact('ssn=123 id EMP-1234')).toBe('ssn=[REDACTED] id [REDACTED]');
+        } finally {
+            logger.configure(testConfig.logging);
+        }
+
+        expect(logger.redact('ssn=123 id EMP-1234')).toBe('ssn=123 id EMP-1234');
+        expect(logger.redact('password=hunter2'), 'default rules stay').toBe('password=[REDACTED]');
+    });
+});
@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+import { test, expect } from '@playwright/test';
+import { GENERATED_MARKER, generateApiClient, writeApiClient } from '../../src/codegen/openapi-client-generator';
+
+// Golden files live next to the sample spec; regenerate them with UPDATE_GOLDEN=1 after an intended change
+const GOLDEN_DIR = path.resolve(__dirname, 'golden/openapi-client');
+const SAMPLE_SPEC = path.join(GOLDEN_DIR, 'sample-openapi.json');
+const PAYROLL_SPEC = path.resolve(__dirname, '../../openapi/tw-payroll-system.json');
+const GENERATED_DIR = path.resolve(__dirname, '../../src/api/generated');
+
+function readJson(file: string) {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+test.describe('OpenAPI Client Generator', () => {
+    test('TC-01: Sample spec output matches the golden files', () => {
+        const client = generateApiClient(readJson(SAMPLE_SPEC), { source: 'sample-openapi.json' });
+        const outputs: Record<string, string> = {
+            ...Object.fromEntries(Object.entries(client.files).map(([name, content]) => [`${name}.golden`, content])),
+            ...Object.fromEntries(Object.entries(client.extensions).map(([name, content]) => [`extension.${name}.golden`, content])),
+            'skipped.txt.golden': client.skipped.join('\n') + '\n'
+        };
+
+        if (process.env.UPDATE_GOLDEN) {
+            for (const [name, content] of Object.entries(outputs)) {
+                fs.writeFileSync(path.join(GOLDEN_DIR, name), content);
+            }
+        }
+
+        const goldenFiles = fs.readdirSync(GOLDEN_DIR).filter(name => name.endsWith('.golden')).sort();
+        expect(Object.keys(outputs).sort()).toEqual(goldenFiles);
+        for (const [name, content] of Object.entries(outputs)) {
+            expect(content, `${name} (rerun with UPDATE_GOLDEN=1 if the change is intended)`).toBe(fs.readFileSync(path.join(GOLDEN_DIR, name), 'utf8'));
+        }
+    });
+
+    test('TC-02: Committed payroll client is up to date with the spec', () => {
+        const client = generateApiClient(readJson(PAYROLL_SPEC), { source: 'openapi/tw-payroll-system.json' });
+
+        const committed = fs.readdirSync(GENERATED_DIR).sort();
+        expect(committed).toEqual(Object.keys(client.files).sort());
+        for (const [name, content] of Object.entries(client.files)) {
+            expect(content, `src/api/generated/${name} is stale; run npm run generate:api`).toBe(fs.readFileSync(path.join(GENERATED_DIR, name), 'utf8'));
+        }
+    });
+
+    test('TC-03: Regeneration replaces generated files but never hand-written ones', async ({}, testInfo) => {
+        const outDir = testInfo.outputPath('generated');
+        const extensionDir = testInfo.outputPath('api');
+        fs.mkdirSync(extensionDir, { recursive: true });
+        const document = readJson(SAMPLE_SPEC);
+
+        const first = writeApiClient(document, outDir, extensionDir);
+        expect(first.scaffolded).toEqual([path.join(extensionDir, 'book-api.ts'), path.join(extensionDir, 'loans-api.ts')]);
+        expect(fs.readFileSync(path.join(extensionDir, 'book-api.ts'), 'utf8')).toContain(`from '../generated/book-api'`);
+
+        // Hand-written edits: an extended subclass, a helper in the generated directory, a stale generated file
+        const extension = path.join(extensionDir, 'book-api.ts');
+        fs.writeFileSync(extension, fs.readFileSync(extension, 'utf8').replace('{\n}', '{\n    // custom helper\n}'));
+        fs.writeFileSync(path.join(outDir, 'helpers.ts'), 'export const custom = true;\n');
+        fs.writeFileSync(path.join(outDir, 'author-api.ts'), `${GENERATED_MARKER}\nexport {};\n`);
+
+        const second = writeApiClient(document, outDir, extensionDir);
+
+        expect(second.scaffolded).toEqual([]);
+        expect(second.removed).toEqual([path.join(outDir, 'author-api.ts')]);
+        expect(fs.readFileSync(extension, 'utf8')).toContain('// custom helper');
+        expect(fs.readFileSync(path.join(outDir, 'helpers.ts'), 'utf8')).toBe('export const custom = true;\n');
+
+        // A hand-written file where a generated one belongs is never overwritten
+        fs.writeFileSync(path.join(outDir, 'models.ts'), 'export interface Book {}\n');
+        expect(() => writeApiClient(document, outDir, extensionDir)).toThrow(/Refusing to overwrite hand-written file/);
+    });
+});
@@ -0,0 +1,49 @@
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import type { CreatePayGroup } from '../../src/api/pay-group-api';
+import { checkProperty, PropertyFailure } from '../../src/data/property';
+import { RATE_FIELDS, RatePayload, isValidRatePayload, ratePayloads } from '../../src/data/pay-group-properties';
+
+// Property runs are seeded from the test's data seed; a failure prints PROPERTY_SEED to replay it
+
+test.describe('Pay Group API - Rate Validation Properties', () => {
+    test('TC-01: Create accepts exactly the valid rate space', async ({ payGroupApi, testData }) => {
+        await checkProperty(ratePayloads(), async rates => {
+            const payload = { groupName: testData.groupName(), paymentCycle: 'MONTHLY', ...rates } as unknown as CreatePayGroup;
+
+            const response = await payGroupApi.createPayGroups(payload);
+
+            expect(response.status(), 'created only when every rate is valid').toBe(isValidRatePayload(rates, false) ? 201 : 400);
+        }, { seed: testData.seed });
+    });
+
+    test('TC-02: Update accepts exactly the valid rate space', async ({ payGroupApi, testData }) => {
+        const payGroup = await payGroupApi.createPayGroupTyped(testData.payGroup().build());
+
+        await checkProperty(ratePayloads(), async rates => {
+            const response = await payGroupApi.updatePayGroups(payGroup.payGroupId, rates as Partial<CreatePayGroup>);
+
+            expect(response.status(), 'updated only when every supplied rate is valid').toBe(isValidRatePayload(rates, true) ? 200 : 400);
+        }, { seed: testData.seed });
+    });
+
+    test('TC-03: A failing property is shrunk to a minimal payload and reports its seed', async () => {
+        const claimAllValid = (rates: RatePayload) => {
+            expect(isValidRatePayload(rates, true)).toBe(true);
+        };
+
+        const failure = await checkProperty(ratePayloads(), claimAllValid, { seed: 7 }).catch(e => e);
+
+        expect(failure).toBeInstanceOf(PropertyFailure);
+        expect(failure.message).toContain('PROPERTY_SEED=');
+        // Every field that does not cause the failure is dropped; the offending value is simplified
+        const shrunk: RatePayload = failure.shrunk;
+        const remaining = RATE_FIELDS.filter(field => shrunk[field] !== undefined);
+        expect(remaining).toHaveLength(1);
+        expect(isValidRatePayload(shrunk, true)).toBe(false);
+        expect(Number.isInteger(shrunk[remaining[0]])).toBe(true);
+
+        // The same seed replays the same counterexample
+        const replay = await checkProperty(ratePayloads(), claimAllValid, { seed: failure.seed }).catch(e => e);
+        expect(replay.counterexample).toEqual(failure.counterexample);
+    });
+});
@@ -1,15 +1,19 @@
-import { test, expect } from '@playwright/test';
-
-import { testConfig } from '../../src/config/test-config';
+import { test, expect } from '../../src/fixtures/api-fixtures';
 
 let payGroupApi: PayGroupApi;
+let testData: TestDataFactory;
 
-import { PayGroupApi } from '../../src/api/pay-group-api';
+import { PayGroupApi, PayGroupSchema } from '../../src/api/pay-group-api';
+import { ErrorBodySchema } from '../../src/api/base-api';
+import { validate } from '../../src/utils/schema-validator';
 import type { CreatePayGroup, PayGroup } from '../../src/api/pay-group-api';
-import { create } from 'domain';
+import { TestDataFactory, INVALID_PAY_GROUPS } from '../../src/data/test-data-factory';
 
-test.beforeEach(async ({ request }) => {
-    payGroupApi = new PayGroupApi(request, testConfig.api.baseUrl);
+// Pay groups created through the fixture are deleted after each test;
+// test data is seeded per test and reproducible via TEST_DATA_SEED
+test.beforeEach(async ({ payGroupApi: api, testData: factory }) => {
+    payGroupApi = api;
+    testData = factory;
 });
 
 
@@ -17,21 +21,9 @@ test.beforeEach(async ({ request }) => {
 
 test.describe('Pay Group API - Retrieve Pay Groups', () => {
     test('TC-01: Retrieve all pay groups (no filter)', async () => {
-        const response = await payGroupApi.getPayGroups();
-        expect(response.status()).toBe(200);
-        const data: PayGroup[] = await response.json();
+        // Throws ApiError on a non-2xx status, or SchemaValidationError listing every bad field
+        const data: PayGroup[] = await payGroupApi.getPayGroupsTyped();
         expect(Array.isArray(data)).toBe(true);
-        data.forEach(pg => {
-            expect(pg).toMatchObject({
-                payGroupId: expect.any(Number),
-                groupName: expect.any(String),
-                paymentCycle: expect.any(String),
-                baseTaxRate: expect.any(Number),
-                benefitRate: expect.any(Number),
-                deductionRate: expect.any(Number),
-                createdAt: expect.any(String),
-            });
-        });
     });
    
     const filterValues = [
@@ -75,14 +67,8 @@ test.describe('Pay Group API - Retrieve Pay Groups', () => {
         const response = await payGroupApi.getPayGroups();
         expect(response.status()).toBe(200);
         const data: PayGroup[] = await response.json();
-        data.forEach(pg => {
-            expect(typeof pg.payGroupId).toBe('number');
-            expect(typeof pg.groupName).toBe('string');
-            expect(typeof pg.paymentCycle).toBe('string');
-            expect(typeof pg.baseTaxRate).toBe('number');
-            expect(typeof pg.benefitRate).toBe('number');
-            expect(typeof pg.deductionRate).toBe('number');
-            expect(typeof pg.createdAt).toBe('string');
+        data.forEach((pg, i) => {
+            expect(validate(PayGroupSchema, pg, `PayGroup[${i}]`)).toEqual([]);
         });
     });
 
@@ -138,38 +124,8 @@ test.describe('Pay Group API - Retrieve Pay Groups', () => {
 //--------------------------------------------------------Create Pay Group-------------------------------------------------------------------//
 
 test.describe('Pay Group API - Create Pay Groups', () => {
-    // Helper function to generate unique test data
-    const generateUniquePayGroup = (suffix: string): CreatePayGroup => {
-    // Generate a short unique groupName (e.g., any123) instead of long timestamp
-    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*()-_+=';
-    const charactersLength = characters.length;
-  
-  // Generate a random length between 0 and 50 (inclusive)
-    const length = Math.floor(Math.random() * 51); // Multiplies up to 50.99... then floors
-  
-    let paygroupName = '';
-  for (let i = 0; i < length; i++) {
-    // Select a random character from the pool and add it to the result
-    paygroupName += characters.charAt(Math.floor(Math.random() * charactersLength));
-  }
-    // Randomly generate values for paymentCycle, baseTaxRate, benefitRate, and deductionRate
-    const paymentCycle = ['MONTHLY', 'WEEKLY', 'BIWEEKLY'][Math.floor(Math.random() * 3)];
-    const baseTaxRate = Math.random() * 60; // Random value between 0 and 60
-    const benefitRate = Math.random() * 100; // Random value between 0 and 100
-    const deductionRate = Math.random() * 100; // Random value between 0 and 100
-    
-    // Create a new PayGroup object with the generated data
-    const payGroup: CreatePayGroup = {
-        groupName: paygroupName,
-        paymentCycle:paymentCycle, // or any other value
-        baseTaxRate: Math.min(baseTaxRate, 60), // Ensure baseTaxRate is between 0 and 60
-        benefitRate: Math.min(benefitRate, 100), // Ensure benefitRate is between 0 and 100
-        deductionRate: Math.min(deductionRate, 100), // Ensure deductionRate is between 0 and 100
-    };
-    return payGroup;
-};
     test('TC-01: Create a paygroup and validate successful creation', async () => {
-        const paygroupData = generateUniquePayGroup('tc01');
+        const paygroupData = testData.payGroup().build();
 
         // Act: Create paygroup
         const response = await payGroupApi.createPayGroups(paygroupData);
@@ -182,7 +138,7 @@ test.describe('Pay Group API - Create Pay Groups', () => {
         expect(createdPayGroup).toHaveProperty('payGroupId');
 })
     test('TC-02: Test Create Paygroup API with Case sensitivity in paygroupName', async () => {
-        const paygroupData = generateUniquePayGroup('tc02');
+        const paygroupData = testData.payGroup().build();
         const response = await payGroupApi.createPayGroups(paygroupData);
         expect(response.status()).toBe(201);
        
@@ -208,12 +164,8 @@ test.describe('Pay Group API - Create Pay Groups', () => {
     });    
 
     test('TC-03: Test Create Paygroup API with groupName length > 50', async () => {
-        const paygroupData = generateUniquePayGroup('tc03');
         // Act: Try to create another paygroup with the groupName length > 50
-        const paygroupDataLongName  = {
-                    ...paygroupData,
-                    groupName: 'A'.repeat(51),  
-                };
+        const paygroupDataLongName = testData.payGroup().invalid('overlongGroupName').build();
         const responseLongName = await payGroupApi.createPayGroups(paygroupDataLongName);
         
         expect(responseLongName.status()).toBe(400);
@@ -233,12 +185,8 @@ test.describe('Pay Group API - Create Pay Groups', () => {
     });  
     
     test('TC-04: Test Create Paygroup API with empty groupName', async () => {
-        const paygroupData = generateUniquePayGroup('tc04');
-       // Act: Try to create another paygroup with empty groupName
-        const paygroupDataemptygroupName  = {
-                    ...paygroupData,
-                    groupName: '',  
-                };
+        // Act: Try to create another paygroup with empty groupName
+        const paygroupDataemptygroupName = testData.payGroup().invalid('emptyGroupName').build();
         const responseemptygroupName = await payGroupApi.createPayGroups(paygroupDataemptygroupName);
         
         expect(responseemptygroupName.status()).toBe(400);
@@ -257,12 +205,8 @@ test.describe('Pay Group API - Create Pay Groups', () => {
     });  
 
     test('TC-05: Test Create Paygroup API with empty paymentCycle', async () => {
-        const paygroupData = generateUniquePayGroup('tc05');
-       // Act: Try to create another paygroup with empty paymentCycle
-        const paygroupDataemptypaymentCycle  = {
-                    ...paygroupData,
-                    paymentCycle: '',  
-                };
+        // Act: Try to create another paygroup with empty paymentCycle
+        const paygroupDataemptypaymentCycle = testData.payGroup().invalid('emptyPaymentCycle').build();
         const responseemptypaymentCycle = await payGroupApi.createPayGroups(paygroupDataemptypaymentCycle);
         
         expect(responseemptypaymentCycle.status()).toBe(400);
@@ -281,12 +225,7 @@ test.describe('Pay Group API - Create Pay Groups', () => {
     });
 
     test('TC-06: Test Create Paygroup API with groupName containing only the digits', async () => {
-        const paygroupData = generateUniquePayGroup('tc06');
-       const uniqueId = `${Math.floor(Math.random() * 90000) + 10000}`;
-        const paygroupDatadigitsgroupName  = {
-                    ...paygroupData,
-                    groupName: uniqueId,  
-                };
+        const paygroupDatadigitsgroupName = testData.payGroup().with({ groupName: testData.random.digits(5) }).build();
         const response = await payGroupApi.createPayGroups(paygroupDatadigitsgroupName);
         
         expect(response.status()).toBe(201);
@@ -295,7 +234,7 @@ test.describe('Pay Group API - Create Pay Groups', () => {
         expect(createdPayGroup).toHaveProperty('payGroupId');
 })
     test('TC-07: Test Create Paygroup API with extra fields included in payload', async () => {
-        const paygroupData = generateUniquePayGroup('tc07');
+        const paygroupData = testData.payGroup().build();
         const paygroupDataextrafields  = {
                     ...paygroupData,
                     new_field: "yes",  
@@ -309,11 +248,7 @@ test.describe('Pay Group API - Create Pay Groups', () => {
 }) 
      
     test('TC-08: Test Create Paygroup API with baseTaxRate < 0', async () => {
-        const paygroupData = generateUniquePayGroup('tc08');
-        const paygroupDatanegativebasetax  = {
-                    ...paygroupData,
-                    baseTaxRate : -1 
-                };
+        const paygroupDatanegativebasetax = testData.payGroup().invalid('negativeBaseTaxRate').build();
         const response = await payGroupApi.createPayGroups(paygroupDatanegativebasetax);
         
         expect(response.status()).toBe(400);
@@ -332,11 +267,7 @@ test.describe('Pay Group API - Create Pay Groups', () => {
     });
     
     test('TC-09: Test Create Paygroup API with baseTaxRate > 60.0', async () => {
-        const paygroupData = generateUniquePayGroup('tc09');
-        const paygroupDatagreaterbasetax  = {
-                    ...paygroupData,
-                    baseTaxRate : 61
-                };
+        const paygroupDatagreaterbasetax = testData.payGroup().invalid('baseTaxRateAboveMax').build();
         const response = await payGroupApi.createPayGroups(paygroupDatagreaterbasetax);
         
         expect(response.status()).toBe(400);
@@ -355,11 +286,7 @@ test.describe('Pay Group API - Create Pay Groups', () => {
     });
 
     test('TC-10: Test Create Paygroup API with benefitRate < 0', async () => {
-        const paygroupData = generateUniquePayGroup('tc10');
-        const paygroupDatanegativebenefitRate  = {
-                    ...paygroupData,
-                    benefitRate : -1 
-                };
+        const paygroupDatanegativebenefitRate = testData.payGroup().invalid('negativeBenefitRate').build();
         const response = await payGroupApi.createPayGroups(paygroupDatanegativebenefitRate);
         
         expect(response.status()).toBe(400);
@@ -378,11 +305,7 @@ test.describe('Pay Group API - Create Pay Groups', () => {
     });
 
     test('TC-11: Test Create Paygroup API with benefitRate > 100', async () => {
-        const paygroupData = generateUniquePayGroup('tc11');
-        const paygroupDatagreaterbenefitRate  = {
-                    ...paygroupData,
-                    benefitRate : 101
-                };
+        const paygroupDatagreaterbenefitRate = testData.payGroup().invalid('benefitRateAboveMax').build();
         const response = await payGroupApi.createPayGroups(paygroupDatagreaterbenefitRate);
         
         expect(response.status()).toBe(400);
@@ -401,11 +324,7 @@ test.describe('Pay Group API - Create Pay Groups', () => {
     });
 
     test('TC-12: Test Create Paygroup API with deductionRate < 0', async () => {
-        const paygroupData = generateUniquePayGroup('tc12');
-        const paygroupDatanegativedeductionRate  = {
-                    ...paygroupData,
-                    deductionRate : -1 
-                };
+        const paygroupDatanegativedeductionRate = testData.payGroup().invalid('negativeDeductionRate').build();
         const response = await payGroupApi.createPayGroups(paygroupDatanegativedeductionRate);
         
         expect(response.status()).toBe(400);
@@ -424,11 +343,7 @@ test.describe('Pay Group API - Create Pay Groups', () => {
     });
 
     test('TC-13: Test Create Paygroup API with deductionRate > 100', async () => {
-        const paygroupData = generateUniquePayGroup('tc13');
-        const paygroupDatagreaterdeductionRate  = {
-                    ...paygroupData,
-                    deductionRate : 101
-                };
+        const paygroupDatagreaterdeductionRate = testData.payGroup().invalid('deductionRateAboveMax').build();
         const response = await payGroupApi.createPayGroups(paygroupDatagreaterdeductionRate);
         
         expect(response.status()).toBe(400);
@@ -449,13 +364,12 @@ test.describe('Pay Group API - Create Pay Groups', () => {
 test.describe('Pay Group API - UPDATE Pay Groups', () => {
     test('TC-01: Test Update Paygroup API with valid inputs', async () => {
     
-      const paygroupData = generateUniquePayGroup('tc14');
+      const paygroupData = testData.payGroup().build();
       const response = await payGroupApi.createPayGroups(paygroupData);
       const data = await response.json();
       const payGroupId = data.payGroupId;
-      const uniqueId = `${Math.floor(Math.random() * 90000) + 10000}`;
       const updatedPayGroupData = {
-        groupName : uniqueId
+        groupName : testData.random.digits(5)
       };
       const updateResponse = await payGroupApi.updatePayGroups(payGroupId, updatedPayGroupData);
       expect(updateResponse.status()).toBe(200);
@@ -465,13 +379,11 @@ test.describe('Pay Group API - UPDATE Pay Groups', () => {
 
     test('TC-02: Test Update Paygroup API with empty paymentCycle', async () => {
     
-      const paygroupData = generateUniquePayGroup('tc15');
+      const paygroupData = testData.payGroup().build();
       const response = await payGroupApi.createPayGroups(paygroupData);
       const data = await response.json();
       const payGroupId = data.payGroupId;
-      const updatedPayGroupData = {
-        paymentCycle : ""
-      };
+      const updatedPayGroupData = INVALID_PAY_GROUPS.emptyPaymentCycle;
       const updateResponse = await payGroupApi.updatePayGroups(payGroupId, updatedPayGroupData);
       expect(updateResponse.status()).toBe(400);
       const errorBody = await updateResponse.json();
@@ -488,13 +400,11 @@ test.describe('Pay Group API - UPDATE Pay Groups', () => {
     })
     test('TC-03: Test Update Paygroup API with empty groupName', async () => {
     
-      const paygroupData = generateUniquePayGroup('tc16');
+      const paygroupData = testData.payGroup().build();
       const response = await payGroupApi.createPayGroups(paygroupData);
       const data = await response.json();
       const payGroupId = data.payGroupId;
-      const updatedPayGroupData = {
-        groupName : ""
-      };
+      const updatedPayGroupData = INVALID_PAY_GROUPS.emptyGroupName;
       const updateResponse = await payGroupApi.updatePayGroups(payGroupId, updatedPayGroupData);
       expect(updateResponse.status()).toBe(400);
       const errorBody = await updateResponse.json();
@@ -510,13 +420,11 @@ test.describe('Pay Group API - UPDATE Pay Groups', () => {
         ).toBeTruthy();
     })
     test('TC-04: Test Update Paygroup API with baseTaxRate < 0', async () => {
-      const paygroupData = generateUniquePayGroup('tc16');
+      const paygroupData = testData.payGroup().build();
       const response = await payGroupApi.createPayGroups(paygroupData);
       const data = await response.json();
       const payGroupId = data.payGroupId;
-      const updatedPayGroupData = {
-        baseTaxRate : -1
-      };
+      const updatedPayGroupData = INVALID_PAY_GROUPS.negativeBaseTaxRate;
       const updateResponse = await payGroupApi.updatePayGroups(payGroupId, updatedPayGroupData);
       expect(updateResponse.status()).toBe(400);
       const errorBody = await updateResponse.json();
@@ -532,13 +440,11 @@ test.describe('Pay Group API - UPDATE Pay Groups', () => {
         ).toBeTruthy();
     })
     test('TC-05: Test Update Paygroup API with baseTaxRate > 60.0', async () => {
-      const paygroupData = generateUniquePayGroup('tc17');
+      const paygroupData = testData.payGroup().build();
       const response = await payGroupApi.createPayGroups(paygroupData);
       const data = await response.json();
       const payGroupId = data.payGroupId;
-      const updatedPayGroupData = {
-        baseTaxRate : 61
-      };
+      const updatedPayGroupData = INVALID_PAY_GROUPS.baseTaxRateAboveMax;
       const updateResponse = await payGroupApi.updatePayGroups(payGroupId, updatedPayGroupData);
       expect(updateResponse.status()).toBe(400);
       const errorBody = await updateResponse.json();
@@ -554,13 +460,11 @@ test.describe('Pay Group API - UPDATE Pay Groups', () => {
         ).toBeTruthy();
     })
     test('TC-06: Test Update Paygroup API with benefitRate < 0.0', async () => {
-      const paygroupData = generateUniquePayGroup('tc18');
+      const paygroupData = testData.payGroup().build();
       const response = await payGroupApi.createPayGroups(paygroupData);
       const data = await response.json();
       const payGroupId = data.payGroupId;
-      const updatedPayGroupData = {
-        benefitRate : -1
-      };
+      const updatedPayGroupData = INVALID_PAY_GROUPS.negativeBenefitRate;
       const updateResponse = await payGroupApi.updatePayGroups(payGroupId, updatedPayGroupData);
       expect(updateResponse.status()).toBe(400);
       const errorBody = await updateResponse.json();
@@ -576,13 +480,11 @@ test.describe('Pay Group API - UPDATE Pay Groups', () => {
         ).toBeTruthy();
     })
     test('TC-07: Test Update Paygroup API with benefitRate > 100.0', async () => {
-      const paygroupData = generateUniquePayGroup('tc19');
+      const paygroupData = testData.payGroup().build();
       const response = await payGroupApi.createPayGroups(paygroupData);
       const data = await response.json();
       const payGroupId = data.payGroupId;
-      const updatedPayGroupData = {
-        benefitRate : 101
-      };
+      const updatedPayGroupData = INVALID_PAY_GROUPS.benefitRateAboveMax;
       const updateResponse = await payGroupApi.updatePayGroups(payGroupId, updatedPayGroupData);
       expect(updateResponse.status()).toBe(400);
       const errorBody = await updateResponse.json();
@@ -598,13 +500,11 @@ test.describe('Pay Group API - UPDATE Pay Groups', () => {
         ).toBeTruthy();
     })
     test('TC-08: Test Update Paygroup API with deductionRate < 0.0', async () => {
-      const paygroupData = generateUniquePayGroup('tc20');
+      const paygroupData = testData.payGroup().build();
       const response = await payGroupApi.createPayGroups(paygroupData);
       const data = await response.json();
       const payGroupId = data.payGroupId;
-      const updatedPayGroupData = {
-        deductionRate : -1
-      };
+      const updatedPayGroupData = INVALID_PAY_GROUPS.negativeDeductionRate;
       const updateResponse = await payGroupApi.updatePayGroups(payGroupId, updatedPayGroupData);
       expect(updateResponse.status()).toBe(400);
       const errorBody = await updateResponse.json();
@@ -620,13 +520,11 @@ test.describe('Pay Group API - UPDATE Pay Groups', () => {
         ).toBeTruthy();
     })
     test('TC-09: Test Update Paygroup API with deductionRate > 100.0', async () => {
-      const paygroupData = generateUniquePayGroup('tc21');
+      const paygroupData = testData.payGroup().build();
       const response = await payGroupApi.createPayGroups(paygroupData);
       const data = await response.json();
       const payGroupId = data.payGroupId;
-      const updatedPayGroupData = {
-        deductionRate : 101
-      };
+      const updatedPayGroupData = INVALID_PAY_GROUPS.deductionRateAboveMax;
       const updateResponse = await payGroupApi.updatePayGroups(payGroupId, updatedPayGroupData);
       expect(updateResponse.status()).toBe(400);
       const errorBody = await updateResponse.json();
@@ -643,4 +541,113 @@ test.describe('Pay Group API - UPDATE Pay Groups', () => {
     });
 });
 });
-});
\ No newline at end of file
+});
+//-------------------------------------------------------- Get / Patch / Delete Pay Group-------------------------------------------------------------------//
+
+test.describe('Pay Group API - Get, Patch and Delete Pay Group', () => {
+    const NON_EXISTENT_ID = 999999;
+
+    const newPayGroup = (): CreatePayGroup => testData.payGroup().with({ benefitRate: 10 }).build();
+
+    test('TC-01: Get a pay group by id', async () => {
+        const created = await payGroupApi.createPayGroupTyped(newPayGroup());
+
+        const fetched = await payGroupApi.getPayGroupTyped(created.payGroupId);
+
+        expect(fetched).toEqual(created);
+    });
+
+    test('TC-02: Get a non-existent pay group returns 404', async () => {
+        const response = await payGroupApi.getPayGroup(NON_EXISTENT_ID);
+        expect(response.status()).toBe(404);
+        expect(validate(ErrorBodySchema, await response.json())).toEqual([]);
+    });
+
+    test('TC-03: Patch a single field leaves the others unchanged', async () => {
+        const created = await payGroupApi.createPayGroupTyped(newPayGroup());
+
+        const patched = await payGroupApi.patchPayGroupTyped(created.payGroupId, { benefitRate: 12.5 });
+
+        expect(patched).toEqual({ ...created, benefitRate: 12.5 });
+    });
+
+    test('TC-04: Patch groupName to an existing name (different case) returns 409', async () => {
+        const first = await payGroupApi.createPayGroupTyped(newPayGroup());
+        const second = await payGroupApi.createPayGroupTyped(newPayGroup());
+
+        const response = await payGroupApi.patchPayGroup(second.payGroupId, { groupName: first.groupName.toLowerCase() });
+
+        expect(response.status()).toBe(409);
+        const bodyString = JSON.stringify(await response.json()).toLowerCase();
+        expect(bodyString.includes('conflict') || bodyString.includes('already exists')).toBeTruthy();
+    });
+
+    test('TC-05: Patch a non-existent pay group returns 404', async () => {
+        const response = await payGroupApi.patchPayGroup(NON_EXISTENT_ID, { benefitRate: 1 });
+        expect(response.status()).toBe(404);
+    });
+
+    test('TC-06: Delete a pay group, then it can no longer be fetched', async () => {
+        const created = await payGroupApi.createPayGroupTyped(newPayGroup());
+
+        const response = await payGroupApi.deletePayGroup(created.payGroupId);
+        expect([200, 204]).toContain(response.status());
+
+        expect((await payGroupApi.getPayGroup(created.payGroupId)).status()).toBe(404);
+    });
+
+    test('TC-07: Delete a non-existent pay group returns 404', async () => {
+        const response = await payGroupApi.deletePayGroup(NON_EXISTENT_ID);
+        expect(response.status()).toBe(404);
+    });
+
+    test('TC-08: Delete a pay group that still has employees returns 409', async ({ employeeApi }) => {
+        const payGroup = await payGroupApi.createPayGroupTyped(newPayGroup());
+        const { employeeId } = await employeeApi.createEmployeeTyped(testData.employee().inPayGroup(payGroup.payGroupId).build());
+
+        const response = await payGroupApi.deletePayGroup(payGroup.payGroupId);
+        expect(response.status()).toBe(409);
+
+        // Once the employee is gone the pay group can be deleted
+        await employeeApi.deleteEmployee(employeeId);
+        expect([200, 204]).toContain((await payGroupApi.deletePayGroup(payGroup.payGroupId)).status());
+    });
+});
+
+//-------------------------------------------------------- List Options-------------------------------------------------------------------//
+
+test.describe('Pay Group API - Filtering, Sorting and Pagination', () => {
+    test('TC-01: Filter by groupName, sort descending and page through results', async () => {
+        const prefix = `LIST-${testData.random.string(8)}`;
+        for (const suffix of ['A', 'B', 'C']) {
+            await payGroupApi.createPayGroupTyped({
+                groupName: `${prefix}-${suffix}`,
+                paymentCycle: 'WEEKLY',
+                baseTaxRate: 10,
+                benefitRate: 10,
+                deductionRate: 10
+            });
+        }
+
+        const firstPage = await payGroupApi.getPayGroupsTyped({ groupName: prefix, sortBy: 'groupName', direction: 'desc', page: 0, size: 2 });
+        const secondPage = await payGroupApi.getPayGroupsTyped({ groupName: prefix, sortBy: 'groupName', direction: 'desc', page: 1, size: 2 });
+
+        expect(firstPage.map(pg => pg.groupName)).toEqual([`${prefix}-C`, `${prefix}-B`]);
+        expect(secondPage.map(pg => pg.groupName)).toEqual([`${prefix}-A`]);
+    });
+
+    test('TC-02: groupName filter combines with paymentCycle', async () => {
+        const prefix = `LIST-${testData.random.string(8)}`;
+        await payGroupApi.createPayGroupTyped({ groupName: `${prefix}-W`, paymentCycle: 'WEEKLY', baseTaxRate: 1, benefitRate: 1, deductionRate: 1 });
+        await payGroupApi.createPayGroupTyped({ groupName: `${prefix}-M`, paymentCycle: 'MONTHLY', baseTaxRate: 1, benefitRate: 1, deductionRate: 1 });
+
+        const data = await payGroupApi.getPayGroupsTyped({ groupName: prefix, paymentCycle: 'MONTHLY' });
+
+        expect(data.map(pg => pg.groupName)).toEqual([`${prefix}-M`]);
+    });
+
+    test('TC-03: Unknown sort field returns 400', async () => {
+        const response = await payGroupApi.get('/pay-groups?sort=salary,asc');
+        expect(response.status()).toBe(400);
+    });
+});
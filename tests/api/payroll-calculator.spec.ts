@@ -0,0 +1,60 @@
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { calculatePay, divideRounded, PayrollCalculationError } from '../../src/utils/payroll-calculator';
+
+test.describe('Payroll Calculator', () => {
+    test('TC-01: Weekly pay with whole-number amounts', async () => {
+        const pay = calculatePay(52000, { paymentCycle: 'WEEKLY', baseTaxRate: 20, benefitRate: 5, deductionRate: 10 });
+
+        expect(pay).toEqual({
+            paymentCycle: 'WEEKLY',
+            periodsPerYear: 52,
+            gross: 1000,
+            tax: 200,
+            benefits: 50,
+            deductions: 100,
+            net: 750
+        });
+    });
+
+    test('TC-02: Monthly pay with fractional rates', async () => {
+        const pay = calculatePay(60000, { paymentCycle: 'MONTHLY', baseTaxRate: 22.5, benefitRate: 0, deductionRate: 3.75 });
+
+        expect(pay).toMatchObject({ gross: 5000, tax: 1125, benefits: 0, deductions: 187.5, net: 3687.5 });
+    });
+
+    test('TC-03: Bi-weekly gross and tax are rounded to the cent', async () => {
+        // 10000 / 26 = 384.615... -> 384.62; 15% of 384.62 = 57.693 -> 57.69
+        const pay = calculatePay(10000, { paymentCycle: 'BIWEEKLY', baseTaxRate: 15, benefitRate: 2.5, deductionRate: 1 });
+
+        expect(pay).toMatchObject({ gross: 384.62, tax: 57.69, benefits: 9.62, deductions: 3.85, net: 332.7 });
+    });
+
+    test('TC-04: Half cents follow the rounding mode', async () => {
+        // 0.12 / 12 = 0.01 gross; 50% tax = 0.005
+        const rates = { paymentCycle: 'MONTHLY', baseTaxRate: 50, benefitRate: 0, deductionRate: 0 };
+
+        expect(calculatePay(0.12, rates).tax).toBe(0.01);
+        expect(calculatePay(0.12, rates, 'HALF_EVEN').tax).toBe(0);
+        expect(divideRounded(5, 2, 'HALF_UP')).toBe(3);
+        expect(divideRounded(5, 2, 'HALF_EVEN')).toBe(2);
+        expect(divideRounded(7, 2, 'HALF_EVEN')).toBe(4);
+    });
+
+    test('TC-05: Net always reconciles with the rounded components', async ({ testData }) => {
+        for (let i = 0; i < 50; i++) {
+            const salary = testData.random.float(0, 250000);
+            const pay = calculatePay(salary, testData.payGroup().build());
+
+            const cents = (amount: number) => Math.round(amount * 100);
+            expect(cents(pay.net), `salary ${salary}`).toBe(cents(pay.gross) - cents(pay.tax) - cents(pay.deductions) + cents(pay.benefits));
+        }
+    });
+
+    test('TC-06: Invalid input is rejected', async () => {
+        const rates = { paymentCycle: 'MONTHLY', baseTaxRate: 10, benefitRate: 0, deductionRate: 0 };
+
+        expect(() => calculatePay(1000, { ...rates, paymentCycle: 'DAILY' })).toThrow(PayrollCalculationError);
+        expect(() => calculatePay(-1, rates)).toThrow(/annualSalary must be a non-negative number/);
+        expect(() => calculatePay(1000, { ...rates, baseTaxRate: 10.125 })).toThrow(/baseTaxRate must have at most two decimal places/);
+    });
+});
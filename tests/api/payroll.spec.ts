@@ -0,0 +1,105 @@
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { PayrollRunSchema } from '../../src/api/payroll-run-api';
+import { ErrorBodySchema } from '../../src/api/base-api';
+import { validate } from '../../src/utils/schema-validator';
+import { calculatePay } from '../../src/utils/payroll-calculator';
+
+const PERIOD = { periodStart: '2026-01-01', periodEnd: '2026-01-31' };
+const NON_EXISTENT_ID = 999999;
+
+test.describe('Payroll API - Payroll Runs and Payslips', () => {
+    test('TC-01: Run payroll for a pay group and check every payslip against the calculator', async ({ payGroupApi, employeeApi, payrollRunApi, payslipApi, testData }) => {
+        // Arrange: A pay group with three employees
+        const payGroup = await payGroupApi.createPayGroupTyped(testData.payGroup().with({ paymentCycle: 'MONTHLY' }).build());
+        const employees = [];
+        for (let i = 0; i < 3; i++) {
+            employees.push(await employeeApi.createEmployeeTyped(
+                testData.employee().inPayGroup(payGroup.payGroupId).with({ joiningDate: '2025-06-01' }).build()
+            ));
+        }
+
+        // Act: Start the run and poll until it completes
+        const started = await payrollRunApi.startPayrollRun({ payGroupId: payGroup.payGroupId, ...PERIOD });
+        expect(started.status()).toBe(202);
+        const run = await payrollRunApi.waitForPayrollRun((await started.json()).runId, { intervalMs: 100 });
+
+        // Assert: One payslip per employee, each matching the reference calculation
+        expect(validate(PayrollRunSchema, run)).toEqual([]);
+        expect(run).toMatchObject({ payGroupId: payGroup.payGroupId, ...PERIOD, status: 'COMPLETED', employeeCount: 3 });
+
+        const payslips = await payslipApi.getPayslipsTyped(run.runId);
+        expect(payslips.map(p => p.employeeId).sort()).toEqual(employees.map(e => e.employeeId).sort());
+
+        for (const payslip of payslips) {
+            const employee = employees.find(e => e.employeeId === payslip.employeeId)!;
+            const { gross, tax, benefits, deductions, net } = calculatePay(employee.annualSalary!, payGroup);
+            expect(payslip, `payslip of ${employee.employeeId}`).toMatchObject({
+                runId: run.runId,
+                payGroupId: payGroup.payGroupId,
+                ...PERIOD,
+                annualSalary: employee.annualSalary,
+                gross,
+                tax,
+                benefits,
+                deductions,
+                net
+            });
+
+            // The single-payslip endpoint returns the same data
+            expect(await payslipApi.getPayslipTyped(payslip.payslipId)).toEqual(payslip);
+        }
+    });
+
+    test('TC-02: Employees who join after the period are not paid', async ({ payGroupApi, employeeApi, payrollRunApi, payslipApi, testData }) => {
+        const payGroup = await payGroupApi.createPayGroupTyped(testData.payGroup().build());
+        const current = await employeeApi.createEmployeeTyped(testData.employee().inPayGroup(payGroup.payGroupId).with({ joiningDate: '2025-12-15' }).build());
+        await employeeApi.createEmployeeTyped(testData.employee().inPayGroup(payGroup.payGroupId).with({ joiningDate: '2026-02-01' }).build());
+
+        const started = await payrollRunApi.startPayrollRunTyped({ payGroupId: payGroup.payGroupId, ...PERIOD });
+        const run = await payrollRunApi.waitForPayrollRun(started.runId, { intervalMs: 100 });
+
+        expect(run.employeeCount).toBe(1);
+        const payslips = await payslipApi.getPayslipsTyped(run.runId);
+        expect(payslips.map(p => p.employeeId)).toEqual([current.employeeId]);
+    });
+
+    test('TC-03: A run for an overlapping period of the same pay group returns 409', async ({ payGroupApi, payrollRunApi, testData }) => {
+        const payGroup = await payGroupApi.createPayGroupTyped(testData.payGroup().build());
+        await payrollRunApi.startPayrollRunTyped({ payGroupId: payGroup.payGroupId, ...PERIOD });
+
+        const response = await payrollRunApi.startPayrollRun({ payGroupId: payGroup.payGroupId, periodStart: '2026-01-15', periodEnd: '2026-02-14' });
+
+        expect(response.status()).toBe(409);
+        const bodyString = JSON.stringify(await response.json()).toLowerCase();
+        expect(bodyString.includes('conflict') || bodyString.includes('already')).toBeTruthy();
+    });
+
+    test('TC-04: Invalid run requests return 400', async ({ payGroupApi, payrollRunApi, testData }) => {
+        const payGroup = await payGroupApi.createPayGroupTyped(testData.payGroup().build());
+
+        const unknownGroup = await payrollRunApi.startPayrollRun({ payGroupId: NON_EXISTENT_ID, ...PERIOD });
+        const reversedPeriod = await payrollRunApi.startPayrollRun({ payGroupId: payGroup.payGroupId, periodStart: '2026-01-31', periodEnd: '2026-01-01' });
+        const badDate = await payrollRunApi.startPayrollRun({ payGroupId: payGroup.payGroupId, periodStart: '2026-02-30', periodEnd: '2026-03-01' });
+
+        for (const response of [unknownGroup, reversedPeriod, badDate]) {
+            expect(response.status()).toBe(400);
+            expect(validate(ErrorBodySchema, await response.json())).toEqual([]);
+        }
+    });
+
+    test('TC-05: Payslips are not available while the run is in progress', async ({ payGroupApi, payrollRunApi, payslipApi, testData }) => {
+        const payGroup = await payGroupApi.createPayGroupTyped(testData.payGroup().build());
+        const run = await payrollRunApi.startPayrollRunTyped({ payGroupId: payGroup.payGroupId, ...PERIOD });
+        expect(run.status).not.toBe('COMPLETED');
+
+        const response = await payslipApi.getPayslips(run.runId);
+
+        expect(response.status()).toBe(409);
+    });
+
+    test('TC-06: Unknown payroll runs and payslips return 404', async ({ payrollRunApi, payslipApi }) => {
+        expect((await payrollRunApi.getPayrollRun(NON_EXISTENT_ID)).status()).toBe(404);
+        expect((await payslipApi.getPayslips(NON_EXISTENT_ID)).status()).toBe(404);
+        expect((await payslipApi.getPayslip(NON_EXISTENT_ID)).status()).toBe(404);
+    });
+});
@@ -0,0 +1,76 @@
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { LogLevel, MemorySink, logger } from '../../src/utils/logger';
+import { REDACTED, Redactor } from '../../src/utils/redactor';
+
+test.describe('Logging - Redaction of Secrets and PII', () => {
+    test('TC-01: Request bodies are logged with sensitive fields masked', async ({ employeeApi, testData }) => {
+        const employee = testData.employee().build();
+        const memory = logger.addSink(new MemorySink());
+        const level = logger.level;
+        try {
+            logger.setLevel(LogLevel.DEBUG);
+            await employeeApi.createEmployee(employee);
+        } finally {
+            logger.setLevel(level);
+            logger.removeSink(memory);
+        }
+
+        const requestBody = memory.messages.find(message => message.startsWith('Request Body: '));
+        expect(requestBody).toContain(`"email":"${REDACTED}"`);
+        expect(requestBody).toContain(`"firstName":"${REDACTED}"`);
+        expect(requestBody).toContain(`"lastName":"${REDACTED}"`);
+        expect(requestBody).toContain(`"employeeId":"${employee.employeeId}"`);
+        expect(memory.messages.join('\n')).not.toContain(employee.email);
+    });
+
+    test('TC-02: Key rules, value patterns and known secrets mask free text', async () => {
+        const redactor = new Redactor();
+        redactor.addSecrets('S3cr3t!Value', 'ab');
+
+        expect(redactor.redactText('Attempting to login with username: tomsmith'))
+            .toBe(`Attempting to login with username: ${REDACTED}`);
+        expect(redactor.redactText('Authorization: Bearer abc.def-123')).toBe(`Authorization: ${REDACTED}`);
+        expect(redactor.redactText('GET /reset?token=xyz&page=2')).toBe(`GET /reset?token=${REDACTED}&page=2`);
+        expect(redactor.redactText('Contact jane.doe@example.com')).toBe(`Contact ${REDACTED}`);
+        expect(redactor.redactText("Filling 'S3cr3t!Value' in: Secret field")).toBe(`Filling '${REDACTED}' in: Secret field`);
+        expect(redactor.redactText('{"access_token": "eyJ0", "expires_in": 3600}'))
+            .toBe(`{"access_token": "${REDACTED}", "expires_in": 3600}`);
+        // Too short to be masked literally
+        expect(redactor.redactText('tab')).toBe('tab');
+        expect(redactor.redactField('Password field', 'hunter2')).toBe(REDACTED);
+        // Descriptions BasePage.fill() logs for name inputs
+        expect(redactor.redactField('First name field', 'Bob')).toBe(REDACTED);
+        expect(redactor.redactField('Last Name input', 'Smith')).toBe(REDACTED);
+        expect(redactor.redactField('Search field', 'payroll')).toBe('payroll');
+    });
+
+    test('TC-03: Structured data is copied with sensitive fields masked', async () => {
+        const data = {
+            employeeId: 'EMP-1',
+            email: 'a@b.io',
+            full_name: 'Jane Doe',
+            groupName: 'Weekly Staff',
+            headers: { Authorization: 'Basic dXNlcjpwYXNz', 'X-Correlation-Id': 'trace-1' },
+            contacts: [{ note: 'reach me at x@y.org', clientSecret: null }]
+        };
+
+        expect(new Redactor().redact(data)).toEqual({
+            employeeId: 'EMP-1',
+            email: REDACTED,
+            full_name: REDACTED,
+            groupName: 'Weekly Staff',
+            headers: { Authorization: REDACTED, 'X-Correlation-Id': 'trace-1' },
+            contacts: [{ note: `reach me at ${REDACTED}`, clientSecret: null }]
+        });
+        expect(data.email).toBe('a@b.io');
+    });
+
+    test('TC-04: Rules can be extended or switched off through the environment', async () => {
+        const redactor = Redactor.fromEnv({ LOG_REDACT_KEYS: 'ssn, iban', LOG_REDACT_PATTERNS: 'EMP-\\d{4};\\d{3}-\\d{2}-\\d{4}' });
+        expect(redactor.redact({ ssn: '1', ibanNumber: 'DE00', id: 'EMP-1234', ref: 'id 123-45-6789' }))
+            .toEqual({ ssn: REDACTED, ibanNumber: REDACTED, id: REDACTED, ref: `id ${REDACTED}` });
+
+        const off = Redactor.fromEnv({ LOG_REDACTION: 'off' });
+        expect(off.redactText('password: hunter2')).toBe('password: hunter2');
+    });
+});
@@ -0,0 +1,117 @@
+import { test, expect } from '@playwright/test';
+import { randomUUID } from 'crypto';
+import { EmployeeApi, CreateEmployeeRequest } from '../../src/api/employee-api';
+import { DEFAULT_RETRY_CONFIG } from '../../src/api/retry-policy';
+import type { RetryConfig } from '../../src/config/test-config';
+import { PayrollMockServer } from '../../src/mock/payroll-mock-server';
+
+// These tests inject faults into their own mock server, whatever PAYROLL_API_MODE is
+const server = new PayrollMockServer();
+const fastRetry: RetryConfig = { ...DEFAULT_RETRY_CONFIG, baseDelayMs: 10, maxDelayMs: 2000 };
+
+let employeeApi: EmployeeApi;
+
+const newEmployee = (): CreateEmployeeRequest => {
+    const id = `R${randomUUID().slice(0, 8)}`;
+    return {
+        employeeId: id,
+        firstName: 'Retry',
+        lastName: 'Tester',
+        department: 'Engineering',
+        designation: 'Software Engineer',
+        email: `${id.toLowerCase()}@example.com`,
+        payGroupId: 1,
+        joiningDate: '2024-01-15'
+    };
+};
+
+test.beforeAll(async () => {
+    await server.start();
+});
+
+test.afterAll(async () => {
+    await server.stop();
+});
+
+test.beforeEach(async ({ request }) => {
+    server.clearFaults();
+    employeeApi = new EmployeeApi(request, server.baseUrl, undefined, fastRetry);
+});
+
+test.describe('BaseAPI - Retry and Backoff', () => {
+    test('TC-01: GET is retried on 503 until it succeeds', async () => {
+        server.injectFaults('GET', '/employee', [{ status: 503 }, { status: 502 }]);
+
+        const response = await employeeApi.getAllEmployees();
+
+        expect(response.status()).toBe(200);
+        expect(server.pendingFaultCount).toBe(0);
+    });
+
+    test('TC-02: Last failure is returned once maxAttempts is exhausted', async () => {
+        server.injectFaults('GET', '/employee', [{ status: 503 }, { status: 503 }, { status: 503 }, { status: 503 }]);
+
+        const response = await employeeApi.getAllEmployees();
+
+        expect(response.status()).toBe(503);
+        // Three attempts consumed three faults; the fourth is still queued
+        expect(server.pendingFaultCount).toBe(1);
+    });
+
+    test('TC-03: Retry-After header is honored', async () => {
+        server.injectFaults('GET', '/pay-groups', [{ status: 503, headers: { 'Retry-After': '1' } }]);
+
+        const started = Date.now();
+        const response = await employeeApi.get('/pay-groups');
+
+        expect(response.status()).toBe(200);
+        expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+    });
+
+    test('TC-04: Status codes outside the policy are not retried', async () => {
+        server.injectFaults('GET', '/employee', [{ status: 500 }]);
+
+        const response = await employeeApi.getAllEmployees();
+
+        expect(response.status()).toBe(500);
+        expect(server.pendingFaultCount).toBe(0);
+    });
+
+    test('TC-05: Connection reset on GET is retried', async () => {
+        server.injectFaults('GET', '/employee', [{ reset: true }]);
+
+        const response = await employeeApi.getAllEmployees();
+
+        expect(response.status()).toBe(200);
+    });
+
+    test('TC-06: POST without an idempotency key is not retried', async () => {
+        server.injectFaults('POST', '/employee', [{ status: 503 }]);
+
+        const response = await employeeApi.createEmployee(newEmployee());
+
+        expect(response.status()).toBe(503);
+    });
+
+    test('TC-07: POST with an idempotency key is retried and applied once', async () => {
+        const employeeData = newEmployee();
+        const key = randomUUID();
+        server.injectFaults('POST', '/employee', [{ status: 503 }]);
+
+        const response = await employeeApi.createEmployee(employeeData, key);
+        expect(response.status()).toBe(201);
+
+        // Re-sending the same logical request returns the original result instead of a 409
+        const replay = await employeeApi.createEmployee(employeeData, key);
+        expect(replay.status()).toBe(201);
+        expect((await replay.json()).employeeId).toBe(employeeData.employeeId);
+    });
+
+    test('TC-08: Per-call override disables retries', async () => {
+        server.injectFaults('GET', '/employee', [{ status: 503 }]);
+
+        const response = await employeeApi.get('/employee', { retry: { maxAttempts: 1 } });
+
+        expect(response.status()).toBe(503);
+    });
+});
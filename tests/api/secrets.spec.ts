@@ -0,0 +1,66 @@
+import fs from 'fs';
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { loadConfiguration } from '../../src/config/env-profiles';
+import {
+    CommandSecretsProvider, EncryptedFileSecretsProvider, SecretsProviderError, encryptSecrets
+} from '../../src/config/secrets-provider';
+
+test.describe('Configuration - Secrets Providers', () => {
+    test('TC-01: Encrypted file secrets are only readable with the right key', async ({}, testInfo) => {
+        const filePath = testInfo.outputPath('secrets.json');
+        fs.writeFileSync(filePath, JSON.stringify(encryptSecrets({ UI_PASSWORD: 'qa-Pa55word' }, 'correct horse')));
+
+        expect(fs.readFileSync(filePath, 'utf8')).not.toContain('qa-Pa55word');
+        const provider = new EncryptedFileSecretsProvider(filePath, 'correct horse');
+        expect(provider.get('UI_PASSWORD')).toBe('qa-Pa55word');
+        expect(provider.get('API_AUTH_TOKEN')).toBeUndefined();
+
+        const wrongKey = new EncryptedFileSecretsProvider(filePath, 'battery staple');
+        expect(() => wrongKey.get('UI_PASSWORD')).toThrow(SecretsProviderError);
+        expect(() => wrongKey.get('UI_PASSWORD')).toThrow(`Secrets provider file (${filePath}): cannot decrypt the file`);
+    });
+
+    test('TC-02: Command secrets come from the command output, failures name the command', async () => {
+        const echo = new CommandSecretsProvider('node -e "process.stdout.write(\'secret-\' + process.argv[1])" {key}');
+        expect(echo.get('UI_PASSWORD')).toBe('secret-UI_PASSWORD');
+
+        const appended = new CommandSecretsProvider('node -e "process.stdout.write(process.argv[1] === \'API_AUTH_TOKEN\' ? \'tok\' : \'\')"');
+        expect(appended.get('API_AUTH_TOKEN')).toBe('tok');
+        expect(appended.get('UI_PASSWORD')).toBeUndefined();
+
+        const failing = new CommandSecretsProvider('node -e "console.error(\'vault is locked\'); process.exit(4)"');
+        expect(() => failing.get('UI_PASSWORD'))
+            .toThrow(`Secrets provider ${failing.description}: exited with 4 while resolving UI_PASSWORD: vault is locked`);
+    });
+
+    test('TC-03: Secrets have no defaults outside the local profile', async ({}, testInfo) => {
+        const envDir = testInfo.outputPath('env');
+        const env = { UI_BASE_URL: 'https://qa.example.test', PAYROLL_API_BASE_URL: 'http://qa.example.test/api' };
+
+        expect(loadConfiguration('local', envDir, {}).resolved.values.UI_PASSWORD).toBeDefined();
+        expect(loadConfiguration('qa', envDir, env).issues).toEqual([{
+            key: 'UI_PASSWORD',
+            message: 'is required by the ui project; secrets provider env (environment variables and .env files) has no value for it'
+        }]);
+        expect(loadConfiguration('qa', envDir, env, ['api']).issues).toEqual([]);
+
+        const failing = loadConfiguration('qa', envDir, { ...env, SECRETS_PROVIDER: 'command', SECRETS_COMMAND: 'node -e "process.exit(2)"' });
+        expect(failing.issues).toHaveLength(1);
+        expect(failing.issues[0].message).toContain('could not be resolved: Secrets provider command (node -e "process.exit(2)"): exited with 2');
+    });
+
+    test('TC-04: A provider value overrides the environment layers', async ({}, testInfo) => {
+        const filePath = testInfo.outputPath('secrets.json');
+        fs.writeFileSync(filePath, JSON.stringify(encryptSecrets({ UI_PASSWORD: 'from-file' }, 'k3y')));
+
+        const config = loadConfiguration('local', testInfo.outputPath('env'), {
+            SECRETS_PROVIDER: 'file',
+            SECRETS_FILE: filePath,
+            SECRETS_KEY: 'k3y'
+        });
+
+        expect(config.issues).toEqual([]);
+        expect(config.resolved.values.UI_PASSWORD).toBe('from-file');
+        expect(config.resolved.sources.UI_PASSWORD).toBe('secrets file');
+    });
+});
@@ -0,0 +1,48 @@
+import { test, expect } from '../../src/fixtures/api-fixtures';
+import { TestDataFactory, INVALID_PAY_GROUPS, InvalidPayGroupVariant } from '../../src/data/test-data-factory';
+import { deriveSeed } from '../../src/data/seeded-random';
+
+test.describe('Test Data Factory', () => {
+    test('TC-01: The same seed produces the same data', async () => {
+        const first = new TestDataFactory(1234);
+        const second = new TestDataFactory(1234);
+
+        expect(second.employee().build()).toEqual(first.employee().build());
+        expect(second.payGroup().build()).toEqual(first.payGroup().build());
+        // Derived from the seed, not from the day the test runs
+        expect(new TestDataFactory(1234).employee().build().joiningDate).toBe('2023-04-08');
+    });
+
+    test('TC-02: Each test derives its own seed from the run seed', async ({ testData }, testInfo) => {
+        expect(deriveSeed(42, 'a > b#0')).toBe(deriveSeed(42, 'a > b#0'));
+        expect(deriveSeed(42, 'a > b#0')).not.toBe(deriveSeed(42, 'a > b#1'));
+        expect(deriveSeed(42, 'a > b#0')).not.toBe(deriveSeed(43, 'a > b#0'));
+
+        expect(testData.seed).toBe(TestDataFactory.forTest(testInfo).seed);
+        expect(testInfo.annotations).toContainEqual({
+            type: 'test-data-seed',
+            description: `TEST_DATA_SEED=${process.env.TEST_DATA_SEED} (test seed ${testData.seed})`
+        });
+    });
+
+    test('TC-03: Builders override and remove fields', async ({ testData }) => {
+        const employee = testData.employee().inPayGroup(2).with({ department: 'QA' }).without('designation').build();
+
+        expect(employee).toMatchObject({ payGroupId: 2, department: 'QA' });
+        expect(employee).not.toHaveProperty('designation');
+    });
+
+    test('TC-04: Default pay groups are accepted by the API', async ({ testData, payGroupApi }) => {
+        for (let i = 0; i < 5; i++) {
+            const response = await payGroupApi.createPayGroups(testData.payGroup().build());
+            expect(response.status()).toBe(201);
+        }
+    });
+
+    for (const variant of Object.keys(INVALID_PAY_GROUPS) as InvalidPayGroupVariant[]) {
+        test(`TC-05: Invalid pay group variant "${variant}" is rejected with 400`, async ({ testData, payGroupApi }) => {
+            const response = await payGroupApi.createPayGroups(testData.payGroup().invalid(variant).build());
+            expect(response.status()).toBe(400);
+        });
+    }
+});
@@ -10,7 +10,7 @@
  * 3. Verify all login page elements are displayed
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../src/fixtures/log-fixtures';
 import { LoginPage } from '../../src/pages/login-page';
 import { DashboardPage } from '../../src/pages/dashboard-page';
 import { testConfig } from '../../src/config/test-config';